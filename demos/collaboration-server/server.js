@@ -0,0 +1,137 @@
+/**
+ * 协同编辑的本地测试服务器，实现了 y-websocket 的同步协议，文档只保存在内存中
+ *
+ * 启动：npm install && npm start
+ * 使用：new AiEditor({collaboration: {url: "ws://127.0.0.1:1234", documentName: "my-document"}})
+ */
+import * as decoding from "lib0/decoding";
+import * as encoding from "lib0/encoding";
+import {WebSocketServer} from "ws";
+import * as awarenessProtocol from "y-protocols/awareness";
+import * as syncProtocol from "y-protocols/sync";
+import * as Y from "yjs";
+
+const port = Number(process.env.PORT || 1234);
+const token = process.env.TOKEN;
+
+const messageSync = 0;
+const messageAwareness = 1;
+
+/**
+ * @type {Map<string, {doc: Y.Doc, awareness: awarenessProtocol.Awareness, conns: Map<import("ws").WebSocket, Set<number>>}>}
+ */
+const rooms = new Map();
+
+const send = (conn, message) => {
+    if (conn.readyState === conn.OPEN) {
+        conn.send(message);
+    }
+}
+
+const broadcast = (room, message) => {
+    room.conns.forEach((_, conn) => send(conn, message));
+}
+
+const getRoom = (name) => {
+    let room = rooms.get(name);
+    if (room) return room;
+
+    const doc = new Y.Doc();
+    const awareness = new awarenessProtocol.Awareness(doc);
+    awareness.setLocalState(null);
+    room = {doc, awareness, conns: new Map()};
+
+    doc.on("update", (update) => {
+        const encoder = encoding.createEncoder();
+        encoding.writeVarUint(encoder, messageSync);
+        syncProtocol.writeUpdate(encoder, update);
+        broadcast(room, encoding.toUint8Array(encoder));
+    });
+
+    awareness.on("update", ({added, updated, removed}, conn) => {
+        const changed = added.concat(updated, removed);
+        // 记录每个连接对应的 awareness client，断开时清除
+        if (conn && room.conns.has(conn)) {
+            const clients = room.conns.get(conn);
+            added.forEach(client => clients.add(client));
+            removed.forEach(client => clients.delete(client));
+        }
+        const encoder = encoding.createEncoder();
+        encoding.writeVarUint(encoder, messageAwareness);
+        encoding.writeVarUint8Array(encoder, awarenessProtocol.encodeAwarenessUpdate(awareness, changed));
+        broadcast(room, encoding.toUint8Array(encoder));
+    });
+
+    rooms.set(name, room);
+    return room;
+}
+
+const onMessage = (room, conn, message) => {
+    // 格式错误的消息只丢弃，不能让整个服务崩溃
+    try {
+        const decoder = decoding.createDecoder(message);
+        const encoder = encoding.createEncoder();
+        switch (decoding.readVarUint(decoder)) {
+            case messageSync:
+                encoding.writeVarUint(encoder, messageSync);
+                syncProtocol.readSyncMessage(decoder, encoder, room.doc, conn);
+                // 只有 sync step 1 需要回复
+                if (encoding.length(encoder) > 1) {
+                    send(conn, encoding.toUint8Array(encoder));
+                }
+                break;
+            case messageAwareness:
+                awarenessProtocol.applyAwarenessUpdate(room.awareness, decoding.readVarUint8Array(decoder), conn);
+                break;
+        }
+    } catch (error) {
+        console.error("Failed to handle message:", error);
+    }
+}
+
+const onClose = (name, room, conn) => {
+    const clients = room.conns.get(conn);
+    room.conns.delete(conn);
+    if (clients) {
+        awarenessProtocol.removeAwarenessStates(room.awareness, Array.from(clients), null);
+    }
+    if (room.conns.size === 0) {
+        room.awareness.destroy();
+        room.doc.destroy();
+        rooms.delete(name);
+    }
+}
+
+const server = new WebSocketServer({port});
+
+server.on("connection", (conn, request) => {
+    const url = new URL(request.url || "/", "http://localhost");
+    if (token && url.searchParams.get("token") !== token) {
+        conn.close(4001, "Unauthorized");
+        return;
+    }
+
+    // y-websocket 使用 url 路径作为文档名称
+    const name = decodeURIComponent(url.pathname.slice(1)) || "default";
+    const room = getRoom(name);
+    room.conns.set(conn, new Set());
+    conn.binaryType = "arraybuffer";
+    conn.on("message", (data) => onMessage(room, conn, new Uint8Array(data)));
+    conn.on("close", () => onClose(name, room, conn));
+
+    // 发送 sync step 1 以及当前的在线用户
+    const encoder = encoding.createEncoder();
+    encoding.writeVarUint(encoder, messageSync);
+    syncProtocol.writeSyncStep1(encoder, room.doc);
+    send(conn, encoding.toUint8Array(encoder));
+
+    const states = room.awareness.getStates();
+    if (states.size > 0) {
+        const awarenessEncoder = encoding.createEncoder();
+        encoding.writeVarUint(awarenessEncoder, messageAwareness);
+        encoding.writeVarUint8Array(awarenessEncoder, awarenessProtocol.encodeAwarenessUpdate(room.awareness, Array.from(states.keys())));
+        send(conn, encoding.toUint8Array(awarenessEncoder));
+    }
+});
+
+console.log(`Collaboration server is running at ws://127.0.0.1:${port}`);
@@ -206,7 +206,10 @@ export default defineConfig({
                     {text: 'CodeBlock', link: '/config/codeblock'},
                     {text: 'Container', link: '/config/container'},
                     {text: 'Comment 💪', link: '/config/comment'},
-                    {text: 'Collaboration 💪', link: '/config/collaboration'},
+                    {text: 'Threaded Comments', link: '/config/threadedComments'},
+                    {text: 'Suggestion Mode', link: '/config/suggestion'},
+                    {text: 'Collaboration', link: '/config/collaboration'},
+                    {text: 'Storage', link: '/config/storage'},
                     {text: 'I18N', link: '/config/i18n'},
                     {text: 'Readonly Mode', link: '/config/editable'},
                     {text: 'Custom Layout', link: '/config/layout'},
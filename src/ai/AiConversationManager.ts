@@ -0,0 +1,26 @@
+import {AiConversation} from "./core/AiConversation.ts";
+
+export namespace AiConversationManager {
+    const conversations = new Map<string, AiConversation>();
+
+    export function get(sessionId: string): AiConversation {
+        let conversation = conversations.get(sessionId);
+        if (!conversation) {
+            conversation = new AiConversation(sessionId);
+            conversations.set(sessionId, conversation);
+        }
+        return conversation;
+    }
+
+    export function has(sessionId: string) {
+        return conversations.has(sessionId);
+    }
+
+    export function remove(sessionId: string) {
+        conversations.delete(sessionId);
+    }
+
+    export function clear() {
+        conversations.clear();
+    }
+}
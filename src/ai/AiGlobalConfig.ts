@@ -2,6 +2,10 @@ import {AiModelConfig} from "./core/AiModelConfig.ts";
 import {AiModelFactory} from "./AiModelFactory.ts";
 import {AIBubbleMenuItem, TranslateMenuItem} from "../components/bubbles/types.ts";
 import {AiEditor} from "../core/AiEditor.ts";
+import {AiError} from "./core/AiError.ts";
+import {AiBudget} from "./AiUsageManager.ts";
+import {AiTool} from "./core/AiTool.ts";
+import {LocalDocsEmbeddingFunction} from "../extensions/LocalDocsEmbeddingIndex.ts";
 
 export interface AiMenu {
     icon: string,
@@ -9,6 +13,12 @@ export interface AiMenu {
     prompt?: string,
     text?: "selected" | "focusBefore",
     model?: string,
+    //菜单级别的 system prompt，会追加在全局和模型的 system prompt 之后
+    systemPrompt?: string,
+    //会话 id，配置后该菜单会在同一个会话中保留多轮对话的历史
+    conversation?: string,
+    //该菜单允许大模型调用的工具名称，例如 editorToolNames
+    tools?: string[],
     onClick?: (event: MouseEvent, editor: AiEditor) => void,
     children?: AiMenu[],
 }
@@ -17,14 +27,55 @@ export interface AiMenu {
 export interface AiGlobalConfig {
     models: Record<string, AiModelConfig>,
     modelFactory?: AiModelFactory,
+    //全局 system prompt，所有模型的请求都会携带
+    systemPrompt?: string,
+    //模型切换链，当使用 "auto" 模型时依次尝试这些模型，例如：["openrouter", "openai", "custom"]
+    fallbackModels?: string[],
+    //请求失败（429、5xx 以及网络错误）时的重试策略
+    retry?: {
+        maxRetries?: number,
+        initialDelay?: number,
+        maxDelay?: number,
+    },
+    //等待 AI 开始回复的超时时间（毫秒），超时后按 timeout 错误处理，默认不限制
+    timeout?: number,
+    //AI 请求最终失败时的回调，配置后编辑器不再显示默认的错误提示
+    onError?: (modelName: string, error: AiError) => void,
+    //注册给大模型调用的工具，在 AiChatOptions.tools 或菜单的 tools 中通过名称使用
+    tools?: AiTool[],
+    //一次对话中最多执行多少轮工具调用，默认为 5
+    maxToolRounds?: number,
+    //token 预算，在发起请求前检查
+    budget?: AiBudget,
+    //每次请求结束后调用，count 为本次请求消耗的 token 数量，大模型没有返回用量时为本地估算值
     onTokenConsume?: (modelName: string, modelConfig: AiModelConfig, count: number) => void,
     onCreateClientUrl?: (modelName: string, modelConfig: AiModelConfig, onSuccess: (url: string) => void, onFailure: () => void) => void
     bubblePanelEnable?: boolean,
     bubblePanelModel?: string,
+    //在 AI 面板中直接输入 prompt 时允许大模型调用的工具名称，例如 editorToolNames，配置后可以通过对话修改文档结构
+    bubblePanelTools?: string[],
     bubblePanelMenus?: AIBubbleMenuItem[],
     bubblePanelIcon?: string,
     menus?: AiMenu[],
     commands?: AiMenu[],
+    //AI 审阅的默认配置，审阅意见以评论的形式添加到文档中
+    review?: {
+        model?: string,
+        prompt?: string,
+        author?: string,
+        maxChunkLength?: number,
+    },
+    //"问我的文档" 模式：从本地文档中检索相关的片段作为回答的依据，并在回答中注明来源文档的标题
+    askDocuments?: {
+        //把文本转换为向量的函数，默认使用本地的哈希向量，无需网络请求，但无法识别近义词
+        embed?: LocalDocsEmbeddingFunction,
+        //每个片段的最大字数，默认为 800
+        chunkSize?: number,
+        //每次提问最多检索的片段数量，默认为 5
+        maxChunks?: number,
+        //自定义 prompt，{context} 为检索到的文档片段，{question} 为用户的问题
+        prompt?: string,
+    },
     translate?: {
         prompt?: (language: string, selectText: string) => string,
         translateMenuItems?: TranslateMenuItem[],
@@ -1,10 +1,15 @@
 import { agentZeroConfig } from "../agentzero.ts";
 import { InnerEditor } from "../core/AiEditor.ts";
 import { AgentZeroAiModel } from "./agentzero/AgentZeroAiModel.ts";
+import { AnthropicAiModel } from "./anthropic/AnthropicAiModel.ts";
 import { AiGlobalConfig } from "./AiGlobalConfig.ts";
+import { AiToolManager } from "./AiToolManager.ts";
+import { editorTools } from "./tools/EditorTools.ts";
 import { AiModel } from "./core/AiModel.ts";
 import { CustomAiModel } from "./custom/CustomAiModel.ts";
+import { FallbackAiModel } from "./fallback/FallbackAiModel.ts";
 import { GiteeAiModel } from "./gitee/GiteeAiModel.ts";
+import { LocalAiModel } from "./local/LocalAiModel.ts";
 import { OpenaiAiModel } from "./openai/OpenaiAiModel.ts";
 import { OpenRouterAiModel } from "./openrouter/OpenRouterAiModel.ts";
 import { SparkAiModel } from "./spark/SparkAiModel.ts";
@@ -12,6 +17,7 @@ import { WenXinAiModel } from "./wenxin/WenXinAiModel.ts";
 
 export namespace AiModelManager {
     const models = new Map<string, AiModel>();
+    let fallbackModel: AiModel | undefined;
 
     export function registerModels(editor: InnerEditor, globalConfig: AiGlobalConfig) {
         if (globalConfig && globalConfig.models) {
@@ -32,6 +38,12 @@ export namespace AiModelManager {
                     case "openrouter":
                         models.set(key, new OpenRouterAiModel(editor, globalConfig))
                         break;
+                    case "anthropic":
+                        models.set(key, new AnthropicAiModel(editor, globalConfig))
+                        break;
+                    case "local":
+                        models.set(key, new LocalAiModel(editor, globalConfig))
+                        break;
                     case "custom":
                         models.set(key, new CustomAiModel(editor, globalConfig))
                         break;
@@ -54,10 +66,25 @@ export namespace AiModelManager {
                 }
             }
         }
+
+        // 内置的编辑文档工具，可以被同名的自定义工具覆盖
+        AiToolManager.register(...editorTools);
+        if (globalConfig?.tools) {
+            AiToolManager.register(...globalConfig.tools);
+        }
+
+        fallbackModel = void 0;
+        const fallbackModels = (globalConfig?.fallbackModels || [])
+            .map(name => models.get(name))
+            .filter(model => !!model) as AiModel[];
+        if (fallbackModels.length > 0) {
+            fallbackModel = new FallbackAiModel(editor, globalConfig, fallbackModels);
+        }
     }
 
     export function get(modelName: string): AiModel {
         if (!modelName || modelName === "auto") {
+            if (fallbackModel) return fallbackModel;
             modelName = Array.from(models.keys())[0];
         }
         return models.get(modelName);
@@ -0,0 +1,23 @@
+import {AiTool} from "./core/AiTool.ts";
+
+export namespace AiToolManager {
+    const tools = new Map<string, AiTool>();
+
+    export function register(...items: AiTool[]) {
+        for (let tool of items) {
+            tools.set(tool.name, tool);
+        }
+    }
+
+    export function unregister(name: string) {
+        tools.delete(name);
+    }
+
+    export function get(name: string): AiTool | undefined {
+        return tools.get(name);
+    }
+
+    export function getAll(): AiTool[] {
+        return Array.from(tools.values());
+    }
+}
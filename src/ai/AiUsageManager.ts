@@ -0,0 +1,102 @@
+import {AiUsage} from "./core/AiUsage.ts";
+
+export type AiBudgetScope = "session" | "model" | "document";
+
+export interface AiBudget {
+    //当前会话（页面）可用的 token 总量
+    maxTokens?: number,
+    //每个模型可用的 token 数量，例如：{openai: 100000}
+    maxTokensPerModel?: Record<string, number>,
+    //每个文档可用的 token 数量
+    maxTokensPerDocument?: number,
+    //超出预算时的处理方式：block 拒绝请求，warn 仅提醒，默认为 block
+    action?: "block" | "warn",
+    //用量达到预算的该比例时提醒，默认为 0.8
+    warnRatio?: number,
+    //用量接近或超出预算时调用
+    onWarning?: (status: AiBudgetStatus) => void,
+}
+
+export interface AiBudgetStatus {
+    scope: AiBudgetScope,
+    //模型名称或文档 id，scope 为 session 时为空
+    key?: string,
+    //已使用的 token 数量，包含本次请求预估的 prompt token
+    used: number,
+    limit: number,
+    exceeded: boolean,
+}
+
+export namespace AiUsageManager {
+    const total = emptyUsage();
+    const models = new Map<string, AiUsage>();
+    const documents = new Map<string, AiUsage>();
+
+    function emptyUsage(): AiUsage {
+        return {promptTokens: 0, completionTokens: 0, totalTokens: 0};
+    }
+
+    function add(target: AiUsage, usage: AiUsage) {
+        target.promptTokens += usage.promptTokens;
+        target.completionTokens += usage.completionTokens;
+        target.totalTokens += usage.totalTokens;
+        if (usage.estimated) target.estimated = true;
+    }
+
+    function addTo(map: Map<string, AiUsage>, key: string, usage: AiUsage) {
+        let target = map.get(key);
+        if (!target) {
+            target = emptyUsage();
+            map.set(key, target);
+        }
+        add(target, usage);
+    }
+
+    export function record(modelName: string, documentId: string, usage: AiUsage) {
+        add(total, usage);
+        addTo(models, modelName, usage);
+        addTo(documents, documentId, usage);
+    }
+
+    export function getTotalUsage(): AiUsage {
+        return {...total};
+    }
+
+    export function getModelUsage(modelName: string): AiUsage {
+        return {...(models.get(modelName) || emptyUsage())};
+    }
+
+    export function getDocumentUsage(documentId: string): AiUsage {
+        return {...(documents.get(documentId) || emptyUsage())};
+    }
+
+    export function reset() {
+        Object.assign(total, emptyUsage());
+        delete total.estimated;
+        models.clear();
+        documents.clear();
+    }
+
+    /**
+     * 检查本次请求是否超出预算，返回超出的预算；都未超出时返回接近上限的预算，否则返回 undefined
+     * @param budget
+     * @param modelName
+     * @param documentId
+     * @param promptTokens 本次请求预估的 prompt token 数量
+     */
+    export function checkBudget(budget: AiBudget, modelName: string, documentId: string, promptTokens: number): AiBudgetStatus | undefined {
+        const warnRatio = budget.warnRatio ?? 0.8;
+        const statuses: AiBudgetStatus[] = [];
+        const check = (scope: AiBudgetScope, key: string | undefined, usage: AiUsage, limit?: number) => {
+            if (!limit) return;
+            const used = usage.totalTokens + promptTokens;
+            if (used >= limit * warnRatio) {
+                statuses.push({scope, key, used, limit, exceeded: used >= limit});
+            }
+        }
+        check("session", void 0, total, budget.maxTokens);
+        check("model", modelName, getModelUsage(modelName), budget.maxTokensPerModel?.[modelName]);
+        check("document", documentId, getDocumentUsage(documentId), budget.maxTokensPerDocument);
+        return statuses.find(status => status.exceeded) || statuses[0];
+    }
+}
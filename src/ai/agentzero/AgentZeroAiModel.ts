@@ -67,7 +67,8 @@ export class AgentZeroAiModel extends AiModel {
             memory: this.options.memory,
             toolUsage: this.options.toolUsage,
             multiAgent: this.options.multiAgent,
-            browserAgent: this.options.browserAgent
+            browserAgent: this.options.browserAgent,
+            storage: editor.aiEditor?.storage
         });
     }
 
@@ -1,6 +1,7 @@
 import { AiClient } from "../core/AiClient.ts";
 import { AiMessage } from "../core/AiMessage.ts";
 import { AiMessageListener } from "../core/AiMessageListener.ts";
+import { getDefaultStorage, migrateFromLocalStorage, StorageBackend } from "../../storage/StorageBackend.ts";
 
 interface MemoryItem {
     content: string;
@@ -16,8 +17,12 @@ export interface AgentZeroClientOptions {
     toolUsage?: boolean;
     multiAgent?: boolean;
     browserAgent?: boolean;
+    // Where the memory is persisted, defaults to IndexedDB when available
+    storage?: StorageBackend;
 }
 
+const MEMORY_STORAGE_KEY = 'agentZeroMemory';
+
 export class AgentZeroClient implements AiClient {
     private apiKey: string;
     private endpoint: string;
@@ -25,15 +30,18 @@ export class AgentZeroClient implements AiClient {
     private subAgents: Set<string> = new Set();
     private options: AgentZeroClientOptions;
     private abortController: AbortController | null = null;
+    private storage: StorageBackend;
+    private memoryLoaded: Promise<void> = Promise.resolve();
     
     constructor(options: AgentZeroClientOptions = {}) {
         this.apiKey = options.apiKey || process.env.OPENROUTER_API_KEY || '';
         this.endpoint = options.endpoint || 'https://openrouter.ai/api/v1/chat/completions';
         this.options = options;
+        this.storage = options.storage || getDefaultStorage();
         
-        // Load memory from localStorage if enabled
+        // Load memory from the storage backend if enabled
         if (options.memory !== false) {
-            this.loadMemory();
+            this.memoryLoaded = this.loadMemory();
         }
     }
     
@@ -889,7 +897,7 @@ What specific aspect would you like me to help with first?`;
         // Add to memory
         this.memory.push(memoryItem);
         
-        // Save to localStorage
+        // Save to the storage backend
         this.saveMemory();
         
         this.sendMessage(`I've saved this to my memory: "${content}"`, listener, messageIndex++);
@@ -991,38 +999,40 @@ What specific aspect would you like me to help with first?`;
     }
     
     /**
-     * Save memory to localStorage
+     * Save memory to the storage backend
      */
     private saveMemory(): void {
-        try {
-            const memoryString = JSON.stringify(this.memory);
-            localStorage.setItem('agentZeroMemory', memoryString);
-            console.log(`Memory saved to localStorage: ${this.memory.length} items`, this.memory);
-        } catch (error) {
+        // Wait for the persisted memory, otherwise it would be overwritten by the new items only
+        this.memoryLoaded.then(() => {
+            return this.storage.setItem(MEMORY_STORAGE_KEY, this.memory);
+        }).then(() => {
+            console.log(`Memory saved: ${this.memory.length} items`, this.memory);
+        }).catch(error => {
             console.error('Error saving memory:', error);
-        }
+        });
     }
     
     /**
-     * Load memory from localStorage
+     * Load memory from the storage backend, migrating the memory saved in localStorage by older versions
      */
-    private loadMemory(): void {
+    private async loadMemory(): Promise<void> {
         try {
-            const savedMemory = localStorage.getItem('agentZeroMemory');
+            await migrateFromLocalStorage(this.storage, [MEMORY_STORAGE_KEY]);
+            const savedMemory = await this.storage.getItem<MemoryItem[]>(MEMORY_STORAGE_KEY);
             if (savedMemory) {
-                this.memory = JSON.parse(savedMemory);
+                // Items added while loading are newer than the persisted ones
+                this.memory = [...savedMemory, ...this.memory];
                 
                 // Convert string dates back to Date objects
                 this.memory.forEach(item => {
                     item.timestamp = new Date(item.timestamp);
                 });
-                console.log(`Memory loaded from localStorage: ${this.memory.length} items`, this.memory);
+                console.log(`Memory loaded: ${this.memory.length} items`, this.memory);
             } else {
-                console.log('No memory found in localStorage');
+                console.log('No memory found in storage');
             }
         } catch (error) {
             console.error('Error loading memory:', error);
-            this.memory = [];
         }
     }
     
@@ -0,0 +1,211 @@
+import {InnerEditor} from "../../core/AiEditor.ts";
+import {AiGlobalConfig} from "../AiGlobalConfig.ts";
+import {AiChatMessage} from "../core/AiChatMessage.ts";
+import {AiClient} from "../core/AiClient.ts";
+import {AiErrorType} from "../core/AiError.ts";
+import {AiMessageListener} from "../core/AiMessageListener.ts";
+import {AiModel} from "../core/AiModel.ts";
+import {AiTool, AiToolCall, AiToolPayload, parseToolArguments} from "../core/AiTool.ts";
+import {SseClient} from "../core/client/sse/SseClient.ts";
+import {AnthropicModelConfig} from "./AnthropicModelConfig.ts";
+
+// Anthropic 流式返回的错误类型 https://docs.anthropic.com/en/api/errors
+const errorTypes: Record<string, AiErrorType> = {
+    authentication_error: "auth",
+    permission_error: "auth",
+    billing_error: "quota",
+    rate_limit_error: "rate_limit",
+    timeout_error: "timeout",
+    api_error: "server",
+    overloaded_error: "server",
+}
+
+export class AnthropicAiModel extends AiModel {
+
+    constructor(editor: InnerEditor, globalConfig: AiGlobalConfig) {
+        super(editor, globalConfig, "anthropic");
+        this.aiModelConfig = {
+            endpoint: "https://api.anthropic.com",
+            model: "claude-3-5-sonnet-latest",
+            version: "2023-06-01",
+            ...globalConfig.models["anthropic"]
+        } as AnthropicModelConfig;
+
+        if (this.aiModelConfig.modelId) {
+            (this.aiModelConfig as AnthropicModelConfig).model = this.aiModelConfig.modelId;
+        }
+    }
+
+    createAiClient(url: string, listener: AiMessageListener): AiClient {
+        const config = this.aiModelConfig as AnthropicModelConfig;
+        const headers = {
+            "Content-Type": "application/json",
+            "anthropic-version": config.version,
+            // 允许在浏览器中直接请求，正式环境建议通过 customUrl 由后端代理
+            "anthropic-dangerous-direct-browser-access": "true",
+        } as any
+        if (config.apiKey) {
+            headers["x-api-key"] = config.apiKey;
+        }
+
+        let inputTokens = 0;
+        // 工具调用的参数以 input_json_delta 的方式分段返回
+        const toolCalls: AiToolCall[] = [];
+        const client = new SseClient({
+            url,
+            method: "post",
+            headers,
+        }, {
+            onStart: listener.onStart,
+            onStop: listener.onStop,
+            onError: listener.onError,
+            // 消息格式 https://docs.anthropic.com/en/api/messages-streaming
+            onMessage: (bodyString: string) => {
+                let message = null;
+                try {
+                    message = JSON.parse(bodyString);
+                } catch (err) {
+                    console.error("error", err, bodyString);
+                    listener.onError?.({type: "malformed_stream", message: bodyString});
+                    client.stop();
+                    return;
+                }
+
+                switch (message.type) {
+                    case "message_start":
+                        inputTokens = message.message?.usage?.input_tokens || 0;
+                        break;
+                    case "content_block_start":
+                        if (message.content_block?.type === "tool_use") {
+                            toolCalls[message.index] = {
+                                id: message.content_block.id,
+                                name: message.content_block.name,
+                                arguments: "",
+                            };
+                        }
+                        break;
+                    case "content_block_delta":
+                        if (message.delta?.type === "input_json_delta" && toolCalls[message.index]) {
+                            toolCalls[message.index].arguments += message.delta.partial_json || "";
+                        } else if (message.delta?.type === "text_delta") {
+                            listener.onMessage({
+                                status: 1,
+                                role: "assistant",
+                                content: message.delta.text || "",
+                                index: message.index,
+                            })
+                        }
+                        break;
+                    case "message_delta":
+                        if (message.usage?.output_tokens !== undefined) {
+                            const outputTokens = message.usage.output_tokens;
+                            listener.onUsage?.({
+                                promptTokens: inputTokens,
+                                completionTokens: outputTokens,
+                                totalTokens: inputTokens + outputTokens,
+                            });
+                        }
+                        if (message.delta?.stop_reason === "refusal") {
+                            listener.onError?.({type: "content_filter", message: "refusal"});
+                            client.stop();
+                            return;
+                        }
+                        if (message.delta?.stop_reason === "tool_use") {
+                            listener.onToolCalls?.(toolCalls.filter(toolCall => !!toolCall));
+                        }
+                        if (message.delta?.stop_reason) {
+                            listener.onMessage({
+                                status: 2,
+                                role: "assistant",
+                                content: "",
+                                index: 0,
+                            })
+                        }
+                        break;
+                    case "error":
+                        listener.onError?.({
+                            type: errorTypes[message.error?.type] || "unknown",
+                            message: message.error?.message || bodyString,
+                        });
+                        client.stop();
+                        break;
+                }
+            }
+        });
+        return client;
+    }
+
+    isToolSupported(): boolean {
+        return true;
+    }
+
+    wrapPayload(prompt: string, history?: AiChatMessage[], toolPayload?: AiToolPayload) {
+        const config = this.aiModelConfig as AnthropicModelConfig;
+        // Anthropic 的 system prompt 需要通过 system 字段传递
+        const {system, messages} = this.splitSystemMessages(this.createMessages(prompt, history, toolPayload));
+        const payload = {
+            "model": config.modelId || config.model,
+            "messages": this.toAnthropicMessages(messages),
+            "system": system || undefined,
+            "tools": toolPayload?.tools.length ? this.toAnthropicTools(toolPayload.tools) : undefined,
+            // Anthropic 要求必须传入 max_tokens
+            "max_tokens": config.maxTokens || 4096,
+            "temperature": config.temperature ?? undefined,
+            "stream": true
+        }
+        return JSON.stringify(payload);
+    }
+
+    private toAnthropicTools(tools: AiTool[]) {
+        return tools.map(tool => ({
+            name: tool.name,
+            description: tool.description,
+            input_schema: tool.parameters,
+        }));
+    }
+
+    /**
+     * 工具调用转换为 assistant 的 tool_use 内容块，连续的工具结果合并到同一条 user 消息的 tool_result 内容块中
+     */
+    private toAnthropicMessages(messages: AiChatMessage[]) {
+        const result: any[] = [];
+        for (let message of messages) {
+            if (message.role === "tool") {
+                const block = {type: "tool_result", tool_use_id: message.toolCallId, content: message.content};
+                const last = result[result.length - 1];
+                if (last?.role === "user" && Array.isArray(last.content)) {
+                    last.content.push(block);
+                } else {
+                    result.push({role: "user", content: [block]});
+                }
+            } else if (message.toolCalls) {
+                const content: any[] = message.content ? [{type: "text", text: message.content}] : [];
+                for (let toolCall of message.toolCalls) {
+                    content.push({
+                        type: "tool_use",
+                        id: toolCall.id,
+                        name: toolCall.name,
+                        input: parseToolArguments(toolCall),
+                    });
+                }
+                result.push({role: "assistant", content});
+            } else {
+                result.push({role: message.role, content: message.content});
+            }
+        }
+        return result;
+    }
+
+    createAiClientUrl(): string {
+        const config = this.aiModelConfig as AnthropicModelConfig;
+        if (config.customUrl) {
+            if (typeof config.customUrl === "string") {
+                return config.customUrl;
+            } else if (typeof config.customUrl === "function") {
+                return config.customUrl();
+            }
+        }
+
+        return `${config.endpoint}/v1/messages`;
+    }
+}
@@ -0,0 +1,10 @@
+import {AiModelConfig} from "../core/AiModelConfig.ts";
+
+export interface AnthropicModelConfig extends AiModelConfig {
+    endpoint?: string,
+    customUrl?: string | (() => string),
+    apiKey?: string,
+    model: string,
+    //Anthropic API 版本，通过 anthropic-version 请求头传递
+    version?: string,
+}
@@ -0,0 +1,13 @@
+import {AiToolCall} from "./AiTool.ts";
+
+export type AiChatRole = "system" | "user" | "assistant" | "tool";
+
+export interface AiChatMessage {
+    role: AiChatRole,
+    content: string,
+    //assistant 消息中大模型请求调用的工具
+    toolCalls?: AiToolCall[],
+    //tool 消息对应的工具调用 id 以及工具名称
+    toolCallId?: string,
+    name?: string,
+}
@@ -0,0 +1,11 @@
+import {AiConversation} from "./AiConversation.ts";
+import {AiTool} from "./AiTool.ts";
+
+export interface AiChatOptions {
+    //多轮对话的会话，AI 回复结束后会把本轮问答记录到会话中
+    conversation?: AiConversation,
+    //菜单级别的 system prompt，会追加在全局和模型的 system prompt 之后
+    systemPrompt?: string,
+    //本次对话允许大模型调用的工具，字符串为通过 AiToolManager 注册的工具名称
+    tools?: (string | AiTool)[],
+}
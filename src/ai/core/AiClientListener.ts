@@ -1,7 +1,12 @@
 import {AiClient} from "./AiClient.ts";
+import {AiError} from "./AiError.ts";
+import {AiUsage} from "./AiUsage.ts";
 
 export interface AiClientListener {
     onStart: (aiClient: AiClient) => void,
     onStop: () => void,
     onMessage: (bodyString: string) => void,
+    onError?: (error: AiError) => void,
+    //大模型返回本次请求的 token 用量时调用
+    onUsage?: (usage: AiUsage) => void,
 }
@@ -0,0 +1,62 @@
+import {AiChatMessage} from "./AiChatMessage.ts";
+import {estimateTokens} from "../../util/estimateTokens.ts";
+
+export class AiConversation {
+
+    id: string;
+    messages: AiChatMessage[] = [];
+    //最多保存的消息数量（不含 system 消息），超出时丢弃最早的消息，避免长期使用的会话无限增长
+    maxMessages: number;
+
+    constructor(id: string, maxMessages: number = 50) {
+        this.id = id;
+        this.maxMessages = maxMessages;
+    }
+
+    addMessage(message: AiChatMessage) {
+        this.messages.push(message);
+        let count = this.messages.filter(message => message.role !== "system").length;
+        while (count > this.maxMessages) {
+            const index = this.messages.findIndex(message => message.role !== "system");
+            this.messages.splice(index, 1);
+            count--;
+        }
+    }
+
+    getMessages() {
+        return this.messages;
+    }
+
+    isEmpty() {
+        return this.messages.length === 0;
+    }
+
+    clear() {
+        this.messages = [];
+    }
+
+    /**
+     * 返回在 token 预算内的最新消息，system 消息始终保留
+     * @param maxTokens
+     */
+    trim(maxTokens: number): AiChatMessage[] {
+        const systemMessages = this.messages.filter(message => message.role === "system");
+        let remaining = maxTokens - systemMessages.reduce((sum, message) => sum + estimateTokens(message.content), 0);
+
+        const result: AiChatMessage[] = [];
+        for (let i = this.messages.length - 1; i >= 0; i--) {
+            const message = this.messages[i];
+            if (message.role === "system") continue;
+            remaining -= estimateTokens(message.content);
+            if (remaining < 0) break;
+            result.unshift(message);
+        }
+
+        // 部分模型要求历史消息以 user 开头
+        while (result.length > 0 && result[0].role !== "user") {
+            result.shift();
+        }
+
+        return [...systemMessages, ...result];
+    }
+}
@@ -0,0 +1,77 @@
+/**
+ * 错误类型：
+ * auth: 鉴权失败（401/403），通常是 apiKey 配置错误
+ * quota: 额度不足（402，或 429 且提示额度用尽）
+ * rate_limit: 请求过于频繁（429）
+ * timeout: 请求超时（408/504）
+ * content_filter: 内容被大模型安全策略拦截
+ * malformed_stream: 返回的数据流无法解析
+ * network: 网络错误，未能连接到服务器
+ * server: 服务端错误（5xx）
+ * budget: 超出配置的 token 预算，请求没有发出
+ * unknown: 其他错误
+ */
+export type AiErrorType = "auth" | "quota" | "rate_limit" | "timeout" | "content_filter"
+    | "malformed_stream" | "network" | "server" | "budget" | "unknown";
+
+export interface AiError {
+    //错误类型
+    type: AiErrorType,
+    //错误信息
+    message: string,
+    //HTTP 状态码，网络错误时为空
+    status?: number,
+    //出错的模型名称
+    model?: string,
+    //自动切换到的下一个模型，为空时表示本次请求最终失败
+    fallbackModel?: string,
+}
+
+/**
+ * 根据 HTTP 状态码和返回内容推断错误类型
+ * @param status
+ * @param message
+ */
+export const getAiErrorType = (status: number | undefined, message: string = ""): AiErrorType => {
+    const text = message.toLowerCase();
+    if (status === undefined) {
+        return text.includes("timeout") || text.includes("timed out") ? "timeout" : "network";
+    }
+    if (status === 401 || status === 403) {
+        return "auth";
+    }
+    if (status === 402 || (status === 429 && /quota|insufficient|credit|balance/.test(text))) {
+        return "quota";
+    }
+    if (status === 429) {
+        return "rate_limit";
+    }
+    if (status === 408 || status === 504) {
+        return "timeout";
+    }
+    if (status === 400 && /content_filter|content filter|policy|safety|sensitive/.test(text)) {
+        return "content_filter";
+    }
+    if (status >= 500) {
+        return "server";
+    }
+    return "unknown";
+}
+
+/**
+ * 根据 HTTP 状态码和返回内容创建错误
+ * @param status
+ * @param message
+ */
+export const createAiError = (status: number | undefined, message: string): AiError => {
+    return {type: getAiErrorType(status, message), status, message};
+}
+
+/**
+ * 判断错误是否可以重试：网络错误、超时、429 限流以及 5xx
+ * @param error
+ */
+export const isRetryableError = (error: AiError) => {
+    return error.type === "network" || error.type === "timeout"
+        || error.type === "rate_limit" || error.type === "server";
+}
@@ -1,8 +1,19 @@
 import {AiMessage} from "./AiMessage.ts";
 import {AiClient} from "./AiClient.ts";
+import {AiError} from "./AiError.ts";
+import {AiUsage} from "./AiUsage.ts";
+import {AiToolCall} from "./AiTool.ts";
 
 export interface AiMessageListener {
     onStart: (aiClient: AiClient) => void,
     onStop: () => void,
     onMessage: (message: AiMessage) => void,
+    //请求出错时调用，当 error.fallbackModel 不为空时，后续的消息由该模型继续回复
+    onError?: (error: AiError) => void,
+    //大模型返回本次请求的 token 用量时调用
+    onUsage?: (usage: AiUsage) => void,
+    //大模型请求调用工具时调用，由 AiModel 执行工具并把结果发送给大模型
+    onToolCalls?: (toolCalls: AiToolCall[]) => void,
+    //工具执行完成后调用
+    onToolResult?: (toolCall: AiToolCall, result: string) => void,
 }
@@ -1,8 +1,17 @@
 import { InnerEditor } from "../../core/AiEditor.ts";
 import { AiGlobalConfig } from "../AiGlobalConfig.ts";
+import { AiToolManager } from "../AiToolManager.ts";
+import { AiUsageManager } from "../AiUsageManager.ts";
+import { estimateTokens } from "../../util/estimateTokens.ts";
+import { AiChatMessage } from "./AiChatMessage.ts";
+import { AiChatOptions } from "./AiChatOptions.ts";
 import { AiClient } from "./AiClient.ts";
+import { AiConversation } from "./AiConversation.ts";
+import { AiError, isRetryableError } from "./AiError.ts";
 import { AiMessageListener } from "./AiMessageListener.ts";
 import { AiModelConfig } from "./AiModelConfig.ts";
+import { AiTool, AiToolCall, AiToolPayload } from "./AiTool.ts";
+import { AiUsage } from "./AiUsage.ts";
 
 
 export abstract class AiModel {
@@ -33,8 +42,8 @@ export abstract class AiModel {
         
         // If modelId is specified, use it to set provider-specific fields
         if (this.aiModelConfig.modelId) {
-            // OpenAI, OpenRouter, Gitee use 'model' field
-            if (this.aiModelName === 'openai' || this.aiModelName === 'openrouter' || this.aiModelName === 'gitee') {
+            // OpenAI, OpenRouter, Gitee, Anthropic, Local use 'model' field
+            if (this.aiModelName === 'openai' || this.aiModelName === 'openrouter' || this.aiModelName === 'gitee' || this.aiModelName === 'anthropic' || this.aiModelName === 'local') {
                 if (this.aiModelConfig.model !== this.aiModelConfig.modelId) {
                     this.aiModelConfig.model = this.aiModelConfig.modelId;
                     configChanged = true;
@@ -57,7 +66,7 @@ export abstract class AiModel {
         } 
         // If no modelId but provider-specific field exists, set modelId for consistency
         else {
-            if (this.aiModelName === 'openai' || this.aiModelName === 'openrouter' || this.aiModelName === 'gitee') {
+            if (this.aiModelName === 'openai' || this.aiModelName === 'openrouter' || this.aiModelName === 'gitee' || this.aiModelName === 'anthropic' || this.aiModelName === 'local') {
                 if (this.aiModelConfig.model && this.aiModelConfig.modelId !== this.aiModelConfig.model) {
                     this.aiModelConfig.modelId = this.aiModelConfig.model;
                     configChanged = true;
@@ -91,41 +100,374 @@ export abstract class AiModel {
     }
 
     chatWithPayload(payload: any, listener: AiMessageListener): void {
-        const onSuccess = (url: string) => {
-            const aiClient = this.createAiClient(url, listener);
-            aiClient.start(typeof payload === "string" ? payload : JSON.stringify(payload))
+        this.request(() => payload, listener, estimateTokens(typeof payload === "string" ? payload : JSON.stringify(payload)));
+    }
+
+
+    chat(selectedText: string, prompt: string, listener: AiMessageListener, options?: AiChatOptions): void {
+        const conversation = options?.conversation;
+        const finalPrompt = prompt.includes("{content}") ? prompt.split('{content}').join(selectedText) : `${selectedText ? selectedText + "\n" : ""}${prompt}`
+        const systemPrompt = this.getSystemPrompt(options?.systemPrompt);
+        const history: AiChatMessage[] = systemPrompt ? [{role: "system", content: systemPrompt}] : [];
+        if (conversation) {
+            const messages = conversation.trim(Math.max(this.getHistoryTokenBudget(finalPrompt) - estimateTokens(systemPrompt), 0));
+            const dropped = conversation.getMessages().length - messages.length;
+            if (dropped > 0) {
+                console.warn(`The conversation exceeds the context of AI model "${this.aiModelName}", ${dropped} earlier messages are not sent.`);
+            }
+            history.push(...messages);
         }
-        const onFailure = () => {
-            listener?.onStop();
+        const promptTokens = history.reduce((count, message) => count + estimateTokens(message.content), estimateTokens(finalPrompt));
+        const chatListener = conversation ? this.recordConversation(conversation, finalPrompt, listener) : listener;
+        const tools = this.getTools(options?.tools);
+        if (tools.length > 0) {
+            this.requestWithTools(finalPrompt, history, tools, chatListener, promptTokens);
+        } else {
+            this.request(() => this.wrapPayload(finalPrompt, history), chatListener, promptTokens);
         }
+    }
 
-        if (this.globalConfig.onCreateClientUrl) {
-            this.globalConfig.onCreateClientUrl(this.aiModelName, this.aiModelConfig, onSuccess, onFailure)
-        } else {
-            onSuccess(this.createAiClientUrl())
+    /**
+     * 当前模型是否支持工具调用，支持的模型需要在 wrapPayload 中发送工具定义，并通过 listener.onToolCalls 返回工具调用
+     */
+    isToolSupported(): boolean {
+        return false;
+    }
+
+    /**
+     * 获取本次对话可以使用的工具，模型不支持工具调用时返回空数组
+     * @param tools
+     */
+    protected getTools(tools?: (string | AiTool)[]): AiTool[] {
+        if (!tools || tools.length === 0) return [];
+        if (!this.isToolSupported()) {
+            console.warn(`AI model "${this.aiModelName}" does not support tools, the tools are ignored.`);
+            return [];
         }
+        return tools.map(tool => typeof tool === "string" ? AiToolManager.get(tool) : tool)
+            .filter(tool => !!tool) as AiTool[];
     }
 
+    /**
+     * 带工具的对话：大模型请求调用工具时，执行工具并把结果发送给大模型，直到大模型给出最终回复
+     */
+    private requestWithTools(prompt: string, history: AiChatMessage[], tools: AiTool[], listener: AiMessageListener, promptTokens: number) {
+        const maxRounds = this.globalConfig.maxToolRounds ?? 5;
+        const messages: AiChatMessage[] = [];
+        let round = 0;
+        let stopped = false;
+        let finished = false;
+        let current: AiClient | undefined;
+
+        // 整个对话只结束一次，停止与工具执行完成可能同时发生
+        const finish = () => {
+            if (finished) return;
+            finished = true;
+            listener.onStop();
+        };
 
-    chat(selectedText: string, prompt: string, listener: AiMessageListener): void {
-        const onSuccess = (url: string) => {
-            const aiClient = this.createAiClient(url, listener);
-            const finalPrompt = prompt.includes("{content}") ? prompt.split('{content}').join(selectedText) : `${selectedText ? selectedText + "\n" : ""}${prompt}`
-            const payload = this.wrapPayload(finalPrompt);
-            aiClient.start(typeof payload === "string" ? payload : JSON.stringify(payload))
+        // 多轮请求对外保持同一个 client
+        const proxyClient: AiClient = {
+            start: () => {},
+            stop: () => {
+                if (stopped) return;
+                stopped = true;
+                current ? current.stop() : finish();
+            }
+        };
+
+        const next = () => {
+            let content = "";
+            let toolCalls: AiToolCall[] | undefined;
+            const payload: AiToolPayload = {tools, messages: [...messages]};
+            const tokens = messages.reduce((count, message) => count + estimateTokens(message.content), promptTokens);
+            this.request(() => this.wrapPayload(prompt, history, payload), {
+                onStart: (aiClient) => {
+                    current = aiClient;
+                    if (round === 0) listener.onStart(proxyClient);
+                },
+                onStop: () => {
+                    current = undefined;
+                    // 超过最大轮数时不再执行工具，避免大模型反复调用
+                    if (!toolCalls || stopped || round >= maxRounds) {
+                        finish();
+                        return;
+                    }
+                    round++;
+                    messages.push({role: "assistant", content, toolCalls});
+                    this.executeTools(toolCalls, tools, listener).then(results => {
+                        messages.push(...results);
+                        if (stopped) {
+                            finish();
+                        } else {
+                            next();
+                        }
+                    }).catch(error => {
+                        listener.onError?.(error);
+                        finish();
+                    });
+                },
+                onMessage: (message) => {
+                    content += message.content || "";
+                    // 还需要继续请求时，本轮的结束消息不作为整个对话的结束
+                    if (message.status === 2 && toolCalls && round < maxRounds) {
+                        message = {...message, status: 1};
+                    }
+                    listener.onMessage(message);
+                },
+                onError: (error) => listener.onError?.(error),
+                onUsage: (usage) => listener.onUsage?.(usage),
+                onToolCalls: (calls) => toolCalls = calls,
+            }, tokens);
         }
 
-        const onFailure = () => {
-            listener?.onStop();
+        next();
+    }
+
+    /**
+     * 依次执行工具，返回 tool 消息；执行失败时把错误信息返回给大模型
+     */
+    private async executeTools(toolCalls: AiToolCall[], tools: AiTool[], listener: AiMessageListener): Promise<AiChatMessage[]> {
+        const results: AiChatMessage[] = [];
+        for (let toolCall of toolCalls) {
+            let result: string;
+            const tool = tools.find(tool => tool.name === toolCall.name);
+            try {
+                if (!tool) {
+                    throw new Error(`Tool "${toolCall.name}" not found`);
+                }
+                const value = await tool.execute(toolCall.arguments ? JSON.parse(toolCall.arguments) : {}, {
+                    editor: this.editor,
+                    model: this.aiModelName,
+                });
+                result = typeof value === "string" ? value : JSON.stringify(value ?? "ok");
+            } catch (err) {
+                console.error("error", err, toolCall);
+                result = `Error: ${err instanceof Error ? err.message : String(err)}`;
+            }
+            listener.onToolResult?.(toolCall, result);
+            results.push({role: "tool", content: result, toolCallId: toolCall.id, name: toolCall.name});
+        }
+        return results;
+    }
+
+
+    /**
+     * 发起请求，在 429、5xx 以及网络错误时按指数退避自动重试。
+     * 已经收到 AI 回复内容之后出现的错误不会重试，避免重复输出
+     * @param getPayload
+     * @param listener
+     * @param promptTokens 预估的 prompt token 数量，用于检查预算以及在大模型没有返回用量时统计消耗
+     */
+    protected request(getPayload: () => any, listener: AiMessageListener, promptTokens: number) {
+        const {maxRetries = 2, initialDelay = 1000, maxDelay = 10000} = this.globalConfig.retry || {};
+        let attempt = 0;
+        let stopped = false;
+        let timer: ReturnType<typeof setTimeout> | undefined;
+        let current: AiClient | undefined;
+
+        // 重试期间对外保持同一个 client，调用 stop 时同时取消后续的重试
+        const proxyClient: AiClient = {
+            start: (payload: string) => current?.start(payload),
+            stop: () => {
+                if (stopped) return;
+                stopped = true;
+                clearTimeout(timer);
+                current ? current.stop() : listener.onStop();
+            }
+        };
+
+        const budgetStatus = this.checkBudget(promptTokens);
+        if (budgetStatus) {
+            listener.onStart(proxyClient);
+            listener.onError?.({
+                type: "budget",
+                message: `Token budget exceeded: ${budgetStatus.used}/${budgetStatus.limit}`,
+                model: this.aiModelName,
+            });
+            stopped = true;
+            listener.onStop();
+            return;
+        }
+
+        const send = () => {
+            const onSuccess = (url: string) => {
+                if (stopped) return;
+                let received = false;
+                let retrying = false;
+                let completion = "";
+                let usage: AiUsage | undefined;
+                let timeoutTimer: ReturnType<typeof setTimeout> | undefined;
+                const onError = (error: AiError) => {
+                    clearTimeout(timeoutTimer);
+                    if (!received && !stopped && attempt < maxRetries && isRetryableError(error)) {
+                        retrying = true;
+                        timer = setTimeout(send, Math.min(initialDelay * Math.pow(2, attempt), maxDelay));
+                        attempt++;
+                    } else {
+                        listener.onError?.({...error, model: this.aiModelName});
+                    }
+                }
+                const client = this.createAiClient(url, {
+                    onStart: () => {
+                        if (attempt === 0) listener.onStart(proxyClient);
+                    },
+                    onStop: () => {
+                        clearTimeout(timeoutTimer);
+                        current = undefined;
+                        if (!retrying) {
+                            this.recordUsage(listener, usage, promptTokens, completion);
+                            listener.onStop();
+                        }
+                    },
+                    onMessage: (message) => {
+                        received = true;
+                        completion += message.content || "";
+                        clearTimeout(timeoutTimer);
+                        listener.onMessage(message);
+                    },
+                    onError,
+                    onUsage: (value) => usage = value,
+                    onToolCalls: (toolCalls) => listener.onToolCalls?.(toolCalls),
+                });
+                current = client;
+                if (this.globalConfig.timeout) {
+                    timeoutTimer = setTimeout(() => {
+                        onError({type: "timeout", message: `No response in ${this.globalConfig.timeout}ms`});
+                        client.stop();
+                    }, this.globalConfig.timeout);
+                }
+                const payload = getPayload();
+                client.start(typeof payload === "string" ? payload : JSON.stringify(payload));
+            }
+
+            // 未能获取请求地址时也通过 onError 报告，便于调用方（例如自动切换模型）处理
+            const onFailure = () => {
+                if (stopped) return;
+                if (attempt === 0) listener.onStart(proxyClient);
+                listener.onError?.({type: "unknown", message: "Failed to create the client url", model: this.aiModelName});
+                stopped = true;
+                listener.onStop();
+            }
+
+            if (this.globalConfig.onCreateClientUrl) {
+                this.globalConfig.onCreateClientUrl(this.aiModelName, this.aiModelConfig, onSuccess, onFailure)
+            } else {
+                onSuccess(this.createAiClientUrl())
+            }
         }
 
-        if (this.globalConfig.onCreateClientUrl) {
-            this.globalConfig.onCreateClientUrl(this.aiModelName, this.aiModelConfig, onSuccess, onFailure)
+        send();
+    }
+
+
+    /**
+     * 检查 token 预算，超出预算且需要拒绝请求时返回超出的预算
+     * @param promptTokens
+     */
+    private checkBudget(promptTokens: number) {
+        const budget = this.globalConfig.budget;
+        if (!budget) return undefined;
+
+        const status = AiUsageManager.checkBudget(budget, this.aiModelName, this.getDocumentId(), promptTokens);
+        if (!status) return undefined;
+
+        if (budget.onWarning) {
+            budget.onWarning(status);
         } else {
-            onSuccess(this.createAiClientUrl())
+            console.warn(`AI token budget of ${status.scope}${status.key ? " \"" + status.key + "\"" : ""} used: ${status.used}/${status.limit}`);
+        }
+        return status.exceeded && (budget.action || "block") === "block" ? status : undefined;
+    }
+
+    /**
+     * 统计本次请求的 token 消耗，大模型没有返回用量时根据 prompt 和回复内容估算
+     */
+    private recordUsage(listener: AiMessageListener, usage: AiUsage | undefined, promptTokens: number, completion: string) {
+        if (!usage) {
+            if (!completion) return;
+            const completionTokens = estimateTokens(completion);
+            usage = {promptTokens, completionTokens, totalTokens: promptTokens + completionTokens, estimated: true};
         }
+        AiUsageManager.record(this.aiModelName, this.getDocumentId(), usage);
+        this.globalConfig.onTokenConsume?.(this.aiModelName, this.aiModelConfig, usage.totalTokens);
+        listener.onUsage?.(usage);
     }
 
+    /**
+     * 当前编辑的文档 id，用于按文档统计 token 消耗
+     */
+    protected getDocumentId(): string {
+        return this.editor.storage.localDocs?.manager?.getCurrentDocId?.() || "default";
+    }
+
+    /**
+     * 把 prompt 和历史消息组装为完整的消息列表
+     * @param prompt
+     * @param history
+     * @param toolPayload 工具调用过程中产生的消息，追加在 prompt 之后
+     */
+    protected createMessages(prompt: string, history?: AiChatMessage[], toolPayload?: AiToolPayload): AiChatMessage[] {
+        return [
+            ...(history || []),
+            {role: "user", content: prompt},
+            ...(toolPayload?.messages || [])
+        ];
+    }
+
+    /**
+     * 合并全局、模型以及菜单配置的 system prompt
+     * @param systemPrompt 菜单级别的 system prompt
+     */
+    getSystemPrompt(systemPrompt?: string) {
+        return [this.globalConfig.systemPrompt, this.aiModelConfig.systemPrompt, systemPrompt]
+            .filter(text => text && text.trim())
+            .join("\n\n");
+    }
+
+    /**
+     * 对于把 system prompt 作为独立字段的协议，从消息列表中分离出 system 消息
+     * @param messages
+     */
+    protected splitSystemMessages(messages: AiChatMessage[]) {
+        return {
+            system: messages.filter(message => message.role === "system").map(message => message.content).join("\n\n"),
+            messages: messages.filter(message => message.role !== "system"),
+        }
+    }
+
+    /**
+     * 计算历史消息可用的 token 数量，需要为本次 prompt 和 AI 回复预留空间，空间不足时为 0
+     * @param prompt
+     */
+    protected getHistoryTokenBudget(prompt: string) {
+        const contextTokens = this.aiModelConfig.maxContextTokens || 4096;
+        return Math.max(contextTokens - (this.aiModelConfig.maxTokens || 0) - estimateTokens(prompt), 0);
+    }
+
+    /**
+     * 在 AI 回复结束后，把本轮问答记录到会话中
+     */
+    private recordConversation(conversation: AiConversation, prompt: string, listener: AiMessageListener): AiMessageListener {
+        let answer = "";
+        return {
+            onStart: (aiClient) => listener.onStart(aiClient),
+            onStop: () => {
+                if (answer) {
+                    conversation.addMessage({role: "user", content: prompt});
+                    conversation.addMessage({role: "assistant", content: answer});
+                }
+                listener.onStop();
+            },
+            onMessage: (message) => {
+                answer += message.content || "";
+                listener.onMessage(message);
+            },
+            onError: (error) => listener.onError?.(error),
+            onUsage: (usage) => listener.onUsage?.(usage),
+            onToolResult: (toolCall, result) => listener.onToolResult?.(toolCall, result),
+        }
+    }
 
     /**
      * 创建客户端链接 URL
@@ -138,10 +480,12 @@ export abstract class AiModel {
     abstract createAiClient(url: string, listener: AiMessageListener): AiClient;
 
     /**
-     * 封装消息，把 prompt 转换为协议需要的格式
+     * 封装消息，把 prompt 以及历史消息转换为协议需要的格式
      * @param prompt
+     * @param history
+     * @param toolPayload 可以调用的工具以及工具调用产生的消息，只有 isToolSupported 返回 true 时才会传入
      */
-    abstract wrapPayload(prompt: string): any;
+    abstract wrapPayload(prompt: string, history?: AiChatMessage[], toolPayload?: AiToolPayload): any;
 
 
 }
\ No newline at end of file
@@ -1,5 +1,7 @@
 export interface AiModelConfig {
     temperature?: number;
     maxTokens?: number;
+    maxContextTokens?: number; // Context window used to trim the conversation history, default 4096
+    systemPrompt?: string; // System prompt of this model, appended after the global one
     modelId?: string; // Universal model identifier that works across providers
 }
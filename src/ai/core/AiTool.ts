@@ -0,0 +1,48 @@
+import {InnerEditor} from "../../core/AiEditor.ts";
+import {AiChatMessage} from "./AiChatMessage.ts";
+
+export interface AiToolContext {
+    editor: InnerEditor,
+    //调用该工具的模型名称
+    model: string,
+}
+
+export interface AiTool {
+    //工具名称，只能包含字母、数字、下划线和中划线
+    name: string,
+    //工具的用途，大模型根据描述决定何时调用
+    description: string,
+    //参数的 JSON Schema，例如：{type: "object", properties: {text: {type: "string"}}, required: ["text"]}
+    parameters: Record<string, any>,
+    //执行工具，返回值会转为字符串发送给大模型
+    execute: (args: any, context: AiToolContext) => any | Promise<any>,
+}
+
+export interface AiToolCall {
+    id: string,
+    name: string,
+    //JSON 格式的参数
+    arguments: string,
+}
+
+/**
+ * 工具调用过程中产生的消息，会追加在用户的 prompt 之后发送给大模型
+ */
+export interface AiToolPayload {
+    tools: AiTool[],
+    messages: AiChatMessage[],
+}
+
+/**
+ * 解析工具调用的参数，大模型返回的参数不是合法的 JSON 时返回空对象，避免在构造请求时抛出异常
+ */
+export const parseToolArguments = (toolCall: AiToolCall): Record<string, any> => {
+    if (!toolCall.arguments) return {};
+    try {
+        const args = JSON.parse(toolCall.arguments);
+        return args && typeof args === "object" ? args : {};
+    } catch (e) {
+        console.warn(`Invalid arguments of tool "${toolCall.name}"`, toolCall.arguments);
+        return {};
+    }
+}
@@ -0,0 +1,22 @@
+export interface AiUsage {
+    promptTokens: number,
+    completionTokens: number,
+    totalTokens: number,
+    //为 true 时表示大模型没有返回用量，由本地估算得出
+    estimated?: boolean,
+}
+
+/**
+ * 解析 OpenAI 兼容接口返回的 usage 字段
+ * @param usage
+ */
+export const parseOpenaiUsage = (usage: any): AiUsage | undefined => {
+    if (!usage || typeof usage.total_tokens !== "number") {
+        return undefined;
+    }
+    return {
+        promptTokens: usage.prompt_tokens || 0,
+        completionTokens: usage.completion_tokens || 0,
+        totalTokens: usage.total_tokens,
+    }
+}
@@ -3,6 +3,8 @@ import {AiMessageListener} from "./AiMessageListener.ts";
 import {Editor} from "@tiptap/core";
 import {InnerEditor} from "../../core/AiEditor.ts";
 import {getText} from "../../util/getText.ts";
+import {getAiErrorMessage} from "../../util/getAiErrorMessage.ts";
+import {AiError} from "./AiError.ts";
 
 export interface AiMessageParserOptions {
     markdownParseEnable?: boolean,
@@ -30,6 +32,34 @@ export class DefaultAiMessageListener implements AiMessageListener {
         //do nothing
     }
 
+    onError(error: AiError) {
+        // 已自动切换到其他模型，后续内容会继续写入文档
+        if (error.fallbackModel) {
+            return;
+        }
+        const aiEditor = (this.editor as InnerEditor).aiEditor;
+        const onError = aiEditor?.options.ai?.onError;
+        if (onError) {
+            onError(error.model || "", error);
+            return;
+        }
+        const container = this.editor.view.dom.closest(".aie-container");
+        if (!container) {
+            console.error(getAiErrorMessage(error), error);
+            return;
+        }
+        const notice = document.createElement("div");
+        notice.classList.add("aie-ai-error-notice");
+        notice.innerText = getAiErrorMessage(error);
+        container.appendChild(notice);
+        setTimeout(() => notice.remove(), 5000);
+    }
+
+    onToolResult() {
+        // 工具可能已经修改了文档，之前记录的位置不再可靠，之后的内容从当前光标处开始解析
+        this.from = this.editor.state.selection.from;
+    }
+
     onMessage(message: AiMessage) {
         const {state: {tr}, view} = this.editor!
         view.dispatch(tr.insertText(message.content));
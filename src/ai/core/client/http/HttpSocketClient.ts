@@ -1,5 +1,6 @@
 import { AiClientListener } from "../../AiClientListener.ts";
 import { AiClient } from "../../AiClient.ts";
+import { AiError, createAiError } from "../../AiError.ts";
 
 type configType = { url: string, method: string, headers?: Record<string, any> }
 export class HttpStreamSocketClient implements AiClient {
@@ -39,6 +40,11 @@ export class HttpStreamSocketClient implements AiClient {
             try {
                 this.fetch = await fetch(this.config.url, { method: this.config.method, headers: this.config.headers, body: payload })
                 const response = this.fetch
+                if (!response.ok) {
+                    const body = await response.text().catch(() => "");
+                    this.onError(createAiError(response.status, body || response.statusText));
+                    return;
+                }
                 if (!response.body) throw new Error("response.body is none")
 
                 const processText = ({ done, value }: { done: boolean, value: any }): any => {
@@ -53,8 +59,8 @@ export class HttpStreamSocketClient implements AiClient {
                 const reader = response.body.getReader();
                 const decoder = new TextDecoder('utf-8');
                 reader.read().then(({ done, value }) => processText({ done, value }));
-            } catch {
-                this.onError()
+            } catch (err) {
+                this.onError(createAiError(undefined, String(err)))
             }
         }
     }
@@ -76,9 +82,10 @@ export class HttpStreamSocketClient implements AiClient {
         }
     }
 
-    protected onError() {
+    protected onError(error: AiError) {
         this.isOpen = false;
         if (!this.isStop) {
+            this.listener.onError?.(error);
             this.listener.onStop();
             this.isStop = true;
         }
@@ -0,0 +1,189 @@
+import {AiClientListener} from "../../AiClientListener.ts";
+import {AiClient} from "../../AiClient.ts";
+import {AiError, createAiError} from "../../AiError.ts";
+
+type NdjsonConfig = { url: string, method: string, headers?: Record<string, any> }
+
+/**
+ * 以 NDJSON（每行一个 JSON）或连续 JSON 对象返回的流式接口，
+ * 每收到一个完整的 JSON 调用一次 listener.onMessage，跨数据块的半行会被缓存到下一个数据块
+ */
+export class NdjsonClient implements AiClient {
+    isStop: boolean = false
+    config: NdjsonConfig;
+    isOpen: boolean = false;
+    payload?: string;
+    listener: AiClientListener;
+    ctrl = new AbortController();
+
+    // 尚未组成完整 JSON 的内容
+    private buffer: string = "";
+    // 当前扫描到的位置以及 JSON 的嵌套状态
+    private position: number = 0;
+    private depth: number = 0;
+    // 是否在最外层的 JSON 数组中
+    private inArray: boolean = false;
+    private inString: boolean = false;
+    private escaped: boolean = false;
+
+    constructor(config: NdjsonConfig, listener: AiClientListener) {
+        this.config = config;
+        this.listener = listener;
+    }
+
+
+    start(payload: string) {
+        this.payload = payload;
+        this.onOpen()
+        this.listener.onStart(this);
+    }
+
+    stop() {
+        if (!this.isStop) {
+            // 取消请求
+            this.ctrl.abort();
+            this.listener.onStop();
+            this.isStop = true;
+        }
+    }
+
+    async send(payload: string) {
+        let res: Response;
+        try {
+            res = await fetch(this.config.url, {
+                method: this.config.method,
+                signal: this.ctrl.signal,
+                headers: this.config.headers,
+                body: payload,
+            });
+        } catch (err) {
+            if (!this.ctrl.signal.aborted) {
+                this.onError(createAiError(undefined, String(err)));
+            }
+            return;
+        }
+
+        if (!res.ok) {
+            const body = await res.text().catch(() => "");
+            this.onError(createAiError(res.status, body || res.statusText));
+            return;
+        }
+
+        if (!res.body) {
+            this.onError({type: "malformed_stream", message: "response.body is none"});
+            return;
+        }
+
+        try {
+            const reader = res.body.getReader();
+            const decoder = new TextDecoder("utf-8");
+            while (!this.isStop) {
+                const {done, value} = await reader.read();
+                if (done) {
+                    // 最后一行可能没有换行符
+                    this.append(decoder.decode() + "\n");
+                    this.flush();
+                    break;
+                }
+                this.append(decoder.decode(value, {stream: true}));
+            }
+        } catch (err) {
+            if (!this.ctrl.signal.aborted) {
+                console.error("error", err);
+                this.onError(createAiError(undefined, String(err)));
+            }
+        } finally {
+            this.onClose();
+        }
+    }
+
+    /**
+     * 追加数据并取出其中完整的 JSON，支持换行分隔以及首尾相连的 JSON
+     * @param text
+     */
+    private append(text: string) {
+        this.buffer += text;
+        let start = 0;
+        for (; this.position < this.buffer.length && !this.isStop; this.position++) {
+            const char = this.buffer[this.position];
+            if (this.inString) {
+                if (this.escaped) {
+                    this.escaped = false;
+                } else if (char === "\\") {
+                    this.escaped = true;
+                } else if (char === "\"") {
+                    this.inString = false;
+                }
+            } else if (char === "\"") {
+                this.inString = true;
+            } else if (char === "[" && this.depth === 0 && !this.inArray) {
+                // 整个响应为一个 JSON 数组时跳过外层数组，每个元素完整后立即返回，而不是等到数组结束
+                this.inArray = true;
+                start = this.position + 1;
+            } else if ((char === "]" || char === ",") && this.depth === 0 && this.inArray) {
+                this.emit(this.buffer.substring(start, this.position));
+                start = this.position + 1;
+                if (char === "]") this.inArray = false;
+            } else if (char === "{" || char === "[") {
+                // 忽略 JSON 之间的分隔符，例如逗号
+                if (this.depth === 0) start = this.position;
+                this.depth++;
+            } else if (char === "}" || char === "]") {
+                this.depth = Math.max(this.depth - 1, 0);
+                if (this.depth === 0) {
+                    this.emit(this.buffer.substring(start, this.position + 1));
+                    start = this.position + 1;
+                }
+            } else if (char === "\n" && this.depth === 0) {
+                // 非对象的行，例如数字，按行分隔
+                this.emit(this.buffer.substring(start, this.position));
+                start = this.position + 1;
+            }
+        }
+        this.buffer = this.buffer.substring(start);
+        this.position -= start;
+    }
+
+    /**
+     * 流结束时仍未组成完整 JSON 的内容交给 listener 处理，由 listener 报告数据格式错误
+     */
+    private flush() {
+        this.emit(this.buffer);
+        this.buffer = "";
+        this.position = 0;
+        this.inArray = false;
+    }
+
+    private emit(text: string) {
+        text = text.replace(/^[\s,]+|[\s,]+$/g, "");
+        if (text && !this.isStop) {
+            this.onMessage(text);
+        }
+    }
+
+    protected onOpen() {
+        this.isOpen = true;
+        this.send(this.payload!);
+    }
+
+    protected onMessage(answer: string) {
+        this.listener.onMessage(answer)
+    }
+
+    protected onClose() {
+        this.isOpen = false;
+        if (!this.isStop) {
+            this.listener.onStop();
+            this.isStop = true;
+        }
+    }
+
+    protected onError(error: AiError) {
+        this.isOpen = false;
+        if (!this.isStop) {
+            this.listener.onError?.(error);
+            this.listener.onStop();
+            this.isStop = true;
+        }
+    }
+}
@@ -1,5 +1,6 @@
 import {AiClientListener} from "../../AiClientListener.ts";
 import {AiClient} from "../../AiClient.ts";
+import {AiError, createAiError} from "../../AiError.ts";
 import {events} from "fetch-event-stream";
 
 type SSEConfig = { url: string, method: string, headers?: Record<string, any> }
@@ -26,27 +27,34 @@ export class SseClient implements AiClient {
     }
 
     stop() {
-        if (this.fetch) {
+        if (!this.isStop) {
             // 取消请求
             this.ctrl.abort();
-
-            if (!this.isStop) {
-                this.listener.onStop();
-                this.isStop = true;
-            }
+            this.listener.onStop();
+            this.isStop = true;
         }
     }
 
     async send(payload: string) {
-        let res = await fetch(this.config.url, {
-            method: this.config.method,
-            signal: this.ctrl.signal,
-            headers: this.config.headers,
-            body: payload,
-        });
+        let res: Response;
+        try {
+            res = await fetch(this.config.url, {
+                method: this.config.method,
+                signal: this.ctrl.signal,
+                headers: this.config.headers,
+                body: payload,
+            });
+            this.fetch = res;
+        } catch (err) {
+            if (!this.ctrl.signal.aborted) {
+                this.onError(createAiError(undefined, String(err)));
+            }
+            return;
+        }
 
         if (!res.ok) {
-            this.onError();
+            const body = await res.text().catch(() => "");
+            this.onError(createAiError(res.status, body || res.statusText));
             return;
         }
 
@@ -59,7 +67,9 @@ export class SseClient implements AiClient {
             }
         } catch (err) {
             console.error("error", err);
-            this.onError()
+            if (!this.ctrl.signal.aborted) {
+                this.onError(createAiError(undefined, String(err)));
+            }
         } finally {
             this.onClose();
         }
@@ -82,9 +92,10 @@ export class SseClient implements AiClient {
         }
     }
 
-    protected onError() {
+    protected onError(error: AiError) {
         this.isOpen = false;
         if (!this.isStop) {
+            this.listener.onError?.(error);
             this.listener.onStop();
             this.isStop = true;
         }
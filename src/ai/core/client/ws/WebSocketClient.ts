@@ -64,6 +64,7 @@ export class WebSocketClient implements AiClient {
     protected onError(_: Event) {
         this.isOpen = false;
         if (!this.isStop) {
+            this.listener.onError?.({type: "network", message: `WebSocket connection error: ${this.url.split("?")[0]}`});
             this.listener.onStop();
             this.isStop = true;
         }
@@ -1,4 +1,5 @@
 import {AiClient} from "../core/AiClient.ts";
+import {AiChatMessage} from "../core/AiChatMessage.ts";
 import {AiMessageListener} from "../core/AiMessageListener.ts";
 import {AiModel} from "../core/AiModel.ts";
 import {AiGlobalConfig} from "../AiGlobalConfig.ts";
@@ -8,6 +9,7 @@ import {AiClientListener} from "../core/AiClientListener.ts";
 import {WebSocketClient} from "../core/client/ws/WebSocketClient.ts";
 import {InnerEditor} from "../../core/AiEditor.ts";
 import {HttpStreamSocketClient} from "../core/client/http/HttpSocketClient.ts";
+import {NdjsonClient} from "../core/client/ndjson/NdjsonClient.ts";
 
 export class CustomAiModel extends AiModel {
 
@@ -24,10 +26,13 @@ export class CustomAiModel extends AiModel {
         const aiClientListener: AiClientListener = {
             onStart: listener.onStart,
             onStop: listener.onStop,
+            onError: listener.onError,
             onMessage: (bodyString) => {
                 const config = this.aiModelConfig as CustomAiModelConfig;
                 const aiMessage = config.parseMessage?.(bodyString);
                 if (aiMessage) listener.onMessage(aiMessage);
+                const usage = config.parseUsage?.(bodyString);
+                if (usage) listener.onUsage?.(usage);
             }
         };
         const clientConfig = {
@@ -37,12 +42,13 @@ export class CustomAiModel extends AiModel {
         };
         return config.protocol === "sse" ? new SseClient(clientConfig, aiClientListener)
             : config.protocol === "http" ? new HttpStreamSocketClient(clientConfig, aiClientListener)
+            : config.protocol === "ndjson" ? new NdjsonClient(clientConfig, aiClientListener)
             : new WebSocketClient(url, aiClientListener)
     }
 
-    wrapPayload(promptMessage: string) {
+    wrapPayload(promptMessage: string, history?: AiChatMessage[]) {
         const config = this.aiModelConfig as CustomAiModelConfig;
-        return config.wrapPayload?.(promptMessage);
+        return config.wrapPayload?.(promptMessage, this.createMessages(promptMessage, history));
     }
 
 
@@ -1,11 +1,15 @@
 import {AiModelConfig} from "../core/AiModelConfig.ts";
 import {AiMessage} from "../core/AiMessage.ts";
+import {AiChatMessage} from "../core/AiChatMessage.ts";
+import {AiUsage} from "../core/AiUsage.ts";
 
 export interface CustomAiModelConfig extends AiModelConfig {
     url: (() => string) | string,
     method?: string;
     headers?: () => Record<string, any> | undefined,
-    wrapPayload: (prompt: string) => string,
+    wrapPayload: (prompt: string, messages: AiChatMessage[]) => string,
     parseMessage: (bodyString: string) => AiMessage | undefined,
-    protocol: "sse" | "websocket" | "http"
+    //从返回的数据中解析 token 用量，不配置时根据 prompt 和回复内容估算
+    parseUsage?: (bodyString: string) => AiUsage | undefined,
+    protocol: "sse" | "websocket" | "http" | "ndjson"
 }
@@ -0,0 +1,14 @@
+/**
+ * "问我的文档" 的 prompt，{context} 为检索到的文档片段，{question} 为用户的问题
+ */
+export const ASK_DOCUMENTS_PROMPT = `<documents>
+{context}
+</documents>
+
+The documents above are passages from the user's own notes. Answer the question below using only these documents.
+- After each statement, cite the title of the document it comes from in square brackets, for example [Meeting notes].
+- End the answer with a "Sources" list of the titles of the documents you used.
+- If the documents do not contain the answer, say so instead of guessing.
+- Answer in the same language as the question.
+
+<question>{question}</question>`;
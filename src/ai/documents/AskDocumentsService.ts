@@ -0,0 +1,50 @@
+import {AiEditor} from "../../core/AiEditor.ts";
+import {LocalDocsRetrievedChunk} from "../../extensions/LocalDocsEmbeddingIndex.ts";
+import {LocalDocsManager, LocalDocument} from "../../extensions/LocalDocsExt.ts";
+import {ASK_DOCUMENTS_PROMPT} from "./AskDocumentsPrompts.ts";
+
+export interface AskDocumentsOptions {
+    //最多检索的片段数量，默认为 ai.askDocuments.maxChunks 或者 5
+    maxChunks?: number,
+    //自定义 prompt，默认为 ai.askDocuments.prompt
+    prompt?: string,
+    //只检索包含全部这些标签的文档
+    tags?: string[],
+}
+
+export interface AskDocumentsPrompt {
+    //发送给大模型的 prompt
+    prompt: string,
+    //检索到的片段，按相关度从高到低排列
+    chunks: LocalDocsRetrievedChunk[],
+    //片段所属的文档，按首次出现的顺序去重
+    sources: LocalDocument[],
+}
+
+const escapeAttribute = (value: string) => value.replace(/&/g, "&amp;").replace(/"/g, "&quot;");
+
+/**
+ * "问我的文档"：从本地文档中检索与问题相关的片段，组装为要求大模型引用来源标题的 prompt
+ * @param aiEditor
+ * @param question 用户的问题
+ * @param options
+ */
+export const createAskDocumentsPrompt = async (aiEditor: AiEditor, question: string, options: AskDocumentsOptions = {}): Promise<AskDocumentsPrompt> => {
+    const config = aiEditor.options.ai?.askDocuments;
+    const manager = aiEditor.innerEditor.storage.localDocs?.manager as LocalDocsManager | null | undefined;
+    const chunks = manager ? await manager.retrieve(question, {
+        limit: options.maxChunks || config?.maxChunks || 5,
+        tags: options.tags,
+    }) : [];
+
+    const sources: LocalDocument[] = [];
+    for (let chunk of chunks) {
+        if (!sources.some(doc => doc.id === chunk.document.id)) sources.push(chunk.document);
+    }
+
+    const context = chunks.map(chunk => `<document title="${escapeAttribute(chunk.document.title)}">\n${chunk.text}\n</document>`).join("\n");
+    const prompt = (options.prompt || config?.prompt || ASK_DOCUMENTS_PROMPT)
+        .split("{context}").join(context)
+        .split("{question}").join(question);
+    return {prompt, chunks, sources};
+}
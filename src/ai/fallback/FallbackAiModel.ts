@@ -0,0 +1,112 @@
+import { InnerEditor } from "../../core/AiEditor.ts";
+import { AiGlobalConfig } from "../AiGlobalConfig.ts";
+import { AiChatMessage } from "../core/AiChatMessage.ts";
+import { AiChatOptions } from "../core/AiChatOptions.ts";
+import { AiClient } from "../core/AiClient.ts";
+import { AiMessageListener } from "../core/AiMessageListener.ts";
+import { AiModel } from "../core/AiModel.ts";
+import { AiToolPayload } from "../core/AiTool.ts";
+
+/**
+ * 按照 fallbackModels 配置的顺序依次尝试多个模型，
+ * 当前模型在重试之后依然失败（且尚未输出任何内容）时，自动切换到下一个模型
+ */
+export class FallbackAiModel extends AiModel {
+
+    models: AiModel[];
+
+    constructor(editor: InnerEditor, globalConfig: AiGlobalConfig, models: AiModel[]) {
+        super(editor, globalConfig, "auto");
+        this.models = models;
+    }
+
+    chat(selectedText: string, prompt: string, listener: AiMessageListener, options?: AiChatOptions): void {
+        this.chatWithFallback((model, modelListener) => model.chat(selectedText, prompt, modelListener, options), listener);
+    }
+
+    chatWithPayload(payload: any, listener: AiMessageListener): void {
+        // 不同模型的 payload 格式不一样，无法切换，只使用第一个模型
+        this.models[0].chatWithPayload(payload, listener);
+    }
+
+    private chatWithFallback(send: (model: AiModel, listener: AiMessageListener) => void, listener: AiMessageListener) {
+        let index = 0;
+        let started = false;
+        let stopped = false;
+        let finished = false;
+        let current: AiClient | undefined;
+
+        // 切换模型期间停止时，当前模型和代理 client 都可能结束对话，只通知一次
+        const finish = () => {
+            if (finished) return;
+            finished = true;
+            listener.onStop();
+        };
+
+        const proxyClient: AiClient = {
+            start: (payload: string) => current?.start(payload),
+            stop: () => {
+                if (stopped) return;
+                stopped = true;
+                current ? current.stop() : finish();
+            }
+        };
+
+        const next = () => {
+            const model = this.models[index];
+            let received = false;
+            let switching = false;
+            send(model, {
+                onStart: (aiClient) => {
+                    current = aiClient;
+                    if (!started) {
+                        started = true;
+                        listener.onStart(proxyClient);
+                    }
+                },
+                onStop: () => {
+                    current = undefined;
+                    if (switching && !stopped) {
+                        index++;
+                        next();
+                    } else {
+                        finish();
+                    }
+                },
+                onMessage: (message) => {
+                    received = true;
+                    listener.onMessage(message);
+                },
+                onError: (error) => {
+                    const fallbackModel = this.models[index + 1];
+                    if (!received && !stopped && fallbackModel) {
+                        switching = true;
+                        listener.onError?.({...error, model: model.aiModelName, fallbackModel: fallbackModel.aiModelName});
+                    } else {
+                        listener.onError?.({...error, model: model.aiModelName});
+                    }
+                },
+                onUsage: (usage) => listener.onUsage?.(usage),
+                onToolResult: (toolCall, result) => listener.onToolResult?.(toolCall, result),
+            });
+        }
+
+        next();
+    }
+
+    createAiClientUrl(): string {
+        return this.models[0].createAiClientUrl();
+    }
+
+    createAiClient(url: string, listener: AiMessageListener): AiClient {
+        return this.models[0].createAiClient(url, listener);
+    }
+
+    isToolSupported(): boolean {
+        return this.models.every(model => model.isToolSupported());
+    }
+
+    wrapPayload(prompt: string, history?: AiChatMessage[], toolPayload?: AiToolPayload): any {
+        return this.models[0].wrapPayload(prompt, history, toolPayload);
+    }
+}
@@ -1,8 +1,12 @@
 import {AiClient} from "../core/AiClient.ts";
+import {parseOpenaiUsage} from "../core/AiUsage.ts";
+import {AiChatMessage} from "../core/AiChatMessage.ts";
 import {AiMessageListener} from "../core/AiMessageListener.ts";
 import {AiModel} from "../core/AiModel.ts";
 import {AiGlobalConfig} from "../AiGlobalConfig.ts";
+import {AiToolPayload} from "../core/AiTool.ts";
 import {SseClient} from "../core/client/sse/SseClient.ts";
+import {OpenaiToolCallCollector, toOpenaiMessages, toOpenaiTools} from "../openai/OpenaiTools.ts";
 import {InnerEditor} from "../../core/AiEditor.ts";
 import {GiteeModelConfig} from "./GiteeModelConfig.ts";
 
@@ -20,7 +24,8 @@ export class GiteeAiModel extends AiModel {
 
     createAiClient(url: string, listener: AiMessageListener): AiClient {
         const config = this.aiModelConfig as GiteeModelConfig;
-        return new SseClient({
+        const toolCallCollector = new OpenaiToolCallCollector();
+        const client = new SseClient({
             url,
             method: "post",
             headers: {
@@ -30,43 +35,62 @@ export class GiteeAiModel extends AiModel {
         }, {
             onStart: listener.onStart,
             onStop: listener.onStop,
+            onError: listener.onError,
             onMessage: (bodyString: string) => {
                 let message = null;
                 try {
                     message = JSON.parse(bodyString);
                 } catch (err) {
                     console.error("error", err, bodyString);
+                    listener.onError?.({type: "malformed_stream", message: bodyString});
+                    client.stop();
                     return;
                 }
 
+                //usage 在最后一条消息中返回，此时 choices 通常为空
+                const usage = parseOpenaiUsage(message.usage);
+                if (usage) listener.onUsage?.(usage);
+
+                if (!message.choices || message.choices.length === 0) {
+                    return;
+                }
+
+                if (message.choices?.[0]?.finish_reason === "content_filter") {
+                    listener.onError?.({type: "content_filter", message: "content_filter"});
+                    client.stop();
+                    return;
+                }
+
+                toolCallCollector.append(message.choices[0].delta?.tool_calls);
+                if (message.choices[0].finish_reason && !toolCallCollector.isEmpty()) {
+                    listener.onToolCalls?.(toolCallCollector.getToolCalls());
+                }
+
                 listener.onMessage({
                     status: message.choices[0].finish_reason === "stop" ? 2 : 1,
                     role: "assistant",
                     content: message.choices[0].delta?.content || "",
                     index: message.choices[0].index,
                 })
-                //通知 ai 消费情况
-                if (this.globalConfig.onTokenConsume && message.usage?.["total_tokens"]) {
-                    this.globalConfig.onTokenConsume(this.aiModelName, this.aiModelConfig!, message.usage["total_tokens"])
-                }
             }
         });
+        return client;
     }
 
-    wrapPayload(prompt: string) {
+    isToolSupported(): boolean {
+        return true;
+    }
+
+    wrapPayload(prompt: string, history?: AiChatMessage[], toolPayload?: AiToolPayload) {
         const config = this.aiModelConfig as GiteeModelConfig;
         const payload = {
-            "messages": [
-                {
-                    "role": "user",
-                    "content": prompt,
-                }
-            ],
+            "messages": toOpenaiMessages(this.createMessages(prompt, history, toolPayload)),
             stream: true,
             max_tokens: config.maxTokens || null,
             temperature: config.temperature || null,
             top_p: config.top_p,
             top_k: config.top_k,
+            tools: toolPayload?.tools.length ? toOpenaiTools(toolPayload.tools) : undefined,
         }
         return JSON.stringify(payload);
     }
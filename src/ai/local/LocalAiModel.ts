@@ -0,0 +1,239 @@
+import {InnerEditor} from "../../core/AiEditor.ts";
+import {AiGlobalConfig} from "../AiGlobalConfig.ts";
+import {AiChatMessage} from "../core/AiChatMessage.ts";
+import {AiClient} from "../core/AiClient.ts";
+import {createAiError} from "../core/AiError.ts";
+import {AiMessageListener} from "../core/AiMessageListener.ts";
+import {AiModel} from "../core/AiModel.ts";
+import {parseOpenaiUsage} from "../core/AiUsage.ts";
+import {NdjsonClient} from "../core/client/ndjson/NdjsonClient.ts";
+import {AiToolCall, AiToolPayload, parseToolArguments} from "../core/AiTool.ts";
+import {SseClient} from "../core/client/sse/SseClient.ts";
+import {OpenaiToolCallCollector, toOpenaiMessages, toOpenaiTools} from "../openai/OpenaiTools.ts";
+import {ModelOption} from "../openrouter/OpenRouterModelConfig.ts";
+import {LocalModelConfig} from "./LocalModelConfig.ts";
+
+/**
+ * 本地部署的大模型，支持 Ollama 和 llama.cpp server
+ */
+export class LocalAiModel extends AiModel {
+
+    constructor(editor: InnerEditor, globalConfig: AiGlobalConfig) {
+        super(editor, globalConfig, "local");
+        const config = globalConfig.models["local"] as LocalModelConfig || {};
+        const server = config.server || "ollama";
+        this.aiModelConfig = {
+            server,
+            endpoint: server === "ollama" ? "http://localhost:11434" : "http://localhost:8080",
+            ...config
+        } as LocalModelConfig;
+
+        if (this.aiModelConfig.modelId) {
+            (this.aiModelConfig as LocalModelConfig).model = this.aiModelConfig.modelId;
+        }
+    }
+
+    createAiClient(url: string, listener: AiMessageListener): AiClient {
+        const config = this.aiModelConfig as LocalModelConfig;
+        return config.server === "llamacpp" ? this.createLlamaCppClient(url, listener)
+            : this.createOllamaClient(url, listener);
+    }
+
+    /**
+     * Ollama 以 NDJSON 格式返回，每行一个 JSON https://github.com/ollama/ollama/blob/main/docs/api.md#generate-a-chat-completion
+     */
+    private createOllamaClient(url: string, listener: AiMessageListener): AiClient {
+        const toolCalls: AiToolCall[] = [];
+        const client = new NdjsonClient({
+            url,
+            method: "post",
+            headers: {"Content-Type": "application/json"},
+        }, {
+            onStart: listener.onStart,
+            onStop: listener.onStop,
+            onError: listener.onError,
+            onMessage: (line: string) => {
+                let message = null;
+                try {
+                    message = JSON.parse(line);
+                } catch (err) {
+                    console.error("error", err, line);
+                    listener.onError?.({type: "malformed_stream", message: line});
+                    client.stop();
+                    return;
+                }
+
+                if (message.error) {
+                    listener.onError?.(createAiError(undefined, message.error));
+                    client.stop();
+                    return;
+                }
+
+                // Ollama 不以流的方式返回工具调用，每个工具调用都是完整的，参数为对象
+                for (let toolCall of message.message?.tool_calls || []) {
+                    toolCalls.push({
+                        id: toolCall.id || `call_${toolCalls.length}`,
+                        name: toolCall.function?.name,
+                        arguments: JSON.stringify(toolCall.function?.arguments || {}),
+                    });
+                }
+                if (message.done && toolCalls.length > 0) {
+                    listener.onToolCalls?.(toolCalls);
+                }
+
+                if (message.done && message.eval_count !== undefined) {
+                    const promptTokens = message.prompt_eval_count || 0;
+                    listener.onUsage?.({
+                        promptTokens,
+                        completionTokens: message.eval_count,
+                        totalTokens: promptTokens + message.eval_count,
+                    });
+                }
+
+                listener.onMessage({
+                    status: message.done ? 2 : 1,
+                    role: "assistant",
+                    content: message.message?.content || "",
+                    index: 0,
+                })
+            }
+        });
+        return client;
+    }
+
+    /**
+     * llama.cpp server 的 OpenAI 兼容接口 https://github.com/ggerganov/llama.cpp/tree/master/examples/server
+     */
+    private createLlamaCppClient(url: string, listener: AiMessageListener): AiClient {
+        const config = this.aiModelConfig as LocalModelConfig;
+        const headers = {
+            "Content-Type": "application/json",
+        } as any
+        if (config.apiKey) {
+            headers["Authorization"] = `Bearer ${config.apiKey}`;
+        }
+        const toolCallCollector = new OpenaiToolCallCollector();
+        const client = new SseClient({
+            url,
+            method: "post",
+            headers,
+        }, {
+            onStart: listener.onStart,
+            onStop: listener.onStop,
+            onError: listener.onError,
+            onMessage: (bodyString: string) => {
+                let message = null;
+                try {
+                    message = JSON.parse(bodyString);
+                } catch (err) {
+                    console.error("error", err, bodyString);
+                    listener.onError?.({type: "malformed_stream", message: bodyString});
+                    client.stop();
+                    return;
+                }
+
+                const usage = parseOpenaiUsage(message.usage);
+                if (usage) listener.onUsage?.(usage);
+
+                if (!message.choices || message.choices.length === 0) {
+                    return;
+                }
+
+                toolCallCollector.append(message.choices[0].delta?.tool_calls);
+                if (message.choices[0].finish_reason && !toolCallCollector.isEmpty()) {
+                    listener.onToolCalls?.(toolCallCollector.getToolCalls());
+                }
+
+                listener.onMessage({
+                    status: message.choices[0].finish_reason ? 2 : 1,
+                    role: "assistant",
+                    content: message.choices[0].delta?.content || "",
+                    index: message.choices[0].index,
+                })
+            }
+        });
+        return client;
+    }
+
+    isToolSupported(): boolean {
+        return true;
+    }
+
+    wrapPayload(prompt: string, history?: AiChatMessage[], toolPayload?: AiToolPayload) {
+        const config = this.aiModelConfig as LocalModelConfig;
+        const messages = this.createMessages(prompt, history, toolPayload);
+        const tools = toolPayload?.tools.length ? toOpenaiTools(toolPayload.tools) : undefined;
+        if (config.server === "llamacpp") {
+            return JSON.stringify({
+                "model": config.model,
+                "messages": toOpenaiMessages(messages),
+                "tools": tools,
+                "max_tokens": config.maxTokens || undefined,
+                "temperature": config.temperature ?? undefined,
+                "stream": true
+            });
+        }
+        return JSON.stringify({
+            "model": config.model,
+            "messages": this.toOllamaMessages(messages),
+            "tools": tools,
+            "stream": true,
+            "options": {
+                "temperature": config.temperature ?? undefined,
+                "num_predict": config.maxTokens || undefined,
+                ...config.options
+            }
+        });
+    }
+
+    /**
+     * Ollama 的工具调用参数为对象，工具返回的结果不需要 tool_call_id
+     */
+    private toOllamaMessages(messages: AiChatMessage[]) {
+        return messages.map(message => {
+            if (message.toolCalls) {
+                return {
+                    role: "assistant",
+                    content: message.content,
+                    tool_calls: message.toolCalls.map(toolCall => ({
+                        function: {
+                            name: toolCall.name,
+                            arguments: parseToolArguments(toolCall),
+                        }
+                    })),
+                };
+            }
+            return {role: message.role, content: message.content};
+        });
+    }
+
+    createAiClientUrl(): string {
+        const config = this.aiModelConfig as LocalModelConfig;
+        return config.server === "llamacpp" ? `${config.endpoint}/v1/chat/completions` : `${config.endpoint}/api/chat`;
+    }
+
+    /**
+     * 获取本地服务已经安装的模型列表，服务不可用时返回空列表
+     */
+    async listModels(): Promise<ModelOption[]> {
+        const config = this.aiModelConfig as LocalModelConfig;
+        try {
+            if (config.server === "llamacpp") {
+                const headers = config.apiKey ? {"Authorization": `Bearer ${config.apiKey}`} : undefined;
+                const res = await fetch(`${config.endpoint}/v1/models`, {headers});
+                const json = await res.json();
+                return (json.data || []).map((model: any) => ({name: model.id, value: model.id}));
+            }
+            const res = await fetch(`${config.endpoint}/api/tags`);
+            const json = await res.json();
+            return (json.models || []).map((model: any) => ({
+                name: model.name,
+                value: model.name,
+                description: model.details?.parameter_size,
+            }));
+        } catch (err) {
+            console.error("Can not list the models of local server: " + config.endpoint, err);
+            return [];
+        }
+    }
+}
@@ -0,0 +1,14 @@
+import {AiModelConfig} from "../core/AiModelConfig.ts";
+
+export interface LocalModelConfig extends AiModelConfig {
+    //本地服务类型：ollama 或 llamacpp（llama.cpp server），默认为 ollama
+    server?: "ollama" | "llamacpp",
+    //服务地址，ollama 默认为 http://localhost:11434，llamacpp 默认为 http://localhost:8080
+    endpoint?: string,
+    //模型名称，例如 llama3.1:8b；llama.cpp server 只加载一个模型时可以为空
+    model?: string,
+    //llama.cpp server 通过 --api-key 启动时需要配置
+    apiKey?: string,
+    //传给 Ollama 的其他模型参数，例如：{num_ctx: 8192}
+    options?: Record<string, any>,
+}
@@ -1,9 +1,13 @@
 import { InnerEditor } from "../../core/AiEditor.ts";
 import { AiGlobalConfig } from "../AiGlobalConfig.ts";
+import { AiChatMessage } from "../core/AiChatMessage.ts";
 import { AiClient } from "../core/AiClient.ts";
+import { parseOpenaiUsage } from "../core/AiUsage.ts";
 import { AiMessageListener } from "../core/AiMessageListener.ts";
 import { AiModel } from "../core/AiModel.ts";
+import { AiToolPayload } from "../core/AiTool.ts";
 import { SseClient } from "../core/client/sse/SseClient.ts";
+import { OpenaiToolCallCollector, toOpenaiMessages, toOpenaiTools } from "./OpenaiTools.ts";
 import { OpenaiModelConfig } from "./OpenaiModelConfig.ts";
 
 
@@ -31,54 +35,77 @@ export class OpenaiAiModel extends AiModel {
         if (config.apiKey) {
             headers["Authorization"] = `Bearer ${config.apiKey}`;
         }
-        return new SseClient({
+        const toolCallCollector = new OpenaiToolCallCollector();
+        const client = new SseClient({
             url,
             method: "post",
             headers,
         }, {
             onStart: listener.onStart,
             onStop: listener.onStop,
+            onError: listener.onError,
             onMessage: (bodyString: string) => {
                 let message = null;
                 try {
                     message = JSON.parse(bodyString);
                 } catch (err) {
                     console.error("error", err, bodyString);
+                    listener.onError?.({type: "malformed_stream", message: bodyString});
+                    client.stop();
                     return;
                 }
 
+                //usage 在最后一条消息中返回，此时 choices 通常为空
+                const usage = parseOpenaiUsage(message.usage);
+                if (usage) listener.onUsage?.(usage);
+
                 if (!message.choices || message.choices.length === 0) {
                     return;
                 }
 
+                if (message.choices?.[0]?.finish_reason === "content_filter") {
+                    listener.onError?.({type: "content_filter", message: "content_filter"});
+                    client.stop();
+                    return;
+                }
+
+                toolCallCollector.append(message.choices[0].delta?.tool_calls);
+                if (message.choices[0].finish_reason && !toolCallCollector.isEmpty()) {
+                    listener.onToolCalls?.(toolCallCollector.getToolCalls());
+                }
+
                 listener.onMessage({
                     status: message.choices[0].finish_reason === "stop" ? 2 : 1,
                     role: "assistant",
                     content: message.choices[0].delta?.content || "",
                     index: message.choices[0].index,
                 })
-                //通知 ai 消费情况
-                if (this.globalConfig.onTokenConsume && message.choices[0].usage?.["total_tokens"]) {
-                    this.globalConfig.onTokenConsume(this.aiModelName, this.aiModelConfig!, message.choices[0].usage["total_tokens"])
-                }
             }
         });
+        return client;
     }
 
-    wrapPayload(prompt: string) {
+    isToolSupported(): boolean {
+        return true;
+    }
+
+    wrapPayload(prompt: string, history?: AiChatMessage[], toolPayload?: AiToolPayload) {
         const config = this.aiModelConfig as OpenaiModelConfig;
         const payload = {
-            "messages": [
-                {
-                    "role": "user",
-                    "content": prompt,
-                }
-            ],
+            "messages": toOpenaiMessages(this.createMessages(prompt, history, toolPayload)),
             "max_tokens": config.maxTokens || null,
             "temperature": config.temperature || null,
             "stream": true
         } as any
 
+        if (toolPayload?.tools.length) {
+            payload.tools = toOpenaiTools(toolPayload.tools);
+        }
+
+        if (config.streamUsage !== false) {
+            payload.stream_options = {include_usage: true};
+        }
+
         // Use modelId if available, otherwise fall back to model field
         const modelToUse = config.modelId || config.model;
         if (modelToUse) {
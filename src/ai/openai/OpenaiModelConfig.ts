@@ -4,5 +4,7 @@ export interface OpenaiModelConfig extends AiModelConfig {
     endpoint?: string,
     customUrl?: string | (() => string),
     apiKey?: string,
-    model: string
+    model: string,
+    //流式请求时是否要求返回 token 用量（stream_options.include_usage），部分兼容 OpenAI 的接口不支持时可以关闭，默认为 true
+    streamUsage?: boolean
 }
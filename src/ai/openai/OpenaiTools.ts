@@ -0,0 +1,68 @@
+import {AiChatMessage} from "../core/AiChatMessage.ts";
+import {AiTool, AiToolCall} from "../core/AiTool.ts";
+
+/**
+ * 转换为 OpenAI 兼容接口的 tools 参数
+ * @param tools
+ */
+export const toOpenaiTools = (tools: AiTool[]) => {
+    return tools.map(tool => ({
+        type: "function",
+        function: {
+            name: tool.name,
+            description: tool.description,
+            parameters: tool.parameters,
+        }
+    }));
+}
+
+/**
+ * 转换为 OpenAI 兼容接口的 messages 参数，包含工具调用以及工具返回的结果
+ * @param messages
+ */
+export const toOpenaiMessages = (messages: AiChatMessage[]) => {
+    return messages.map(message => {
+        if (message.role === "tool") {
+            return {role: "tool", tool_call_id: message.toolCallId, content: message.content};
+        }
+        if (message.toolCalls) {
+            return {
+                role: "assistant",
+                content: message.content || null,
+                tool_calls: message.toolCalls.map(toolCall => ({
+                    id: toolCall.id,
+                    type: "function",
+                    function: {name: toolCall.name, arguments: toolCall.arguments},
+                })),
+            };
+        }
+        return {role: message.role, content: message.content};
+    });
+}
+
+/**
+ * 流式返回时，工具调用的参数分散在多条消息的 delta.tool_calls 中，按 index 拼接为完整的工具调用
+ */
+export class OpenaiToolCallCollector {
+
+    toolCalls: AiToolCall[] = [];
+
+    append(deltas?: any[]) {
+        if (!deltas) return;
+        for (let delta of deltas) {
+            const index = delta.index ?? this.toolCalls.length;
+            const toolCall = this.toolCalls[index] || (this.toolCalls[index] = {id: "", name: "", arguments: ""});
+            if (delta.id) toolCall.id = delta.id;
+            if (delta.function?.name) toolCall.name += delta.function.name;
+            if (delta.function?.arguments) toolCall.arguments += delta.function.arguments;
+        }
+    }
+
+    isEmpty() {
+        return this.toolCalls.length === 0;
+    }
+
+    getToolCalls() {
+        return this.toolCalls.filter(toolCall => !!toolCall);
+    }
+}
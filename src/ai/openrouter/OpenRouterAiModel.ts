@@ -1,9 +1,13 @@
 import { InnerEditor } from "../../core/AiEditor.ts";
 import { AiGlobalConfig } from "../AiGlobalConfig.ts";
+import { AiChatMessage } from "../core/AiChatMessage.ts";
 import { AiClient } from "../core/AiClient.ts";
+import { parseOpenaiUsage } from "../core/AiUsage.ts";
 import { AiMessageListener } from "../core/AiMessageListener.ts";
 import { AiModel } from "../core/AiModel.ts";
+import { AiToolPayload } from "../core/AiTool.ts";
 import { SseClient } from "../core/client/sse/SseClient.ts";
+import { OpenaiToolCallCollector, toOpenaiMessages, toOpenaiTools } from "../openai/OpenaiTools.ts";
 import { DEFAULT_OPENROUTER_MODELS, OpenRouterModelConfig } from "./OpenRouterModelConfig.ts";
 
 export class OpenRouterAiModel extends AiModel {
@@ -44,46 +48,61 @@ export class OpenRouterAiModel extends AiModel {
             headers["X-Title"] = config.siteName;
         }
 
-        return new SseClient({
+        const toolCallCollector = new OpenaiToolCallCollector();
+        const client = new SseClient({
             url,
             method: "post",
             headers,
         }, {
             onStart: listener.onStart,
             onStop: listener.onStop,
+            onError: listener.onError,
             onMessage: (bodyString: string) => {
                 let message = null;
                 try {
                     message = JSON.parse(bodyString);
                 } catch (err) {
                     console.error("error", err, bodyString);
+                    listener.onError?.({type: "malformed_stream", message: bodyString});
+                    client.stop();
                     return;
                 }
 
+                //usage 在最后一条消息中返回，此时 choices 通常为空
+                const usage = parseOpenaiUsage(message.usage);
+                if (usage) listener.onUsage?.(usage);
+
                 if (!message.choices || message.choices.length === 0) {
                     return;
                 }
 
+                if (message.choices?.[0]?.finish_reason === "content_filter") {
+                    listener.onError?.({type: "content_filter", message: "content_filter"});
+                    client.stop();
+                    return;
+                }
+
+                toolCallCollector.append(message.choices[0].delta?.tool_calls);
+                if (message.choices[0].finish_reason && !toolCallCollector.isEmpty()) {
+                    listener.onToolCalls?.(toolCallCollector.getToolCalls());
+                }
+
                 listener.onMessage({
                     status: message.choices[0].finish_reason === "stop" ? 2 : 1,
                     role: "assistant",
                     content: message.choices[0].delta?.content || "",
                     index: message.choices[0].index,
                 });
-
-                // Notify about token consumption
-                if (this.globalConfig.onTokenConsume && message.usage?.total_tokens) {
-                    this.globalConfig.onTokenConsume(
-                        this.aiModelName, 
-                        this.aiModelConfig!, 
-                        message.usage.total_tokens
-                    );
-                }
             }
         });
+        return client;
+    }
+
+    isToolSupported(): boolean {
+        return true;
     }
 
-    wrapPayload(prompt: string) {
+    wrapPayload(prompt: string, history?: AiChatMessage[], toolPayload?: AiToolPayload) {
         const config = this.aiModelConfig as OpenRouterModelConfig;
         
         // Use modelId if available, otherwise fall back to model field
@@ -91,16 +110,16 @@ export class OpenRouterAiModel extends AiModel {
         
         const payload = {
             "model": modelToUse,
-            "messages": [
-                {
-                    "role": "user",
-                    "content": prompt,
-                }
-            ],
+            "messages": toOpenaiMessages(this.createMessages(prompt, history, toolPayload)),
             "max_tokens": config.maxTokens || null,
             "temperature": config.temperature || 0.7,
-            "stream": true
-        };
+            "stream": true,
+            "usage": {"include": true}
+        } as any;
+
+        if (toolPayload?.tools.length) {
+            payload.tools = toOpenaiTools(toolPayload.tools);
+        }
 
         return JSON.stringify(payload);
     }
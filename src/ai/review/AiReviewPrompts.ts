@@ -0,0 +1,17 @@
+/**
+ * AI 审阅的 prompt，{content} 为需要审阅的章节内容
+ */
+export const AI_REVIEW_PROMPT = `<content>{content}</content>
+
+You are an experienced editor reviewing the section of a document above. Find the problems of the following categories:
+- unclear: sentences that are ambiguous, hard to read or grammatically wrong
+- unsupported: claims that are not supported by evidence, data or references
+- terminology: terms that are used inconsistently, or abbreviations that are not defined
+- other: other important problems, for example logical errors or contradictions
+
+Return ONLY a JSON array without any explanation, each item is an object with the following fields:
+- "quote": the exact text of the problem copied from the content, as short as possible but unique in the content, never rewrite it
+- "category": one of "unclear", "unsupported", "terminology" and "other"
+- "comment": a short critique and suggestion, written in the same language as the content
+
+Return [] if there is no problem.`;
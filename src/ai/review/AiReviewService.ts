@@ -0,0 +1,173 @@
+import {EditorEvents} from "@tiptap/core";
+import {Mapping} from "@tiptap/pm/transform";
+import {t} from "i18next";
+import {AiEditor} from "../../core/AiEditor.ts";
+import {getTextWithPositions} from "../../extensions/AiDiffExt.ts";
+import {CommentThread} from "../../extensions/CommentMarkExt.ts";
+import {AiModelManager} from "../AiModelManager.ts";
+import {AiClient} from "../core/AiClient.ts";
+import {AiError} from "../core/AiError.ts";
+import {DefaultAiMessageListener} from "../core/DefaultAiMessageListener.ts";
+import {AI_REVIEW_PROMPT} from "./AiReviewPrompts.ts";
+
+export interface AiReviewOptions {
+    //使用的模型，默认为 ai.review.model 或者 ai.bubblePanelModel
+    model?: string,
+    //自定义 prompt，{content} 为章节内容，需要返回 [{quote, category, comment}] 格式的 JSON
+    prompt?: string,
+    //审阅意见的评论人，默认为 "AI"
+    author?: string,
+    //每次发送给大模型的最大字数，超出的章节按段落继续拆分，默认为 4000
+    maxChunkLength?: number,
+    //每审阅完一个章节调用一次
+    onProgress?: (done: number, total: number) => void,
+}
+
+export interface AiReviewIssue {
+    quote: string,
+    category: string,
+    comment: string,
+}
+
+interface Chunk {
+    from: number,
+    to: number,
+}
+
+/**
+ * 解析大模型返回的审阅意见，兼容 markdown 代码块等多余内容
+ */
+const parseIssues = (content: string): AiReviewIssue[] => {
+    const start = content.indexOf("[");
+    const end = content.lastIndexOf("]");
+    if (start < 0 || end < start) return [];
+    try {
+        const issues = JSON.parse(content.substring(start, end + 1));
+        return Array.isArray(issues) ? issues.filter(issue => issue && typeof issue.quote === "string" && issue.quote && issue.comment) : [];
+    } catch (e) {
+        console.error("Can not parse the AI review result.", content);
+        return [];
+    }
+}
+
+/**
+ * AI 审阅：把文档按标题拆分为章节依次发送给大模型，并把返回的审阅意见以评论的形式标注在对应的内容上
+ */
+export class AiReviewService {
+    private aiEditor: AiEditor;
+    private client?: AiClient;
+    private stopped = false;
+
+    constructor(aiEditor: AiEditor) {
+        this.aiEditor = aiEditor;
+    }
+
+    /**
+     * 按 getOutline() 返回的标题拆分文档，过长的章节再按顶层节点拆分
+     */
+    private getChunks(maxChunkLength: number): Chunk[] {
+        const doc = this.aiEditor.innerEditor.state.doc;
+        const bounds = [0, ...this.aiEditor.getOutline().map(heading => heading.pos as number), doc.content.size];
+        const blocks: number[] = [];
+        doc.forEach((_, pos) => blocks.push(pos));
+
+        const chunks: Chunk[] = [];
+        for (let i = 0; i < bounds.length - 1; i++) {
+            const to = bounds[i + 1];
+            let from = bounds[i];
+            for (let pos of blocks) {
+                if (pos > from && pos < to && doc.textBetween(from, pos, "\n").length >= maxChunkLength) {
+                    chunks.push({from, to: pos});
+                    from = pos;
+                }
+            }
+            chunks.push({from, to});
+        }
+        return chunks.filter(chunk => doc.textBetween(chunk.from, chunk.to, "\n").trim());
+    }
+
+    private request(modelName: string, prompt: string, content: string): Promise<string> {
+        const model = AiModelManager.get(modelName);
+        if (!model) {
+            return Promise.reject(new Error(`AI model "${modelName}" not found`));
+        }
+        const errorListener = new DefaultAiMessageListener(this.aiEditor.innerEditor);
+        return new Promise((resolve, reject) => {
+            let result = "";
+            model.chat(content, prompt, {
+                onStart: (client) => this.client = client,
+                onStop: () => {
+                    this.client = undefined;
+                    resolve(result);
+                },
+                onMessage: (message) => result += message.content || "",
+                onError: (error: AiError) => {
+                    // 已自动切换到其他模型，继续等待回复
+                    if (error.fallbackModel) return;
+                    errorListener.onError(error);
+                    reject(error);
+                },
+            });
+        });
+    }
+
+    /**
+     * 把审阅意见添加为评论，找不到引用的内容时忽略
+     */
+    private addComments(chunk: Chunk, issues: AiReviewIssue[], author: string): CommentThread[] {
+        const threads: CommentThread[] = [];
+        for (let issue of issues) {
+            const {text, positions} = getTextWithPositions(this.aiEditor.innerEditor.state.doc, chunk.from, chunk.to);
+            const quote = issue.quote.trim();
+            const index = text.indexOf(quote);
+            if (index < 0) continue;
+            const category = issue.category || "other";
+            const content = `[${t(`ai-review-${category}`, {defaultValue: category})}] ${issue.comment}`;
+            const thread = this.aiEditor.addComment(content, {
+                from: positions[index],
+                to: positions[index + quote.length - 1] + 1,
+            }, author);
+            if (thread) threads.push(thread);
+        }
+        return threads;
+    }
+
+    /**
+     * 审阅整个文档，返回添加的评论
+     * @param options
+     */
+    async review(options: AiReviewOptions = {}): Promise<CommentThread[]> {
+        const config = this.aiEditor.options.ai?.review;
+        const modelName = options.model || config?.model || this.aiEditor.options.ai?.bubblePanelModel || "auto";
+        const prompt = options.prompt || config?.prompt || AI_REVIEW_PROMPT;
+        const author = options.author || config?.author || "AI";
+        const chunks = this.getChunks(options.maxChunkLength || config?.maxChunkLength || 4000);
+
+        // 审阅期间用户可能继续编辑，章节的位置需要映射到最新的文档
+        const mapping = new Mapping();
+        const onTransaction = ({transaction}: EditorEvents["transaction"]) => mapping.appendMapping(transaction.mapping);
+        this.aiEditor.innerEditor.on("transaction", onTransaction);
+
+        this.stopped = false;
+        const threads: CommentThread[] = [];
+        try {
+            for (let i = 0; i < chunks.length && !this.stopped; i++) {
+                const {text} = getTextWithPositions(this.aiEditor.innerEditor.state.doc,
+                    mapping.map(chunks[i].from, 1), mapping.map(chunks[i].to, -1));
+                const result = await this.request(modelName, prompt, text);
+                if (this.stopped) break;
+                const chunk = {from: mapping.map(chunks[i].from, 1), to: mapping.map(chunks[i].to, -1)};
+                threads.push(...this.addComments(chunk, parseIssues(result), author));
+                options.onProgress?.(i + 1, chunks.length);
+            }
+        } finally {
+            this.aiEditor.innerEditor.off("transaction", onTransaction);
+        }
+        return threads;
+    }
+
+    stop() {
+        this.stopped = true;
+        this.client?.stop();
+    }
+}
@@ -1,4 +1,6 @@
 import {AiClient} from "../core/AiClient.ts";
+import {parseOpenaiUsage} from "../core/AiUsage.ts";
+import {AiChatMessage} from "../core/AiChatMessage.ts";
 import {AiMessageListener} from "../core/AiMessageListener.ts";
 import {AiModel} from "../core/AiModel.ts";
 import {WebSocketClient} from "../core/client/ws/WebSocketClient.ts";
@@ -27,16 +29,14 @@ export class SparkAiModel extends AiModel {
         return new WebSocketClient(url, {
             onStart: listener.onStart,
             onStop: listener.onStop,
+            onError: listener.onError,
             // 星火内容解析 https://www.xfyun.cn/doc/spark/Web.html#_1-%E6%8E%A5%E5%8F%A3%E8%AF%B4%E6%98%8E
             onMessage: (bodyString: string) => {
                 const message = JSON.parse(bodyString) as any;
                 if (message.payload) {
                     //通知 ai 消费情况
-                    if (message.payload.usage?.text?.total_tokens) {
-                        if (this.globalConfig.onTokenConsume) {
-                            this.globalConfig.onTokenConsume(this.aiModelName, this.aiModelConfig!, message.payload.usage?.text?.total_tokens)
-                        }
-                    }
+                    const usage = parseOpenaiUsage(message.payload.usage?.text);
+                    if (usage) listener.onUsage?.(usage);
 
                     // 通知 AiMessageListener
                     if (message.payload.choices?.text) {
@@ -52,7 +52,7 @@ export class SparkAiModel extends AiModel {
         })
     }
 
-    wrapPayload(promptMessage: string) {
+    wrapPayload(promptMessage: string, history?: AiChatMessage[]) {
         const sparkAiModelConfig = this.aiModelConfig as SparkAiModelConfig;
         const object = {
             "header": {
@@ -68,9 +68,7 @@ export class SparkAiModel extends AiModel {
             },
             "payload": {
                 "message": {
-                    "text": [
-                        {"role": "user", "content": promptMessage}
-                    ] as any[]
+                    "text": this.createMessages(promptMessage, history) as any[]
                 }
             }
         }
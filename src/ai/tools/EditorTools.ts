@@ -0,0 +1,294 @@
+import {Editor, SingleCommands} from "@tiptap/core";
+import {Level} from "@tiptap/extension-heading";
+import {Node} from "@tiptap/pm/model";
+import {TextSelection, Transaction} from "@tiptap/pm/state";
+import {mdToHtml} from "../../util/mdUtil.ts";
+import {AiTool} from "../core/AiTool.ts";
+
+/**
+ * 文档中的顶层块，工具通过块的序号（从 0 开始）定位需要修改的内容
+ */
+interface Block {
+    index: number,
+    node: Node,
+    pos: number,
+}
+
+const getBlocks = (editor: Editor): Block[] => {
+    const blocks: Block[] = [];
+    editor.state.doc.forEach((node, pos, index) => blocks.push({index, node, pos}));
+    return blocks;
+}
+
+const getBlock = (editor: Editor, index: number): Block => {
+    const block = getBlocks(editor)[index];
+    if (!block) {
+        throw new Error(`Block ${index} not found, call get_document_outline to get the blocks of the document`);
+    }
+    return block;
+}
+
+const headingLevels: Level[] = [1, 2, 3, 4, 5, 6];
+
+const getText = (node: Node, maxLength = 200) => {
+    const text = node.textContent;
+    return text.length > maxLength ? text.substring(0, maxLength) + "..." : text;
+}
+
+const escapeHtml = (text: string) => {
+    return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+/**
+ * 工具修改文档后，把用户原来的选区映射到修改后的位置，避免 AI 后续输出的内容写到其他位置
+ */
+const keepSelection = (editor: Editor) => {
+    const {from, to} = editor.state.selection;
+    return ({tr}: { tr: Transaction }) => {
+        tr.setSelection(TextSelection.create(tr.doc, tr.mapping.map(from), tr.mapping.map(to)));
+        return true;
+    }
+}
+
+const assertCommand = (editor: Editor, name: keyof SingleCommands) => {
+    if (!(name in editor.commands)) {
+        throw new Error(`The editor does not support "${name}"`);
+    }
+}
+
+export const getDocumentOutlineTool: AiTool = {
+    name: "get_document_outline",
+    description: "Get the top-level blocks of the document, each block contains its index, type and text. Call it before editing the document.",
+    parameters: {
+        type: "object",
+        properties: {},
+    },
+    execute: (_, {editor}) => {
+        return getBlocks(editor).map(({index, node}) => ({
+            index,
+            type: node.type.name,
+            level: node.attrs.level,
+            text: getText(node),
+        }));
+    }
+}
+
+export const replaceBlocksTool: AiTool = {
+    name: "replace_blocks",
+    description: "Replace the blocks from `from` to `to` (inclusive) with the markdown content.",
+    parameters: {
+        type: "object",
+        properties: {
+            from: {type: "number", description: "index of the first block"},
+            to: {type: "number", description: "index of the last block, default is `from`"},
+            markdown: {type: "string", description: "the new content in markdown"},
+        },
+        required: ["from", "markdown"],
+    },
+    execute: ({from, to, markdown}, {editor}) => {
+        const end = to ?? from;
+        if (!Number.isInteger(from) || !Number.isInteger(end) || end < from) {
+            throw new Error(`Invalid block range from ${from} to ${end}, \`from\` and \`to\` must be block indexes and \`to\` can not be less than \`from\``);
+        }
+        const first = getBlock(editor, from);
+        const last = getBlock(editor, end);
+        editor.chain()
+            .insertContentAt({from: first.pos, to: last.pos + last.node.nodeSize}, mdToHtml(markdown))
+            .command(keepSelection(editor))
+            .run();
+        return "ok";
+    }
+}
+
+export const insertAfterHeadingTool: AiTool = {
+    name: "insert_after_heading",
+    description: "Insert the markdown content into the section of a heading. By default the content is appended to the end of the section, which ends before the next heading of the same or higher level.",
+    parameters: {
+        type: "object",
+        properties: {
+            heading: {type: "string", description: "text of the heading"},
+            markdown: {type: "string", description: "the content to insert in markdown"},
+            position: {
+                type: "string",
+                enum: ["end_of_section", "after_heading"],
+                description: "insert at the end of the section or right after the heading, default is end_of_section"
+            },
+        },
+        required: ["heading", "markdown"],
+    },
+    execute: ({heading, markdown, position}, {editor}) => {
+        const blocks = getBlocks(editor);
+        const headingBlock = blocks.find(({node}) => node.type.name === "heading" && node.textContent.trim() === heading.trim())
+            || blocks.find(({node}) => node.type.name === "heading" && node.textContent.includes(heading.trim()));
+        if (!headingBlock) {
+            throw new Error(`Heading "${heading}" not found`);
+        }
+
+        let insertPos = headingBlock.pos + headingBlock.node.nodeSize;
+        if (position !== "after_heading") {
+            const level = headingBlock.node.attrs.level;
+            const nextHeading = blocks.find(({index, node}) => index > headingBlock.index
+                && node.type.name === "heading" && node.attrs.level <= level);
+            insertPos = nextHeading ? nextHeading.pos : editor.state.doc.content.size;
+        }
+
+        editor.chain()
+            .insertContentAt(insertPos, mdToHtml(markdown))
+            .command(keepSelection(editor))
+            .run();
+        return "ok";
+    }
+}
+
+export const listToTableTool: AiTool = {
+    name: "list_to_table",
+    description: "Convert a bullet list or ordered list to a table, each list item becomes a row, and the text of the item is split into cells by the separator.",
+    parameters: {
+        type: "object",
+        properties: {
+            block: {type: "number", description: "index of the list block"},
+            separator: {type: "string", description: "separator of the cells in the item text, default is \"|\""},
+            header: {type: "array", items: {type: "string"}, description: "the header row of the table"},
+        },
+        required: ["block"],
+    },
+    execute: ({block, separator, header}, {editor}) => {
+        assertCommand(editor, "insertTable");
+        const {node, pos} = getBlock(editor, block);
+        if (!["bulletList", "orderedList", "taskList"].includes(node.type.name)) {
+            throw new Error(`Block ${block} is not a list, but "${node.type.name}"`);
+        }
+
+        const rows: string[][] = [];
+        node.forEach(item => rows.push(item.textContent.split(separator || "|").map(cell => cell.trim())));
+        const cols = Math.max(header?.length || 0, ...rows.map(row => row.length));
+        const toCells = (row: string[], tag: string) => {
+            let cells = "";
+            for (let i = 0; i < cols; i++) {
+                cells += `<${tag}><p>${escapeHtml(row[i] || "")}</p></${tag}>`;
+            }
+            return `<tr>${cells}</tr>`;
+        }
+        const html = `<table>${header?.length ? toCells(header, "th") : ""}${rows.map(row => toCells(row, "td")).join("")}</table>`;
+
+        editor.chain()
+            .insertContentAt({from: pos, to: pos + node.nodeSize}, html)
+            .command(keepSelection(editor))
+            .run();
+        return "ok";
+    }
+}
+
+export const applyMarkTool: AiTool = {
+    name: "apply_mark",
+    description: "Apply or remove a mark (bold, italic, underline, strike, code, highlight, link) on the text of a block. When `text` is empty, the mark is applied on the whole block.",
+    parameters: {
+        type: "object",
+        properties: {
+            block: {type: "number", description: "index of the block"},
+            mark: {type: "string", enum: ["bold", "italic", "underline", "strike", "code", "highlight", "link"]},
+            text: {type: "string", description: "the text to mark in the block, the first occurrence is used"},
+            attrs: {type: "object", description: "attributes of the mark, for example {\"href\": \"https://...\"} for link, {\"color\": \"#ffe066\"} for highlight"},
+            remove: {type: "boolean", description: "remove the mark instead of applying it"},
+        },
+        required: ["block", "mark"],
+    },
+    execute: ({block, mark, text, attrs, remove}, {editor}) => {
+        if (!editor.schema.marks[mark]) {
+            throw new Error(`The editor does not support mark "${mark}"`);
+        }
+        const {node, pos} = getBlock(editor, block);
+        let from = pos + 1;
+        let to = pos + node.nodeSize - 1;
+        if (text) {
+            let found = -1;
+            node.descendants((child, childPos) => {
+                if (found >= 0 || !child.isText) return found < 0;
+                const offset = child.text!.indexOf(text);
+                if (offset >= 0) found = childPos + offset;
+                return false;
+            });
+            if (found < 0) {
+                throw new Error(`Text "${text}" not found in block ${block}`);
+            }
+            from = pos + 1 + found;
+            to = from + text.length;
+        }
+
+        const chain = editor.chain().setTextSelection({from, to});
+        (remove ? chain.unsetMark(mark) : chain.setMark(mark, attrs))
+            .command(keepSelection(editor))
+            .run();
+        return "ok";
+    }
+}
+
+export const setBlockTypeTool: AiTool = {
+    name: "set_block_type",
+    description: "Change the type of a block, for example turn a paragraph into a heading, or wrap a block into a quote, a list or a container (info, warning, danger).",
+    parameters: {
+        type: "object",
+        properties: {
+            block: {type: "number", description: "index of the block"},
+            type: {
+                type: "string",
+                enum: ["paragraph", "heading", "codeBlock", "blockquote", "bulletList", "orderedList", "taskList", "container"]
+            },
+            level: {type: "number", description: "level of the heading, 1 to 6"},
+            containerType: {type: "string", description: "type of the container, for example info, warning, danger"},
+        },
+        required: ["block", "type"],
+    },
+    execute: ({block, type, level, containerType}, {editor}) => {
+        const {node, pos} = getBlock(editor, block);
+        const chain = editor.chain().setTextSelection({from: pos + 1, to: pos + node.nodeSize - 1});
+        switch (type) {
+            case "paragraph":
+                chain.setParagraph();
+                break;
+            case "heading":
+                chain.setHeading({level: headingLevels[Math.min(Math.max(Math.round(level || 1), 1), 6) - 1]});
+                break;
+            case "codeBlock":
+                chain.setCodeBlock();
+                break;
+            case "blockquote":
+                chain.setBlockquote();
+                break;
+            case "bulletList":
+                chain.toggleBulletList();
+                break;
+            case "orderedList":
+                chain.toggleOrderedList();
+                break;
+            case "taskList":
+                assertCommand(editor, "toggleTaskList");
+                chain.toggleTaskList();
+                break;
+            case "container":
+                assertCommand(editor, "setContainer");
+                chain.setContainer(containerType || "");
+                break;
+            default:
+                throw new Error(`Unsupported block type "${type}"`);
+        }
+        if (!chain.command(keepSelection(editor)).run()) {
+            throw new Error(`Can not change block ${block} to "${type}"`);
+        }
+        return "ok";
+    }
+}
+
+/**
+ * 编辑文档的工具，大模型可以通过这些工具直接修改文档的结构，而不是在光标处追加内容
+ */
+export const editorTools: AiTool[] = [
+    getDocumentOutlineTool,
+    replaceBlocksTool,
+    insertAfterHeadingTool,
+    listToTableTool,
+    applyMarkTool,
+    setBlockTypeTool,
+]
+
+export const editorToolNames = editorTools.map(tool => tool.name);
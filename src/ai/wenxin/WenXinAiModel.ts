@@ -1,4 +1,6 @@
 import {AiClient} from "../core/AiClient.ts";
+import {parseOpenaiUsage} from "../core/AiUsage.ts";
+import {AiChatMessage} from "../core/AiChatMessage.ts";
 import {AiMessageListener} from "../core/AiMessageListener.ts";
 import {AiModel} from "../core/AiModel.ts";
 import {HttpStreamSocketClient} from "../core/client/http/HttpSocketClient.ts";
@@ -20,11 +22,14 @@ export class WenXinAiModel extends AiModel {
         return new HttpStreamSocketClient({url, method: "POST"}, {
             onStart: listener.onStart,
             onStop: listener.onStop,
+            onError: listener.onError,
 
             onMessage: (bodyString: string) => {
                 const dataMatch = bodyString.match(/data:([\s\S]*)$/)
                 if (!dataMatch) return
                 const message = JSON.parse(dataMatch[1]) as any;
+                const usage = parseOpenaiUsage(message.usage);
+                if (usage && message.is_end) listener.onUsage?.(usage);
 
                 listener.onMessage({
                     status: message.is_end ? 2 : 1,
@@ -36,14 +41,12 @@ export class WenXinAiModel extends AiModel {
         })
     }
 
-    wrapPayload(prompt: string) {
+    wrapPayload(prompt: string, history?: AiChatMessage[]) {
+        // 文心一言的 system prompt 需要通过 system 字段传递
+        const {system, messages} = this.splitSystemMessages(this.createMessages(prompt, history));
         const object = {
-            messages: [
-                {
-                    role: "user",
-                    content: prompt
-                }
-            ],
+            messages,
+            "system": system || undefined,
             "stream": true,
             "max_tokens": this.aiModelConfig.maxTokens || null,
             "temperature": this.aiModelConfig.temperature || null,
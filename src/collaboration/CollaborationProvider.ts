@@ -0,0 +1,48 @@
+import {Awareness} from "y-protocols/awareness";
+import {WebsocketProvider} from "y-websocket";
+import {Doc} from "yjs";
+
+export type CollaborationStatus = "connecting" | "connected" | "disconnected";
+
+export interface CollaborationUser {
+    clientId: number,
+    name: string,
+    color: string,
+
+    [key: string]: any,
+}
+
+/**
+ * 协同编辑的数据通道，负责在多个客户端之间同步 doc 和 awareness（光标、在线用户等）
+ * y-websocket、y-webrtc 等 Yjs 的 provider 都可以直接作为 CollaborationProvider 使用
+ */
+export interface CollaborationProvider {
+    doc: Doc,
+    awareness: Awareness,
+    //是否已经从服务器同步了文档内容
+    synced?: boolean,
+    //需要触发 "status" 事件（参数为 {status: CollaborationStatus}）以及 "synced" 事件（参数为 synced: boolean）
+    on: (event: any, listener: (...args: any[]) => void) => void,
+    off?: (event: any, listener: (...args: any[]) => void) => void,
+    destroy: () => void,
+}
+
+export interface WebsocketProviderOptions {
+    url: string,
+    documentName: string,
+    token?: string,
+}
+
+/**
+ * 创建基于 y-websocket 协议的 provider，token 以 url 参数的方式发送给服务器
+ * @param options
+ */
+export const createWebsocketProvider = (options: WebsocketProviderOptions): CollaborationProvider => {
+    return new WebsocketProvider(options.url, options.documentName, new Doc(), {
+        params: options.token ? {token: options.token} : {},
+    });
+}
+
+const userColors = ["#958DF1", "#F98181", "#FBBC88", "#FAF594", "#70CFF8", "#94FADB", "#B9F18D", "#C3E2C2", "#EAECCC", "#AFC8AD"];
+
+export const randomUserColor = () => userColors[Math.floor(Math.random() * userColors.length)];
@@ -1,5 +1,6 @@
 import { InnerEditor } from "../core/AiEditor.ts";
 import { Agent, MemoryItem } from "../extensions/AgentZeroExt.ts";
+import { getAiErrorMessage } from "../util/getAiErrorMessage.ts";
 
 // Custom type for agent status
 type AgentStatus = "error" | "idle" | "working" | "done";
@@ -912,6 +913,14 @@ export class AgentZeroPanel extends HTMLElement {
                         <div class="agent-status">${status}</div>
                     `;
                     
+                    // Show why the last task failed
+                    if (status === 'error' && agent.lastError) {
+                        const errorEl = document.createElement('div');
+                        errorEl.className = 'agent-error';
+                        errorEl.textContent = getAiErrorMessage(agent.lastError);
+                        agentItem.appendChild(errorEl);
+                    }
+                    
                     agentItem.addEventListener('click', () => {
                         this.selectAgent(agentId);
                     });
@@ -1127,6 +1136,7 @@ export class AgentZeroPanel extends HTMLElement {
                 
                 .agent-item {
                     display: flex;
+                    flex-wrap: wrap;
                     justify-content: space-between;
                     padding: 8px;
                     border-radius: 4px;
@@ -1157,6 +1167,13 @@ export class AgentZeroPanel extends HTMLElement {
                     border-left: 3px solid #d73a49;
                 }
                 
+                .agent-error {
+                    width: 100%;
+                    margin-top: 4px;
+                    font-size: 12px;
+                    color: #d73a49;
+                }
+                
                 .memory-item, .history-item {
                     padding: 8px;
                     border-radius: 4px;
@@ -2001,6 +2018,13 @@ function greet(name) {
         }
     }
     
+    /**
+     * Re-read the agents from the extension, e.g. after a task has finished or failed
+     */
+    public refreshAgents() {
+        this.syncAgentsFromExtension();
+    }
+    
     public ensureVisibilityInFullscreen() {
         const panel = this.shadow.querySelector('.agent-zero-panel') as HTMLElement;
         if (panel) {
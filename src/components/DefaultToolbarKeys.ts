@@ -1,7 +1,7 @@
 export const defaultToolbarKeys = ["file-upload", "file-save", "file-load", "divider", "clear-page", "divider", "undo", "redo", "brush", "eraser", "divider", "heading", "font-family", "font-size", "divider", "bold", "italic", "underline"
     , "strike", "link", "code", "subscript", "superscript", "hr", "todo", "emoji", "divider", "highlight", "font-color", "divider"
-    , "align", "line-height", "divider", "bullet-list", "ordered-list", "indent-decrease", "indent-increase", "break", "divider"
-    , "image", "video", "attachment", "quote", "container", "code-block", "table", "divider", "source-code", "printer", "fullscreen", "divider"
+    , "align", "line-height", "divider", "bullet-list", "ordered-list", "indent-decrease", "indent-increase", "break", "page-break", "divider"
+    , "image", "video", "attachment", "quote", "container", "code-block", "table", "divider", "suggestion", "suggestion-panel", "comment", "divider", "source-code", "printer", "fullscreen", "divider"
     , "smart-auto-correct", "smart-paper-fill", "divider", "ai", "divider", "ai-model-manager", "divider", "ai-provider-selector", "model-selector", "divider", "api-key-manager"
 ];
 
@@ -1,6 +1,7 @@
 import { EditorEvents } from "@tiptap/core";
+import { CollaborationUser } from "../collaboration/CollaborationProvider.ts";
 import { defineCustomElement } from "../commons/defineCustomElement.ts";
-import { AiEditorEventListener, AiEditorOptions } from "../core/AiEditor.ts";
+import { AiEditorEvent, AiEditorEventListener, AiEditorOptions } from "../core/AiEditor.ts";
 import { initToolbarKeys } from "../util/initToolbarKeys.ts";
 import { AbstractMenuButton } from "./AbstractMenuButton.ts";
 import { defaultToolbarKeys } from "./DefaultToolbarKeys.ts";
@@ -37,12 +38,16 @@ import { Link } from "./menus/Link";
 import { LocalDocsMenu } from "./menus/LocalDocsMenu.ts";
 import { ModelSelector } from "./menus/ModelSelector.ts";
 import { OrderedList } from "./menus/OrderedList";
+import { PageBreak } from "./menus/PageBreak.ts";
 import { Painter } from "./menus/Painter";
 import { Printer } from "./menus/Printer";
 import { Quote } from "./menus/Quote";
 import { Redo } from "./menus/Redo";
 import { SourceCode } from "./menus/SourceCode";
 import { Strike } from "./menus/Strike";
+import { Suggestion } from "./menus/Suggestion.ts";
+import { SuggestionPanel } from "./menus/SuggestionPanel.ts";
+import { CommentPanel } from "./menus/CommentPanel.ts";
 import { Subscript } from "./menus/Subscript";
 import { Superscript } from "./menus/Superscript";
 import { Table } from "./menus/Table";
@@ -86,6 +91,7 @@ defineCustomElement('aie-code-block', CodeBlock);
 defineCustomElement('aie-hr', Hr);
 defineCustomElement('aie-table', Table);
 defineCustomElement('aie-break', Break);
+defineCustomElement('aie-page-break', PageBreak);
 defineCustomElement('aie-attachment', Attachment);
 defineCustomElement('aie-fullscreen', Fullscreen);
 defineCustomElement('aie-printer', Printer);
@@ -97,6 +103,9 @@ defineCustomElement('aie-model-selector', ModelSelector);
 defineCustomElement('aie-api-key-manager', ApiKeyManager);
 defineCustomElement('aie-file-upload', FileUpload);
 defineCustomElement('aie-local-docs-menu', LocalDocsMenu);
+defineCustomElement('aie-suggestion', Suggestion);
+defineCustomElement('aie-suggestion-panel', SuggestionPanel);
+defineCustomElement('aie-comment', CommentPanel);
 
 export type MenuButtonOptions = {
     key: string,
@@ -152,6 +161,36 @@ export class Header extends HTMLElement implements AiEditorEventListener {
         }
     }
 
+    onEvent(event: AiEditorEvent) {
+        if (event.type === "collaboration-users") {
+            this.renderCollaborationUsers(event.value);
+        }
+    }
+
+    /**
+     * 在工具栏的右侧显示协同编辑的在线用户
+     */
+    protected renderCollaborationUsers(users: CollaborationUser[]) {
+        const toolbar = this.firstElementChild;
+        if (!toolbar) return;
+        let usersEl = toolbar.querySelector<HTMLDivElement>(".aie-collaboration-users");
+        if (!usersEl) {
+            usersEl = document.createElement("div");
+            usersEl.classList.add("aie-collaboration-users");
+            toolbar.appendChild(usersEl);
+        }
+        usersEl.innerHTML = "";
+        for (let user of users) {
+            const avatar = document.createElement("span");
+            avatar.classList.add("aie-collaboration-user");
+            avatar.style.background = user.color;
+            // 用户名由其他客户端提供，不能作为 html 插入
+            avatar.textContent = (user.name || "?").substring(0, 1).toUpperCase();
+            avatar.title = user.name || "";
+            usersEl.appendChild(avatar);
+        }
+    }
+
     onEditableChange(editable: boolean) {
         for (let menuButton of this.menuButtons) {
             if (menuButton && typeof menuButton.onEditableChange === 'function') {
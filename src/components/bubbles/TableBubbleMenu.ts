@@ -1,8 +1,10 @@
 import {AbstractBubbleMenu} from "../AbstractBubbleMenu.ts";
-import {Editor, EditorEvents} from "@tiptap/core";
+import {Editor, EditorEvents, findParentNode} from "@tiptap/core";
 import {CellSelection, TableMap} from '@tiptap/pm/tables';
 import {EditorView} from "@tiptap/pm/view";
 import {AiEditorOptions} from "../../core/AiEditor.ts";
+import {downloadBlob} from "../../util/downloadBlob.ts";
+import {exportTableToCsv, exportTableToXlsx} from "../../util/spreadsheet.ts";
 
 export class TableBubbleMenu extends AbstractBubbleMenu {
     constructor() {
@@ -88,6 +90,22 @@ export class TableBubbleMenu extends AbstractBubbleMenu {
                     editor?.chain().focus().splitCell().run()
                 }
             },
+            {
+                id: "export-csv",
+                title: "export-table-csv",
+                icon: "<svg xmlns=\"http://www.w3.org/2000/svg\" viewBox=\"0 0 24 24\"><path fill=\"none\" d=\"M0 0h24v24H0z\"></path><path d=\"M21 8V20.9932C21 21.5501 20.5552 22 20.0066 22H3.9934C3.44495 22 3 21.556 3 21.0082V2.9918C3 2.45531 3.4487 2 4.00221 2H14.9968L21 8ZM19 9H14V4H5V20H19V9ZM8 7H11V9H8V7ZM8 11H16V13H8V11ZM8 15H16V17H8V15Z\"></path></svg>",
+                onClick: ({innerEditor: editor}) => {
+                    this.exportTable(editor!, "csv")
+                }
+            },
+            {
+                id: "export-xlsx",
+                title: "export-table-xlsx",
+                icon: "<svg xmlns=\"http://www.w3.org/2000/svg\" viewBox=\"0 0 24 24\"><path fill=\"none\" d=\"M0 0h24v24H0z\"></path><path d=\"M2.85858 2.87732L15.4293 1.0815C15.7027 1.04245 15.9559 1.2324 15.995 1.50577C15.9983 1.52919 16 1.55282 16 1.57648V22.4235C16 22.6996 15.7761 22.9235 15.5 22.9235C15.4763 22.9235 15.4527 22.9218 15.4293 22.9184L2.85858 21.1226C2.36593 21.0522 2 20.6303 2 20.1327V3.86727C2 3.36962 2.36593 2.9477 2.85858 2.87732ZM4 4.73457V19.2654L14 20.694V3.30599L4 4.73457ZM17 19H20V5H17V3H21C21.5523 3 22 3.44772 22 4V20C22 20.5523 21.5523 21 21 21H17V19ZM10.2 12L13 16H10.6L9 13.7143L7.4 16H5L7.8 12L5 8H7.4L9 10.2857L10.6 8H13L10.2 12Z\"></path></svg>",
+                onClick: ({innerEditor: editor}) => {
+                    this.exportTable(editor!, "xlsx")
+                }
+            },
             {
                 id: "delete",
                 title: "delete-table",
@@ -117,7 +135,7 @@ export class TableBubbleMenu extends AbstractBubbleMenu {
         const {state: {selection}, view} = editor;
         if (selection instanceof CellSelection) {
             if (this.isAllTableSelected(selection)) {
-                this.showItems(["delete"])
+                this.showItems(["export-csv", "export-xlsx", "delete"])
             } else if (this.isOneCellSelected(selection)) {
                 const showIds = ["insert-column-left", "insert-column-right", "delete-column", "insert-row-top", "insert-row-bottom", "delete-row"];
                 if (editor.can().splitCell()) {
@@ -139,10 +157,27 @@ export class TableBubbleMenu extends AbstractBubbleMenu {
                 this.showItems(["merge-cells-horizontal"])
             }
         } else {
-            this.showItems(["insert-column-left", "insert-column-right", "delete-column", "insert-row-top", "insert-row-bottom", "delete-row"])
+            this.showItems(["insert-column-left", "insert-column-right", "delete-column", "insert-row-top", "insert-row-bottom", "delete-row", "export-csv", "export-xlsx"])
         }
     }
 
+    /**
+     * 把光标所在的表格下载为 CSV 或者 Excel 文件，合并的单元格在 Excel 中保持合并
+     */
+    exportTable(editor: Editor, format: "csv" | "xlsx") {
+        const {selection} = editor.state;
+        const table = selection instanceof CellSelection ? selection.$anchorCell.node(-1)
+            : findParentNode(node => node.type.name === "table")(selection)?.node;
+        if (!table) return;
+
+        const date = new Date().toISOString().split("T")[0];
+        if (format === "csv") {
+            // BOM 让 Excel 以 UTF-8 打开中文内容
+            downloadBlob(new Blob(["\uFEFF" + exportTableToCsv(table.toJSON())], {type: "text/csv;charset=utf-8"}), `table-${date}.csv`);
+        } else {
+            downloadBlob(exportTableToXlsx(table.toJSON()), `table-${date}.xlsx`);
+        }
+    }
 
     showItems(ids: string[]) {
         this.querySelectorAll(".aie-bubble-menu-item").forEach((el) => {
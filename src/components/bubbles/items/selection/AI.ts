@@ -1,12 +1,16 @@
 import { TextSelection } from "@tiptap/pm/state";
 import { t } from "i18next";
 import tippy, { Instance } from "tippy.js";
+import { AiConversationManager } from "../../../../ai/AiConversationManager.ts";
+import { createAskDocumentsPrompt } from "../../../../ai/documents/AskDocumentsService.ts";
 import { AiModelManager } from "../../../../ai/AiModelManager.ts";
 import { AiClient } from "../../../../ai/core/AiClient.ts";
 import { Svgs } from "../../../../commons/Svgs.ts";
 import { InnerEditor } from "../../../../core/AiEditor.ts";
 import { SmoothAppender } from "../../../../util/SmoothAppender.ts";
+import { getAiErrorMessage } from "../../../../util/getAiErrorMessage.ts";
 import { getAIBoundingClientRect } from "../../../../util/getAIBoundingClientRect.ts";
+import { uuid } from "../../../../util/uuid.ts";
 import { AIBubbleMenuItem, BubbleMenuItem } from "../../types.ts";
 
 
@@ -14,16 +18,29 @@ type Holder = {
     editor?: InnerEditor,
     aiPanelInstance?: Instance,
     tippyInstance?: Instance,
-    aiClient?: AiClient
+    aiClient?: AiClient,
+    conversationId?: string,
+    systemPrompt?: string,
+    tools?: string[],
+    //正在检索本地文档，检索完成后才开始对话
+    retrieving?: boolean,
 }
 
 // Available AI providers
 const aiProviders = [
     { id: "openrouter", name: "OpenRouter" },
     { id: "spark", name: "Spark" },
-    { id: "openai", name: "OpenAI" }
+    { id: "openai", name: "OpenAI" },
+    { id: "anthropic", name: "Anthropic" },
+    { id: "local", name: "Local" }
 ];
 
+// Function to get the display name of a provider
+const getProviderDisplayName = (providerId: string) => {
+    const provider = aiProviders.find(p => p.id === providerId);
+    return provider ? provider.name : providerId.charAt(0).toUpperCase() + providerId.slice(1);
+};
+
 // Function to get active provider display name
 const getActiveProviderName = (editor: InnerEditor) => {
     const currentModelProvider = editor?.aiEditor?.options?.ai?.bubblePanelModel || "auto";
@@ -32,8 +49,7 @@ const getActiveProviderName = (editor: InnerEditor) => {
         return "Auto";
     }
     
-    const provider = aiProviders.find(p => p.id === currentModelProvider);
-    return provider ? provider.name : currentModelProvider.charAt(0).toUpperCase() + currentModelProvider.slice(1);
+    return getProviderDisplayName(currentModelProvider);
 };
 
 // Function to get model name if available
@@ -86,17 +102,47 @@ export const defaultAiPanelMenus = [
     },
 ] as AIBubbleMenuItem[]
 
-const startChat = (holder: Holder, container: HTMLDivElement, prompt: string) => {
+const startChat = async (holder: Holder, container: HTMLDivElement, prompt: string, askDocuments: boolean = false) => {
     if (holder.aiClient) {
         holder.aiClient.stop();
-    } else {
+    } else if (!holder.retrieving) {
         const textarea = container.querySelector("textarea")!;
         textarea.value = "";
+        const messageEl = container.querySelector<HTMLElement>(".aie-ai-panel-body-message")!;
+        messageEl.style.display = "none";
+        const sourcesEl = container.querySelector<HTMLElement>(".aie-ai-panel-body-sources")!;
+        sourcesEl.style.display = "none";
+        const conversation = AiConversationManager.get(holder.conversationId!);
         const {selection, doc} = holder.editor!.state
-        const selectedText = doc.textBetween(selection.from, selection.to);
+        // 追问时选中的内容已经在会话历史中，无需重复发送
+        const selectedText = conversation.isEmpty() ? doc.textBetween(selection.from, selection.to) : "";
         const options = holder.editor!.aiEditor.options;
         const aiModel = AiModelManager.get(options.ai?.bubblePanelModel!);
         if (aiModel) {
+            if (askDocuments) {
+                // 先从本地文档中检索相关片段，再把问题连同片段一起发送给大模型
+                container.querySelector<HTMLElement>(".aie-ai-panel-body-content")!.style.display = "block";
+                container.querySelector<HTMLElement>(".loader")!.style.display = "block";
+                holder.retrieving = true;
+                try {
+                    const result = await createAskDocumentsPrompt(holder.editor!.aiEditor, prompt || selectedText);
+                    prompt = result.prompt;
+                    if (result.sources.length) {
+                        sourcesEl.textContent = `${t("ai-ask-documents-sources")}${result.sources.map(source => source.title).join(", ")}`;
+                    } else {
+                        sourcesEl.textContent = t("ai-ask-documents-no-sources");
+                    }
+                    sourcesEl.style.display = "block";
+                } catch (error) {
+                    console.error("Can not retrieve the local documents.", error);
+                    container.querySelector<HTMLElement>(".loader")!.style.display = "none";
+                    messageEl.innerText = t("ai-ask-documents-error");
+                    messageEl.style.display = "block";
+                    return;
+                } finally {
+                    holder.retrieving = false;
+                }
+            }
             const smoothAppender = new SmoothAppender(30, textarea)
             aiModel.chat(selectedText, prompt, {
                 onStart(aiClient) {
@@ -116,8 +162,22 @@ const startChat = (holder: Holder, container: HTMLDivElement, prompt: string) =>
                 },
                 onMessage(message) {
                     smoothAppender.appendText(message.content);
+                },
+                onError(error) {
+                    messageEl.style.display = "block";
+                    if (error.fallbackModel) {
+                        // 显示最终回答的模型
+                        const nameEl = container.querySelector(".aie-ai-provider-name");
+                        if (nameEl) nameEl.innerHTML = getProviderDisplayName(error.fallbackModel);
+                        messageEl.innerText = t("ai-fallback-tip", {model: error.model, fallbackModel: error.fallbackModel});
+                    } else {
+                        messageEl.innerText = getAiErrorMessage(error);
+                        // 与 DefaultAiMessageListener 一致，最终失败时通知用户配置的 onError
+                        options.ai?.onError?.(error.model || "", error);
+                    }
                 }
-            })
+            }, {conversation, systemPrompt: holder.systemPrompt, tools: holder.tools || options.ai?.bubblePanelTools})
+            container.querySelector<HTMLInputElement>("#prompt")!.value = "";
         } else {
             console.error("AI model name config error. can not get AI model by name: \"" + options.ai?.bubblePanelModel + "\", please check config \"options.ai.bubblePanelModel\"")
         }
@@ -136,9 +196,10 @@ const createAiPanelElement = (holder: Holder, aiBubbleMenuItems: AIBubbleMenuIte
             ${providerSelectorHtml}
         </div>
         <div class="aie-ai-panel-body">
-            <div class="aie-ai-panel-body-content" style="display: none"><div class="loader">${Svgs.refresh}</div><textarea readonly></textarea></div>
+            <div class="aie-ai-panel-body-content" style="display: none"><div class="loader">${Svgs.refresh}</div><div class="aie-ai-panel-body-message" style="display: none"></div><textarea readonly></textarea><div class="aie-ai-panel-body-sources" style="display: none"></div></div>
             <div class="aie-ai-panel-body-input"><input id="prompt" placeholder="${t('placeholder-tell-ai-what-to-do-next')}" type="text" />
             <button type="button" id="go" style="width: 30px;height: 30px">${Svgs.aiPanelStart}</button></div>
+            <label class="aie-ai-panel-body-ask-documents"><input id="ask-documents" type="checkbox" /> ${t("ai-ask-documents")}</label>
             <div class="aie-ai-panel-body-tips"><svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24"><path d="M9 17C9 17 16 18 19 21H20C20.5523 21 21 20.5523 21 20V13.937C21.8626 13.715 22.5 12.9319 22.5 12C22.5 11.0681 21.8626 10.285 21 10.063V4C21 3.44772 20.5523 3 20 3H19C16 6 9 7 9 7H5C3.89543 7 3 7.89543 3 9V15C3 16.1046 3.89543 17 5 17H6L7 22H9V17ZM11 8.6612C11.6833 8.5146 12.5275 8.31193 13.4393 8.04373C15.1175 7.55014 17.25 6.77262 19 5.57458V18.4254C17.25 17.2274 15.1175 16.4499 13.4393 15.9563C12.5275 15.6881 11.6833 15.4854 11 15.3388V8.6612ZM5 9H9V15H5V9Z" fill="currentColor"></path></svg>
             ${t("tip-you-can-enter-text-above-or-select-the-operation-below")}</div>
         </div>
@@ -146,6 +207,8 @@ const createAiPanelElement = (holder: Holder, aiBubbleMenuItems: AIBubbleMenuIte
         <div class="aie-ai-panel-footer-tips">${t("you-can-do-the-following")}</div>
         <p id="insert"><svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24"><path d="M2 18H12V20H2V18ZM2 11H22V13H2V11ZM2 4H22V6H2V4ZM18 18V15H20V18H23V20H20V23H18V20H15V18H18Z" fill="currentColor"></path></svg> 
         ${t("ai-append")}</p>
+        <p id="review"><svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24"><path d="M5 3H19C19.5523 3 20 3.44772 20 4V20C20 20.5523 19.5523 21 19 21H5C4.44772 21 4 20.5523 4 20V4C4 3.44772 4.44772 3 5 3ZM6 5V19H18V5H6ZM8 7H16V9H8V7ZM8 11H16V13H8V11ZM8 15H13V17H8V15Z" fill="currentColor"></path></svg> 
+        ${t("ai-review")}</p>
         <p id="replace"><svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24"><path d="M10.071 4.92902L11.4852 6.34323L6.82834 11.0001L16.0002 11.0002L16.0002 13.0002L6.82839 13.0001L11.4852 17.6569L10.071 19.0712L2.99994 12.0001L10.071 4.92902ZM18.0001 19V5.00003H20.0001V19H18.0001Z" fill="currentColor"></path></svg> 
         ${t("ai-replace")}</p>
         <hr/>
@@ -156,9 +219,9 @@ const createAiPanelElement = (holder: Holder, aiBubbleMenuItems: AIBubbleMenuIte
         <!--aie-ai-panel-actions-->
         <div class="aie-ai-panel-footer aie-ai-panel-actions" >
         <div class="aie-ai-panel-footer-tips">${t("you-can-do-the-following")}</div>
-        ${aiBubbleMenuItems.map((menuItem) => {
+        ${aiBubbleMenuItems.map((menuItem, index) => {
         return typeof menuItem === "string" ? menuItem :
-            `<p data-prompt="${menuItem.prompt}">${menuItem.icon} ${t(menuItem.title)} </p>`;
+            `<p data-index="${index}">${menuItem.icon} ${t(menuItem.title)} </p>`;
     }).join('')}
         </div>
         `;
@@ -177,6 +240,18 @@ const createAiPanelElement = (holder: Holder, aiBubbleMenuItems: AIBubbleMenuIte
         }
     });
 
+    container.querySelector("#review")!.addEventListener("click", () => {
+        const textarea = container.querySelector("textarea")!;
+        if (textarea.value) {
+            // AI 返回的是 markdown，修订模式下只比较纯文本内容
+            const {selection} = holder.editor!.state;
+            const content = holder.editor!.parseMarkdown(textarea.value);
+            const text = content.textBetween(0, content.size, "\n");
+            holder.editor?.commands.showAiDiff({from: selection.from, to: selection.to, text});
+            holder.aiPanelInstance?.hide();
+        }
+    });
+
     container.querySelector("#insert")!.addEventListener("click", () => {
         const textarea = container.querySelector("textarea")!;
         if (textarea.value) {
@@ -202,13 +277,22 @@ const createAiPanelElement = (holder: Holder, aiBubbleMenuItems: AIBubbleMenuIte
 
     container.querySelector("#go")!.addEventListener("click", () => {
         const prompt = (container.querySelector("#prompt") as HTMLInputElement).value
-        startChat(holder, container, prompt);
+        const askDocuments = (container.querySelector("#ask-documents") as HTMLInputElement).checked;
+        startChat(holder, container, prompt, askDocuments);
+    });
+
+    container.querySelector("#ask-documents")!.addEventListener("change", (e) => {
+        const checked = (e.target as HTMLInputElement).checked;
+        container.querySelector<HTMLInputElement>("#prompt")!.placeholder = checked
+            ? t("placeholder-ask-documents") : t("placeholder-tell-ai-what-to-do-next");
     });
 
-    container.querySelectorAll(".aie-ai-panel-actions p").forEach((element) => {
-        const prompt = element.getAttribute("data-prompt")!;
+    container.querySelectorAll(".aie-ai-panel-actions p[data-index]").forEach((element) => {
+        const menuItem = aiBubbleMenuItems[Number(element.getAttribute("data-index"))] as Exclude<AIBubbleMenuItem, string>;
         element.addEventListener("click", () => {
-            startChat(holder, container, prompt);
+            holder.systemPrompt = menuItem.systemPrompt;
+            holder.tools = menuItem.tools;
+            startChat(holder, container, menuItem.prompt);
         })
     })
 
@@ -342,9 +426,7 @@ const setupProviderSelectionHandlers = (container: HTMLDivElement, holder: Holde
                 if (currentEl) {
                     const nameEl = currentEl.querySelector('.aie-ai-provider-name');
                     if (nameEl) {
-                        const providerName = providerId === 'auto' ? 'Auto' : 
-                            aiProviders.find(p => p.id === providerId)?.name || 
-                            providerId.charAt(0).toUpperCase() + providerId.slice(1);
+                        const providerName = providerId === 'auto' ? 'Auto' : getProviderDisplayName(providerId);
                         
                         nameEl.innerHTML = providerName;
                     }
@@ -381,7 +463,7 @@ export const AI = {
                  </div>
                 `,
     onInit: ({innerEditor}, tippyInstance, parentEle) => {
-        const holder: Holder = {editor: innerEditor, tippyInstance};
+        const holder: Holder = {editor: innerEditor, tippyInstance, conversationId: `aie-ai-panel-${uuid()}`};
         const aiPanelMenus = innerEditor.aiEditor.options.ai?.bubblePanelMenus || defaultAiPanelMenus;
         holder.aiPanelInstance = tippy(parentEle.querySelector("#ai")!, {
             content: createAiPanelElement(holder, aiPanelMenus),
@@ -392,6 +474,10 @@ export const AI = {
             placement: 'bottom',
             getReferenceClientRect: () => getAIBoundingClientRect(innerEditor),
             onShow: (_) => {
+                // 每次打开面板都开始一个新的会话
+                AiConversationManager.remove(holder.conversationId!);
+                holder.systemPrompt = undefined;
+                holder.tools = undefined;
                 window.setTimeout(() => _.popper.querySelector<HTMLInputElement>("#prompt")?.focus(), 0);
             }
         })
@@ -6,6 +6,7 @@ import {AiClient} from "../../../../ai/core/AiClient.ts";
 import tippy, {Instance} from "tippy.js";
 import {SmoothAppender} from "../../../../util/SmoothAppender.ts";
 import {TextSelection} from "@tiptap/pm/state";
+import {getAiErrorMessage} from "../../../../util/getAiErrorMessage.ts";
 
 
 type Holder = {
@@ -37,6 +38,8 @@ const startChat = (holder: Holder, lang: string, textarea: HTMLTextAreaElement)
             || `你是一个${lang}翻译专家，精通多个国家的语言，请帮我把以下 <content> 标签里内容翻译为: ${lang}，并返回翻译后结果。您需要翻译的内容是：\n<content>${selectedText}</content>`;
         const aiModel = AiModelManager.get("auto");
         if (aiModel) {
+            const messageEl = textarea.parentElement!.querySelector<HTMLElement>(".aie-translate-result-message")!;
+            messageEl.style.display = "none";
             const smoothAppender = new SmoothAppender(30, textarea)
             aiModel.chat("", prompt, {
                 onStart(aiClient) {
@@ -48,6 +51,14 @@ const startChat = (holder: Holder, lang: string, textarea: HTMLTextAreaElement)
                 },
                 onMessage(message) {
                     smoothAppender.appendText(message.content);
+                },
+                onError(error) {
+                    // 切换到其他模型时继续输出翻译结果，无需提示
+                    if (!error.fallbackModel) {
+                        messageEl.innerText = getAiErrorMessage(error);
+                        messageEl.style.display = "block";
+                        holder.editor?.aiEditor.options.ai?.onError?.(error.model || "", error);
+                    }
                 }
             })
         } else {
@@ -61,6 +72,7 @@ const createTranslateResultPanel = (holder: Holder) => {
     resultPanel.classList.add("aie-translate-result-panel")
     resultPanel.innerHTML = `
     <textarea rows="5" readonly></textarea>
+    <div class="aie-translate-result-message" style="display: none"></div>
     <div>
      <button type="button" id="cancel"><svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24"><path d="M17 6H22V8H20V21C20 21.5523 19.5523 22 19 22H5C4.44772 22 4 21.5523 4 21V8H2V6H7V3C7 2.44772 7.44772 2 8 2H16C16.5523 2 17 2.44772 17 3V6ZM18 8H6V20H18V8ZM9 4V6H15V4H9Z" fill="currentColor"></path></svg> 
         ${t("ai-cancel")}</button>
@@ -13,6 +13,8 @@ export type BubbleMenuItem = {
 
 export type AIBubbleMenuItem = {
     prompt: string,
+    systemPrompt?: string,
+    tools?: string[],
     icon: string,
     title: string,
 } | string;
@@ -41,6 +41,8 @@ interface AiMenuItem {
     icon: string;
     name: string;
     prompt?: string;
+    systemPrompt?: string;
+    tools?: string[];
     text?: "selected" | "focusBefore";
     model?: string;
     onClick?: (event: MouseEvent, editor: Editor) => void;
@@ -219,7 +221,7 @@ export class Ai extends AbstractDropdownMenuButton<AiMenuItem> {
         if (this.editor) {
             const aiListener = new DefaultAiMessageListener(this.editor);
             const model = AiModelManager.get(modelName || "openrouter");
-            model?.chat(templateContent, prompt, aiListener);
+            model?.chat(templateContent, prompt, aiListener, {systemPrompt: aiMenu.systemPrompt, tools: aiMenu.tools});
         }
     }
 
@@ -114,6 +114,8 @@ export class AiModelManagerButton extends AbstractDropdownMenuButton<ProviderMod
                 this.addWenxinModels(providerId, providerName);
             } else if (providerId === 'gitee') {
                 this.addGiteeModels(providerId, providerName);
+            } else if (providerId === 'anthropic') {
+                this.addAnthropicModels(providerId, providerName);
             }
             
             // Add any custom models defined in the configuration
@@ -278,6 +280,27 @@ export class AiModelManagerButton extends AbstractDropdownMenuButton<ProviderMod
         });
     }
 
+    /**
+     * Add Anthropic models
+     */
+    private addAnthropicModels(providerId: string, providerName: string): void {
+        const anthropicModels = [
+            { id: 'claude-3-5-sonnet-latest', name: 'Claude 3.5 Sonnet', description: 'Balanced Claude model' },
+            { id: 'claude-3-5-haiku-latest', name: 'Claude 3.5 Haiku', description: 'Fast, efficient Claude model' },
+            { id: 'claude-3-opus-latest', name: 'Claude 3 Opus', description: 'Anthropic\'s most powerful model' }
+        ];
+        
+        anthropicModels.forEach(model => {
+            this.allModels.push({
+                providerId,
+                providerName,
+                modelId: model.id,
+                modelName: model.name,
+                description: model.description
+            });
+        });
+    }
+
     /**
      * Get a display name for a provider
      */
@@ -288,6 +311,8 @@ export class AiModelManagerButton extends AbstractDropdownMenuButton<ProviderMod
             'spark': 'Spark',
             'wenxin': 'Wenxin',
             'gitee': 'Gitee',
+            'anthropic': 'Anthropic',
+            'local': 'Local',
             'custom': 'Custom'
         };
         
@@ -413,7 +438,7 @@ export class AiModelManagerButton extends AbstractDropdownMenuButton<ProviderMod
         providerConfig.modelId = selectedModel.modelId;
         
         // Also update provider-specific fields for backward compatibility
-        if (selectedModel.providerId === 'openai' || selectedModel.providerId === 'openrouter' || selectedModel.providerId === 'gitee') {
+        if (selectedModel.providerId === 'openai' || selectedModel.providerId === 'openrouter' || selectedModel.providerId === 'gitee' || selectedModel.providerId === 'anthropic' || selectedModel.providerId === 'local') {
             providerConfig.model = selectedModel.modelId;
         } else if (selectedModel.providerId === 'spark') {
             providerConfig.version = selectedModel.modelId;
@@ -431,7 +456,7 @@ export class AiModelManagerButton extends AbstractDropdownMenuButton<ProviderMod
             model.aiModelConfig.modelId = selectedModel.modelId;
             
             // Also update provider-specific fields
-            if (selectedModel.providerId === 'openai' || selectedModel.providerId === 'openrouter' || selectedModel.providerId === 'gitee') {
+            if (selectedModel.providerId === 'openai' || selectedModel.providerId === 'openrouter' || selectedModel.providerId === 'gitee' || selectedModel.providerId === 'anthropic' || selectedModel.providerId === 'local') {
                 model.aiModelConfig.model = selectedModel.modelId;
             } else if (selectedModel.providerId === 'spark') {
                 model.aiModelConfig.version = selectedModel.modelId;
@@ -21,6 +21,8 @@ export class AiProviderSelector extends AbstractDropdownMenuButton<AIProvider> {
         { id: "openrouter", name: "OpenRouter", description: "Advanced models from various providers" },
         { id: "spark", name: "Spark", description: "IFLYTEK Spark models" },
         { id: "openai", name: "OpenAI", description: "OpenAI models" },
+        { id: "anthropic", name: "Anthropic", description: "Anthropic Claude models" },
+        { id: "local", name: "Local", description: "Ollama / llama.cpp models on your own server" },
         { id: "auto", name: "Auto", description: "Automatically choose the best available model" }
     ];
 
@@ -1,5 +1,7 @@
 import { Editor, EditorEvents } from "@tiptap/core";
 import { AiModelManager } from "../../ai/AiModelManager";
+import { AnthropicModelConfig } from "../../ai/anthropic/AnthropicModelConfig";
+import { LocalModelConfig } from "../../ai/local/LocalModelConfig";
 import { AiEditorOptions } from "../../core/AiEditor";
 import { AbstractMenuButton } from "../AbstractMenuButton";
 
@@ -230,6 +232,20 @@ export class ApiKeyManager extends AbstractMenuButton {
                     this.createInputField(modelGroup, 'apiKey', 'API Key', 'Enter your OpenRouter API key', modelConfig.apiKey || '');
                     this.createInputField(modelGroup, 'model', 'Model', 'Model identifier', modelConfig.model || '');
                     break;
+                case 'anthropic': {
+                    const anthropicConfig = modelConfig as AnthropicModelConfig;
+                    this.createInputField(modelGroup, 'apiKey', 'API Key', 'Enter your Anthropic API key', anthropicConfig.apiKey || '');
+                    this.createInputField(modelGroup, 'endpoint', 'Endpoint', 'API endpoint (default: https://api.anthropic.com)', anthropicConfig.endpoint || '');
+                    this.createInputField(modelGroup, 'model', 'Model', 'Model name (e.g. claude-3-5-sonnet-latest)', anthropicConfig.model || '');
+                    break;
+                }
+                case 'local': {
+                    const localConfig = modelConfig as LocalModelConfig;
+                    this.createInputField(modelGroup, 'endpoint', 'Endpoint', 'Server address (default: http://localhost:11434)', localConfig.endpoint || '');
+                    this.createInputField(modelGroup, 'model', 'Model', 'Model name (e.g. llama3.1:8b)', localConfig.model || '');
+                    this.createInputField(modelGroup, 'apiKey', 'API Key', 'Only needed by llama.cpp server started with --api-key', localConfig.apiKey || '');
+                    break;
+                }
                 case 'spark':
                     this.createInputField(modelGroup, 'appId', 'App ID', 'Enter your IFLYTEK App ID', modelConfig.appId || '');
                     this.createInputField(modelGroup, 'apiKey', 'API Key', 'Enter your IFLYTEK API key', modelConfig.apiKey || '');
@@ -277,6 +293,8 @@ export class ApiKeyManager extends AbstractMenuButton {
             'spark': 'IFLYTEK Spark',
             'wenxin': 'Baidu WenXin',
             'gitee': 'Gitee',
+            'anthropic': 'Anthropic',
+            'local': 'Local Model',
             'custom': 'Custom API'
         };
         
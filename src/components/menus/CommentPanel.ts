@@ -0,0 +1,209 @@
+import {Editor, EditorEvents} from "@tiptap/core";
+import {t} from "i18next";
+import {AiReviewService} from "../../ai/review/AiReviewService.ts";
+import {getCommentThreads} from "../../extensions/CommentMarkExt.ts";
+import {AbstractMenuButton} from "../AbstractMenuButton.ts";
+
+/**
+ * 评论侧边栏，可以对选中的内容添加评论，以及回复、解决和删除评论
+ */
+export class CommentPanel extends AbstractMenuButton {
+    panel?: HTMLDivElement;
+    reviewService?: AiReviewService;
+    reviewProgress = "";
+    renderedSignature = "";
+
+    constructor() {
+        super();
+        this.template = `
+        <div>
+            <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="currentColor"><path d="M6.45455 19L2 22.5V4C2 3.44772 2.44772 3 3 3H21C21.5523 3 22 3.44772 22 4V18C22 18.5523 21.5523 19 21 19H6.45455ZM5.76282 17H20V5H4V18.3851L5.76282 17ZM11 10H13V12H11V10ZM7 10H9V12H7V10ZM15 10H17V12H15V10Z"></path></svg>
+        </div>
+        `;
+        this.addEventListener("click", () => this.toggle());
+    }
+
+    toggle() {
+        if (this.panel) {
+            this.panel.remove();
+            this.panel = undefined;
+            return;
+        }
+        const container = this.closest(".aie-container") || this.editor?.view.dom.closest(".aie-container");
+        if (!container) return;
+
+        this.panel = document.createElement("div");
+        this.panel.classList.add("aie-comment-panel");
+        this.panel.addEventListener("click", (e) => {
+            const target = (e.target as HTMLElement).closest<HTMLElement>("[data-action]");
+            if (!target || !this.editor) return;
+            const aiEditor = this.editor.aiEditor;
+            const item = target.closest<HTMLElement>("[data-id]");
+            const threadId = item?.getAttribute("data-id") || "";
+            switch (target.getAttribute("data-action")) {
+                case "add":
+                    const input = this.panel!.querySelector<HTMLTextAreaElement>(".aie-comment-panel-add textarea")!;
+                    const content = input.value.trim();
+                    if (!content) return;
+                    input.value = "";
+                    if (!aiEditor.addComment(content)) {
+                        input.value = content;
+                        alert(t("comment-no-selection"));
+                    }
+                    break;
+                case "reply":
+                    const reply = item!.querySelector<HTMLTextAreaElement>("textarea")!;
+                    const replyContent = reply.value.trim();
+                    if (!replyContent) return;
+                    reply.value = "";
+                    aiEditor.replyComment(threadId, replyContent);
+                    break;
+                case "resolve":
+                    aiEditor.resolveComment(threadId, true);
+                    break;
+                case "reopen":
+                    aiEditor.resolveComment(threadId, false);
+                    break;
+                case "delete":
+                    aiEditor.deleteComment(threadId, target.getAttribute("data-comment-id") || undefined);
+                    break;
+                case "ai-review":
+                    this.startAiReview();
+                    break;
+                case "ai-review-stop":
+                    this.reviewService?.stop();
+                    break;
+                case "close":
+                    this.toggle();
+                    break;
+                case "focus":
+                    const pos = Number(target.getAttribute("data-pos"));
+                    this.editor.chain().focus(pos).scrollIntoView().run();
+                    break;
+            }
+        });
+        container.appendChild(this.panel);
+        this.renderPanel();
+    }
+
+    startAiReview() {
+        if (!this.editor || this.reviewService) return;
+        this.reviewService = new AiReviewService(this.editor.aiEditor);
+        this.reviewProgress = "";
+        this.renderPanel();
+        this.reviewService.review({
+            onProgress: (done, total) => {
+                this.reviewProgress = `${done}/${total}`;
+                this.renderPanel();
+            }
+        }).catch((error) => {
+            console.error(error);
+        }).finally(() => {
+            this.reviewService = undefined;
+            this.renderPanel();
+        });
+    }
+
+    renderPanel() {
+        if (!this.panel || !this.editor) return;
+        const threads = getCommentThreads(this.editor.state.doc);
+        // 文档的修改（包括协同编辑）没有改变评论时不重新渲染
+        const signature = JSON.stringify([threads, this.reviewService ? this.reviewProgress : null, !!this.reviewService]);
+        if (signature === this.renderedSignature && this.panel.hasChildNodes()) return;
+        this.renderedSignature = signature;
+
+        // 重新渲染时保留正在输入的评论和回复，以及输入框的焦点
+        const drafts = new Map<string, string>();
+        let focused: { key: string, start: number, end: number } | undefined;
+        this.panel.querySelectorAll<HTMLTextAreaElement>("textarea").forEach(textarea => {
+            const key = textarea.closest(".aie-comment-panel-item")?.getAttribute("data-id") || "";
+            if (textarea.value) drafts.set(key, textarea.value);
+            if (document.activeElement === textarea) {
+                focused = {key, start: textarea.selectionStart, end: textarea.selectionEnd};
+            }
+        });
+
+        this.panel.innerHTML = `
+        <div class="aie-comment-panel-header">
+            <span>${t("comment")} (${threads.length})</span>
+            <span class="aie-comment-panel-close" data-action="close">✕</span>
+        </div>
+        ${this.options?.ai ? `<div class="aie-comment-panel-review">${this.reviewService
+            ? `<span>${t("ai-review-running")} ${this.reviewProgress}</span><button type="button" data-action="ai-review-stop">${t("ai-review-stop")}</button>`
+            : `<button type="button" data-action="ai-review">${t("ai-review-document")}</button>`}</div>` : ""}
+        <div class="aie-comment-panel-add">
+            <textarea rows="2" placeholder="${t("comment-placeholder")}"></textarea>
+            <button type="button" data-action="add">${t("comment-add")}</button>
+        </div>
+        <div class="aie-comment-panel-body"></div>
+        `;
+        const body = this.panel.querySelector(".aie-comment-panel-body")!;
+        if (threads.length === 0) {
+            body.innerHTML = `<div class="aie-comment-panel-empty">${t("comment-empty")}</div>`;
+            this.restoreDrafts(drafts, focused);
+            return;
+        }
+        for (let thread of threads) {
+            const item = document.createElement("div");
+            item.classList.add("aie-comment-panel-item");
+            if (thread.resolved) item.classList.add("resolved");
+            item.setAttribute("data-id", thread.id);
+            item.innerHTML = `
+            <div class="aie-comment-panel-item-text" data-action="focus" data-pos="${thread.from}"></div>
+            <div class="aie-comment-panel-item-comments"></div>
+            <div class="aie-comment-panel-item-reply">
+                <textarea rows="1" placeholder="${t("comment-reply")}"></textarea>
+                <button type="button" data-action="reply">${t("comment-reply")}</button>
+            </div>
+            <div class="aie-comment-panel-item-actions">
+                <span data-action="${thread.resolved ? "reopen" : "resolve"}">${t(thread.resolved ? "comment-reopen" : "comment-resolve")}</span>
+                <span data-action="delete">${t("comment-delete")}</span>
+            </div>
+            `;
+            // 评论内容由用户输入，不能作为 html 插入
+            item.querySelector(".aie-comment-panel-item-text")!.textContent = thread.text;
+            const comments = item.querySelector(".aie-comment-panel-item-comments")!;
+            thread.comments.forEach((comment, index) => {
+                const div = document.createElement("div");
+                div.classList.add("aie-comment-panel-comment");
+                div.innerHTML = `
+                <div class="aie-comment-panel-comment-meta">
+                    <span class="aie-comment-panel-comment-author"></span>
+                    <span>${comment.time ? new Date(comment.time).toLocaleString() : ""}</span>
+                    ${index > 0 ? `<span data-action="delete">✕</span>` : ""}
+                </div>
+                <div class="aie-comment-panel-comment-content"></div>
+                `;
+                div.querySelector("[data-action=delete]")?.setAttribute("data-comment-id", comment.id);
+                div.querySelector(".aie-comment-panel-comment-author")!.textContent = comment.author;
+                div.querySelector(".aie-comment-panel-comment-content")!.textContent = comment.content;
+                comments.appendChild(div);
+            });
+            body.appendChild(item);
+        }
+        this.restoreDrafts(drafts, focused);
+    }
+
+    private restoreDrafts(drafts: Map<string, string>, focused?: { key: string, start: number, end: number }) {
+        this.panel!.querySelectorAll<HTMLTextAreaElement>("textarea").forEach(textarea => {
+            const key = textarea.closest(".aie-comment-panel-item")?.getAttribute("data-id") || "";
+            textarea.value = drafts.get(key) || "";
+            if (focused && focused.key === key) {
+                textarea.focus();
+                textarea.setSelectionRange(focused.start, focused.end);
+            }
+        });
+    }
+
+    onTransaction(event: EditorEvents["transaction"]): void {
+        super.onTransaction(event);
+        if (this.panel && event.transaction.docChanged) {
+            this.renderPanel();
+        }
+    }
+
+    onActive(_: Editor): boolean {
+        return !!this.panel;
+    }
+
+}
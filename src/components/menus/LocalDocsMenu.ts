@@ -1,16 +1,35 @@
 import { EditorEvents } from "@tiptap/core";
 import i18next from "i18next";
 import { AiEditor } from "../../core/AiEditor.ts";
-import { LocalDocsManager, LocalDocument } from "../../extensions/LocalDocsExt.ts";
+import { LocalDocsFolder, LocalDocsManager, LocalDocsSortBy, LocalDocument, LocalDocumentRevision, sortLocalDocuments } from "../../extensions/LocalDocsExt.ts";
+import { LocalDocsSearchSnippet } from "../../extensions/LocalDocsSearchIndex.ts";
+import { diffWords } from "../../util/textDiff.ts";
 import { AbstractDropdownMenuButton } from "../AbstractDropdownMenuButton.ts";
 
+// Data type of the documents and folders dragged in the list
+const DRAG_TYPE = 'application/x-aie-local-docs';
+
+type DragItem = { type: 'document' | 'folder', id: string };
+
 export class LocalDocsMenu extends AbstractDropdownMenuButton {
     editor: AiEditor;
     private manager: LocalDocsManager | null = null;
     private searchInput: HTMLInputElement | null = null;
+    private tagFilter: HTMLSelectElement | null = null;
+    private dateFilter: HTMLSelectElement | null = null;
+    private sortSelect: HTMLSelectElement | null = null;
+    private sortBy: LocalDocsSortBy = 'updated';
+    private folderPathEl: HTMLDivElement | null = null;
+    private currentFolderId: string | null = null;
+    private searchRequestId = 0;
     private documentListEl: HTMLDivElement | null = null;
     private emptyStateEl: HTMLDivElement | null = null;
     private currentDocTitle: HTMLInputElement | null = null;
+    private quotaEl: HTMLDivElement | null = null;
+    private mainViewEl: HTMLDivElement | null = null;
+    private historyEl: HTMLDivElement | null = null;
+    private historyDocId: string | null = null;
+    private selectedRevisionIds: string[] = [];
     
     constructor(editor: AiEditor) {
         super(editor, {
@@ -118,6 +137,92 @@ export class LocalDocsMenu extends AbstractDropdownMenuButton {
             searchContainer.appendChild(this.searchInput);
             searchContainer.appendChild(searchIconEl);
             
+            // Tag and date filters
+            const filterContainer = document.createElement('div');
+            filterContainer.className = 'aie-local-docs-filters';
+            filterContainer.style.display = 'flex';
+            filterContainer.style.gap = '6px';
+            
+            this.tagFilter = document.createElement('select');
+            this.tagFilter.className = 'aie-local-docs-tag-filter';
+            this.tagFilter.title = i18next.t('localDocs.tagFilter');
+            
+            this.dateFilter = document.createElement('select');
+            this.dateFilter.className = 'aie-local-docs-date-filter';
+            this.dateFilter.title = i18next.t('localDocs.dateFilter');
+            [
+                { value: '', label: i18next.t('localDocs.anyTime') },
+                { value: String(24 * 60 * 60 * 1000), label: i18next.t('localDocs.pastDay') },
+                { value: String(7 * 24 * 60 * 60 * 1000), label: i18next.t('localDocs.pastWeek') },
+                { value: String(30 * 24 * 60 * 60 * 1000), label: i18next.t('localDocs.pastMonth') },
+                { value: String(365 * 24 * 60 * 60 * 1000), label: i18next.t('localDocs.pastYear') },
+            ].forEach(item => {
+                const option = document.createElement('option');
+                option.value = item.value;
+                option.textContent = item.label;
+                this.dateFilter?.appendChild(option);
+            });
+            
+            this.sortSelect = document.createElement('select');
+            this.sortSelect.className = 'aie-local-docs-sort';
+            this.sortSelect.title = i18next.t('localDocs.sortBy');
+            [
+                { value: 'updated', label: i18next.t('localDocs.sortUpdated') },
+                { value: 'created', label: i18next.t('localDocs.sortCreated') },
+                { value: 'title', label: i18next.t('localDocs.sortTitle') },
+            ].forEach(item => {
+                const option = document.createElement('option');
+                option.value = item.value;
+                option.textContent = item.label;
+                this.sortSelect?.appendChild(option);
+            });
+            this.sortSelect.addEventListener('change', () => {
+                this.sortBy = this.sortSelect!.value as LocalDocsSortBy;
+            });
+            
+            [this.tagFilter, this.dateFilter, this.sortSelect].forEach(select => {
+                select.style.flex = '1';
+                select.style.minWidth = '0';
+                select.style.padding = '4px 6px';
+                select.style.borderRadius = '4px';
+                select.style.border = '1px solid #ddd';
+                select.style.fontSize = '13px';
+                select.style.background = '#fff';
+                select.addEventListener('change', () => this.handleSearch());
+            });
+            
+            filterContainer.appendChild(this.tagFilter);
+            filterContainer.appendChild(this.dateFilter);
+            filterContainer.appendChild(this.sortSelect);
+            
+            // Path of the current folder with folder actions
+            const folderBarEl = document.createElement('div');
+            folderBarEl.className = 'aie-local-docs-folder-bar';
+            folderBarEl.style.display = 'flex';
+            folderBarEl.style.alignItems = 'center';
+            folderBarEl.style.gap = '4px';
+            
+            this.folderPathEl = document.createElement('div');
+            this.folderPathEl.className = 'aie-local-docs-folder-path';
+            this.folderPathEl.style.flex = '1';
+            this.folderPathEl.style.display = 'flex';
+            this.folderPathEl.style.alignItems = 'center';
+            this.folderPathEl.style.flexWrap = 'wrap';
+            this.folderPathEl.style.minWidth = '0';
+            this.folderPathEl.style.fontSize = '13px';
+            
+            const newFolderBtn = this.createIconButton(i18next.t('localDocs.newFolderButton'), 'aie-local-docs-new-folder-btn',
+                `<path d="M12.4142 5H21C21.5523 5 22 5.44772 22 6V20C22 20.5523 21.5523 21 21 21H3C2.44772 21 2 20.5523 2 20V4C2 3.44772 2.44772 3 3 3H10.4142L12.4142 5ZM4 5V19H20V7H11.5858L9.58579 5H4ZM11 12V9H13V12H16V14H13V17H11V14H8V12H11Z"></path>`);
+            newFolderBtn.addEventListener('click', () => this.createFolder());
+            
+            const exportFolderBtn = this.createIconButton(i18next.t('localDocs.exportFolderButton'), 'aie-local-docs-export-folder-btn',
+                `<path d="M13 10H18L12 16L6 10H11V3H13V10ZM4 19H20V12H22V20C22 20.5523 21.5523 21 21 21H3C2.44772 21 2 20.5523 2 20V12H4V19Z"></path>`);
+            exportFolderBtn.addEventListener('click', () => this.exportFolder(this.currentFolderId));
+            
+            folderBarEl.appendChild(this.folderPathEl);
+            folderBarEl.appendChild(newFolderBtn);
+            folderBarEl.appendChild(exportFolderBtn);
+            
             // Current document title
             const currentDocContainer = document.createElement('div');
             currentDocContainer.style.display = 'flex';
@@ -186,6 +291,8 @@ export class LocalDocsMenu extends AbstractDropdownMenuButton {
             actionContainer.appendChild(importButton);
             
             headerEl.appendChild(searchContainer);
+            headerEl.appendChild(filterContainer);
+            headerEl.appendChild(folderBarEl);
             headerEl.appendChild(currentDocContainer);
             headerEl.appendChild(actionContainer);
             
@@ -217,8 +324,32 @@ export class LocalDocsMenu extends AbstractDropdownMenuButton {
             listContainer.appendChild(this.documentListEl);
             listContainer.appendChild(this.emptyStateEl);
             
-            container.appendChild(headerEl);
-            container.appendChild(listContainer);
+            // Storage usage
+            this.quotaEl = document.createElement('div');
+            this.quotaEl.className = 'aie-local-docs-quota';
+            this.quotaEl.style.marginTop = '8px';
+            this.quotaEl.style.fontSize = '12px';
+            this.quotaEl.style.color = '#888';
+            this.quotaEl.style.textAlign = 'right';
+            
+            // Document list view, replaced by the history view when browsing revisions
+            this.mainViewEl = document.createElement('div');
+            this.mainViewEl.style.display = 'flex';
+            this.mainViewEl.style.flexDirection = 'column';
+            this.mainViewEl.style.overflow = 'hidden';
+            this.mainViewEl.appendChild(headerEl);
+            this.mainViewEl.appendChild(listContainer);
+            this.mainViewEl.appendChild(this.quotaEl);
+            
+            this.historyEl = document.createElement('div');
+            this.historyEl.className = 'aie-local-docs-history';
+            this.historyEl.style.display = 'none';
+            this.historyEl.style.flexDirection = 'column';
+            this.historyEl.style.gap = '8px';
+            this.historyEl.style.overflow = 'hidden';
+            
+            container.appendChild(this.mainViewEl);
+            container.appendChild(this.historyEl);
             
             // Set up event listeners
             if (this.searchInput) {
@@ -256,6 +387,9 @@ export class LocalDocsMenu extends AbstractDropdownMenuButton {
      * When the dropdown is opened, refresh the document list
      */
     protected onDropdownOpen() {
+        // Always start from the document list
+        this.hideHistory();
+        
         // Try to connect to manager if not connected yet
         if (!this.manager) {
             this.connectToManager();
@@ -263,8 +397,10 @@ export class LocalDocsMenu extends AbstractDropdownMenuButton {
         
         // Only proceed if we have a manager
         if (this.manager) {
+            this.refreshTagFilter();
             this.refreshDocumentList();
             this.updateCurrentDocumentTitle();
+            this.updateStorageQuota();
         } else {
             // Show a message if we can't connect to the manager
             if (this.documentListEl) {
@@ -289,9 +425,36 @@ export class LocalDocsMenu extends AbstractDropdownMenuButton {
     }
     
     /**
-     * Refresh the document list with optional filtering
+     * Fill the tag filter with the tags used by the documents, hidden when no document has tags
      */
-    private refreshDocumentList(searchTerm: string = '') {
+    private async refreshTagFilter() {
+        if (!this.tagFilter || !this.manager) return;
+        
+        const tags = await this.manager.getAllTags();
+        const selected = this.tagFilter.value;
+        this.tagFilter.innerHTML = '';
+        
+        const allOption = document.createElement('option');
+        allOption.value = '';
+        allOption.textContent = i18next.t('localDocs.allTags');
+        this.tagFilter.appendChild(allOption);
+        
+        tags.forEach(tag => {
+            const option = document.createElement('option');
+            option.value = tag;
+            option.textContent = `#${tag}`;
+            this.tagFilter?.appendChild(option);
+        });
+        
+        this.tagFilter.value = tags.includes(selected) ? selected : '';
+        this.tagFilter.style.display = tags.length ? 'block' : 'none';
+    }
+    
+    /**
+     * Refresh the document list. Browsing shows the subfolders and documents of the current folder,
+     * searching looks into the current folder and all its subfolders, ranked by relevance.
+     */
+    private async refreshDocumentList(searchTerm: string = this.searchInput?.value.trim() || '') {
         if (!this.documentListEl || !this.emptyStateEl) {
             return;
         }
@@ -308,25 +471,40 @@ export class LocalDocsMenu extends AbstractDropdownMenuButton {
             }
         }
         
-        // Clear current list
-        this.documentListEl.innerHTML = '';
-        
         try {
-            // Get all documents
-            const documents = this.manager?.getAllDocuments() || [];
-            
-            // Filter if search term is provided
-            const filteredDocs = searchTerm 
-                ? documents.filter(doc => 
-                    doc.title.toLowerCase().includes(searchTerm) ||
-                    (doc.tags && doc.tags.some(tag => tag.toLowerCase().includes(searchTerm))) ||
-                    (doc.excerpt && doc.excerpt.toLowerCase().includes(searchTerm))
-                )
-                : documents;
+            // Search the documents, results of an earlier search that finishes late are dropped
+            const requestId = ++this.searchRequestId;
+            const period = Number(this.dateFilter?.value || 0);
+            const allFolders = await this.manager?.getFolders() || [];
+            
+            // The current folder may have been deleted
+            if (this.currentFolderId && !allFolders.some(folder => folder.id === this.currentFolderId)) {
+                this.currentFolderId = null;
+            }
+            this.renderFolderPath();
+            
+            let folderIds: (string | null)[] | undefined = [this.currentFolderId];
+            if (searchTerm) {
+                folderIds = this.currentFolderId ? await this.manager?.getFolderTreeIds(this.currentFolderId) : undefined;
+            }
+            const results = await this.manager?.search(searchTerm, {
+                tags: this.tagFilter?.value ? [this.tagFilter.value] : undefined,
+                from: period ? Date.now() - period : undefined,
+                folderIds,
+            }) || [];
+            if (requestId !== this.searchRequestId) return;
+            
+            const folders = searchTerm ? [] : allFolders
+                .filter(folder => folder.parentId === this.currentFolderId)
+                .sort((a, b) => a.name.localeCompare(b.name));
+            
+            // Clear current list
+            this.documentListEl.innerHTML = '';
             
             // Show empty state if no documents
-            if (filteredDocs.length === 0) {
+            if (results.length === 0 && folders.length === 0) {
                 this.documentListEl.style.display = 'none';
+                this.emptyStateEl.textContent = i18next.t('localDocs.emptyState');
                 this.emptyStateEl.style.display = 'block';
                 return;
             }
@@ -338,11 +516,21 @@ export class LocalDocsMenu extends AbstractDropdownMenuButton {
             // Current document ID
             const currentDocId = this.manager?.getCurrentDocId() || null;
             
-            // Create and append document items
-            filteredDocs.forEach(doc => {
-                const docItem = this.createDocumentListItem(doc, doc.id === currentDocId);
-                this.documentListEl?.appendChild(docItem);
+            folders.forEach(folder => {
+                this.documentListEl?.appendChild(this.createFolderListItem(folder));
             });
+            
+            // Search results keep their ranking, otherwise pinned documents come first
+            if (searchTerm) {
+                results.forEach(result => {
+                    const docItem = this.createDocumentListItem(result.document, result.document.id === currentDocId, result.snippet);
+                    this.documentListEl?.appendChild(docItem);
+                });
+            } else {
+                sortLocalDocuments(results.map(result => result.document), this.sortBy).forEach(doc => {
+                    this.documentListEl?.appendChild(this.createDocumentListItem(doc, doc.id === currentDocId));
+                });
+            }
         } catch (error) {
             console.error('Error refreshing document list:', error);
             this.documentListEl.style.display = 'none';
@@ -354,7 +542,7 @@ export class LocalDocsMenu extends AbstractDropdownMenuButton {
     /**
      * Create a document list item element
      */
-    private createDocumentListItem(doc: LocalDocument, isActive: boolean): HTMLElement {
+    private createDocumentListItem(doc: LocalDocument, isActive: boolean, snippet?: LocalDocsSearchSnippet): HTMLElement {
         const docEl = document.createElement('div');
         docEl.className = `aie-local-docs-item ${isActive ? 'aie-local-docs-item-active' : ''}`;
         docEl.dataset.docId = doc.id;
@@ -364,6 +552,7 @@ export class LocalDocsMenu extends AbstractDropdownMenuButton {
         docEl.style.cursor = 'pointer';
         docEl.style.position = 'relative';
         docEl.style.background = isActive ? '#f0f7ff' : '#fff';
+        this.setupDragSource(docEl, { type: 'document', id: doc.id });
         
         // Add hover effect
         docEl.addEventListener('mouseenter', () => {
@@ -403,7 +592,23 @@ export class LocalDocsMenu extends AbstractDropdownMenuButton {
         // Excerpt
         const excerptEl = document.createElement('div');
         excerptEl.className = 'aie-local-docs-item-excerpt';
-        excerptEl.textContent = doc.excerpt || '';
+        if (snippet && snippet.text) {
+            // Highlight the matched terms, the text is user content so it is never inserted as html
+            let offset = 0;
+            snippet.highlights.forEach(highlight => {
+                excerptEl.appendChild(document.createTextNode(snippet.text.substring(offset, highlight.from)));
+                const markEl = document.createElement('mark');
+                markEl.textContent = snippet.text.substring(highlight.from, highlight.to);
+                markEl.style.background = '#ffe58f';
+                markEl.style.color = 'inherit';
+                markEl.style.padding = '0';
+                excerptEl.appendChild(markEl);
+                offset = highlight.to;
+            });
+            excerptEl.appendChild(document.createTextNode(snippet.text.substring(offset)));
+        } else {
+            excerptEl.textContent = doc.excerpt || '';
+        }
         excerptEl.style.fontSize = '13px';
         excerptEl.style.color = '#666';
         excerptEl.style.overflow = 'hidden';
@@ -437,6 +642,22 @@ export class LocalDocsMenu extends AbstractDropdownMenuButton {
             </svg>
         `;
         
+        // History button
+        const historyBtn = document.createElement('button');
+        historyBtn.title = i18next.t('localDocs.historyButton');
+        historyBtn.className = 'aie-local-docs-history-btn';
+        historyBtn.style.background = 'transparent';
+        historyBtn.style.border = 'none';
+        historyBtn.style.padding = '3px';
+        historyBtn.style.cursor = 'pointer';
+        historyBtn.style.color = '#666';
+        historyBtn.style.borderRadius = '3px';
+        historyBtn.innerHTML = `
+            <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" width="14" height="14" fill="currentColor">
+                <path d="M12 2C17.5228 2 22 6.47715 22 12C22 17.5228 17.5228 22 12 22C6.47715 22 2 17.5228 2 12H4C4 16.4183 7.58172 20 12 20C16.4183 20 20 16.4183 20 12C20 7.58172 16.4183 4 12 4C9.25022 4 6.82447 5.38734 5.38451 7.50024L8 7.5V9.5H2V3.5H4L3.99989 5.99918C5.82434 3.57075 8.72873 2 12 2ZM13 7L12.9998 11.585L16.2426 14.8284L14.8284 16.2426L10.9998 12.413L11 7H13Z"></path>
+            </svg>
+        `;
+        
         // Delete button
         const deleteBtn = document.createElement('button');
         deleteBtn.title = i18next.t('localDocs.deleteButton');
@@ -453,17 +674,34 @@ export class LocalDocsMenu extends AbstractDropdownMenuButton {
             </svg>
         `;
         
+        // Pin button
+        const pinBtn = this.createIconButton(i18next.t(doc.pinned ? 'localDocs.unpinButton' : 'localDocs.pinButton'), 'aie-local-docs-pin-btn',
+            `<path d="M13.8273 1.68994L22.3126 10.1752L20.8984 11.5894L20.1913 10.8823L15.9486 15.125L15.2415 18.6605L13.8273 20.0747L9.58466 15.8321L4.63492 20.7818L3.2207 19.3676L8.17045 14.4179L3.92781 10.1752L5.34202 8.76101L8.87756 8.0539L13.1202 3.81126L12.4131 3.10416L13.8273 1.68994ZM14.5344 5.22548L9.86358 9.89631L7.0417 10.4607L13.5418 16.9608L14.1062 14.1389L18.7771 9.46812L14.5344 5.22548Z"></path>`);
+        if (doc.pinned) {
+            pinBtn.style.color = '#4a8af4';
+        }
+        pinBtn.addEventListener('click', (e) => {
+            e.stopPropagation();
+            this.togglePinned(doc);
+        });
+        
+        actionsEl.appendChild(pinBtn);
+        actionsEl.appendChild(historyBtn);
         actionsEl.appendChild(exportBtn);
         actionsEl.appendChild(deleteBtn);
         
         // Add event listeners
         docEl.addEventListener('click', (e) => {
-            if (e.target !== exportBtn && e.target !== deleteBtn && 
-                !exportBtn.contains(e.target as Node) && !deleteBtn.contains(e.target as Node)) {
+            if (!actionsEl.contains(e.target as Node)) {
                 this.loadDocument(doc.id);
             }
         });
         
+        historyBtn.addEventListener('click', (e) => {
+            e.stopPropagation();
+            this.showHistory(doc.id);
+        });
+        
         exportBtn.addEventListener('click', (e) => {
             e.stopPropagation();
             this.exportDocument(doc.id);
@@ -485,7 +723,7 @@ export class LocalDocsMenu extends AbstractDropdownMenuButton {
     /**
      * Update the current document title input
      */
-    private updateCurrentDocumentTitle() {
+    private async updateCurrentDocumentTitle() {
         if (!this.currentDocTitle || !this.manager) return;
         
         const currentDocId = this.manager.getCurrentDocId();
@@ -494,7 +732,7 @@ export class LocalDocsMenu extends AbstractDropdownMenuButton {
             return;
         }
         
-        const docs = this.manager.getAllDocuments();
+        const docs = await this.manager.getAllDocuments();
         const currentDoc = docs.find(doc => doc.id === currentDocId);
         
         if (currentDoc) {
@@ -505,7 +743,7 @@ export class LocalDocsMenu extends AbstractDropdownMenuButton {
     /**
      * Save the current document (create new or update existing)
      */
-    private saveDocument() {
+    private async saveDocument() {
         if (!this.manager || !this.currentDocTitle) return;
         
         const title = this.currentDocTitle.value.trim() || i18next.t('localDocs.untitled');
@@ -513,11 +751,11 @@ export class LocalDocsMenu extends AbstractDropdownMenuButton {
         
         if (currentDocId) {
             // Update existing document
-            this.manager.updateDocumentMetadata(currentDocId, { title });
-            this.manager.saveCurrentDocument();
+            await this.manager.updateDocumentMetadata(currentDocId, { title });
+            await this.manager.saveCurrentDocument();
         } else {
-            // Create new document
-            this.manager.createNewDocument(title);
+            // Create new document in the folder being browsed
+            await this.manager.createNewDocument(title, [], this.currentFolderId);
         }
         
         this.refreshDocumentList();
@@ -546,10 +784,10 @@ export class LocalDocsMenu extends AbstractDropdownMenuButton {
     /**
      * Load a document
      */
-    private loadDocument(id: string) {
+    private async loadDocument(id: string) {
         if (!this.manager) return;
         
-        this.manager.loadDocument(id);
+        await this.manager.loadDocument(id);
         this.refreshDocumentList();
         this.updateCurrentDocumentTitle();
         this.hideDropdown();
@@ -558,27 +796,29 @@ export class LocalDocsMenu extends AbstractDropdownMenuButton {
     /**
      * Delete a document
      */
-    private deleteDocument(id: string) {
+    private async deleteDocument(id: string) {
         if (!this.manager) return;
         
         if (confirm(i18next.t('localDocs.deleteConfirm'))) {
-            this.manager.deleteDocument(id);
+            await this.manager.deleteDocument(id);
+            this.refreshTagFilter();
             this.refreshDocumentList();
             this.updateCurrentDocumentTitle();
+            this.updateStorageQuota();
         }
     }
     
     /**
      * Export a document
      */
-    private exportDocument(id: string) {
+    private async exportDocument(id: string) {
         if (!this.manager) return;
         
-        const docStr = this.manager.exportDocument(id);
+        const docStr = await this.manager.exportDocument(id);
         if (!docStr) return;
         
         // Get the document title for filename
-        const docs = this.manager.getAllDocuments();
+        const docs = await this.manager.getAllDocuments();
         const doc = docs.find(d => d.id === id);
         const title = doc ? doc.title : 'document';
         const safeTitle = title.replace(/[^a-z0-9]/gi, '_').toLowerCase();
@@ -604,39 +844,590 @@ export class LocalDocsMenu extends AbstractDropdownMenuButton {
         // Create a file input
         const input = document.createElement('input');
         input.type = 'file';
-        input.accept = '.json';
+        input.accept = '.json,.md,.txt,.zip';
         
         input.onchange = (e) => {
             const file = (e.target as HTMLInputElement).files?.[0];
-            if (!file) return;
-            
-            const reader = new FileReader();
-            reader.onload = () => {
-                try {
-                    const content = reader.result as string;
-                    const doc = this.manager?.importDocument(content);
-                    
-                    if (doc) {
-                        // Load the imported document
-                        this.manager?.loadDocument(doc.id);
-                        this.refreshDocumentList();
-                        this.updateCurrentDocumentTitle();
-                        this.hideDropdown();
-                    } else {
-                        alert(i18next.t('localDocs.importError'));
-                    }
-                } catch (error) {
-                    console.error('Error importing document:', error);
+            if (!file || !this.manager) return;
+            
+            // A zip is imported as folders into the folder being browsed
+            if (file.name.toLowerCase().endsWith('.zip')) {
+                this.importArchive(file);
+                return;
+            }
+            
+            this.manager.importDocumentFromFile(file).then(async doc => {
+                if (doc && this.currentFolderId) {
+                    await this.manager?.moveDocument(doc.id, this.currentFolderId);
+                }
+                if (doc) {
+                    // Load the imported document
+                    this.loadDocument(doc.id);
+                } else {
                     alert(i18next.t('localDocs.importError'));
                 }
-            };
-            
-            reader.readAsText(file);
+            }).catch(error => {
+                console.error('Error importing document:', error);
+                alert(i18next.t('localDocs.importError'));
+            });
         };
         
         input.click();
     }
 
+    /**
+     * Import a zip of documents into the folder being browsed
+     */
+    private async importArchive(file: File) {
+        if (!this.manager) return;
+        
+        try {
+            const docs = await this.manager.importArchive(file, this.currentFolderId);
+            alert(i18next.t('localDocs.importedCount', { count: docs.length }));
+        } catch (error) {
+            console.error('Error importing archive:', error);
+            alert(i18next.t(error instanceof RangeError ? 'localDocs.importLimitError' : 'localDocs.importError'));
+        }
+        this.refreshTagFilter();
+        this.refreshDocumentList();
+        this.updateStorageQuota();
+    }
+    
+    /**
+     * Render the path of the current folder, each part opens that folder and accepts dropped items
+     */
+    private async renderFolderPath() {
+        if (!this.manager || !this.folderPathEl) return;
+        
+        const folderId = this.currentFolderId;
+        const path = await this.manager.getFolderPath(folderId);
+        if (folderId !== this.currentFolderId) return;
+        this.folderPathEl.innerHTML = '';
+        
+        const parts: { id: string | null, name: string }[] = [{ id: null, name: i18next.t('localDocs.allDocuments') }, ...path];
+        parts.forEach((part, index) => {
+            if (index > 0) {
+                const separatorEl = document.createElement('span');
+                separatorEl.textContent = '/';
+                separatorEl.style.color = '#999';
+                separatorEl.style.margin = '0 2px';
+                this.folderPathEl?.appendChild(separatorEl);
+            }
+            
+            const partEl = document.createElement('span');
+            partEl.className = 'aie-local-docs-folder-path-item';
+            partEl.textContent = part.name;
+            partEl.style.padding = '2px 4px';
+            partEl.style.borderRadius = '3px';
+            partEl.style.overflow = 'hidden';
+            partEl.style.textOverflow = 'ellipsis';
+            partEl.style.whiteSpace = 'nowrap';
+            partEl.style.maxWidth = '120px';
+            if (index < parts.length - 1) {
+                partEl.style.cursor = 'pointer';
+                partEl.style.color = '#4a8af4';
+                partEl.addEventListener('click', () => this.openFolder(part.id));
+            } else {
+                partEl.style.fontWeight = 'bold';
+            }
+            this.setupDropTarget(partEl, part.id);
+            this.folderPathEl?.appendChild(partEl);
+        });
+    }
+    
+    /**
+     * Create a folder list item, clicking it opens the folder
+     */
+    private createFolderListItem(folder: LocalDocsFolder): HTMLElement {
+        const folderEl = document.createElement('div');
+        folderEl.className = 'aie-local-docs-folder';
+        folderEl.dataset.folderId = folder.id;
+        folderEl.style.display = 'flex';
+        folderEl.style.alignItems = 'center';
+        folderEl.style.gap = '8px';
+        folderEl.style.padding = '6px 10px';
+        folderEl.style.borderRadius = '4px';
+        folderEl.style.border = '1px solid #eee';
+        folderEl.style.cursor = 'pointer';
+        folderEl.style.background = '#fff';
+        
+        folderEl.addEventListener('mouseenter', () => {
+            folderEl.style.background = '#f9f9f9';
+        });
+        
+        folderEl.addEventListener('mouseleave', () => {
+            folderEl.style.background = '#fff';
+        });
+        
+        const iconEl = document.createElement('div');
+        iconEl.style.display = 'flex';
+        iconEl.style.color = '#e6a23c';
+        iconEl.innerHTML = `
+            <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" width="16" height="16" fill="currentColor">
+                <path d="M12.4142 5H21C21.5523 5 22 5.44772 22 6V20C22 20.5523 21.5523 21 21 21H3C2.44772 21 2 20.5523 2 20V4C2 3.44772 2.44772 3 3 3H10.4142L12.4142 5Z"></path>
+            </svg>
+        `;
+        
+        const nameEl = document.createElement('div');
+        nameEl.className = 'aie-local-docs-folder-name';
+        nameEl.textContent = folder.name;
+        nameEl.style.flex = '1';
+        nameEl.style.fontSize = '14px';
+        nameEl.style.overflow = 'hidden';
+        nameEl.style.textOverflow = 'ellipsis';
+        nameEl.style.whiteSpace = 'nowrap';
+        
+        const actionsEl = document.createElement('div');
+        actionsEl.className = 'aie-local-docs-folder-actions';
+        actionsEl.style.display = 'flex';
+        actionsEl.style.gap = '4px';
+        
+        const renameBtn = this.createIconButton(i18next.t('localDocs.renameFolderButton'), 'aie-local-docs-rename-folder-btn',
+            `<path d="M15.7279 9.57627L14.3137 8.16206L5 17.4758V18.89H6.41421L15.7279 9.57627ZM17.1421 8.16206L18.5563 6.74785L17.1421 5.33363L15.7279 6.74785L17.1421 8.16206ZM7.24264 20.89H3V16.6473L16.435 3.21231C16.8256 2.82179 17.4587 2.82179 17.8492 3.21231L20.6777 6.04074C21.0682 6.43126 21.0682 7.06443 20.6777 7.45495L7.24264 20.89Z"></path>`);
+        const exportBtn = this.createIconButton(i18next.t('localDocs.exportFolderButton'), 'aie-local-docs-export-folder-btn',
+            `<path d="M13 10H18L12 16L6 10H11V3H13V10ZM4 19H20V12H22V20C22 20.5523 21.5523 21 21 21H3C2.44772 21 2 20.5523 2 20V12H4V19Z"></path>`);
+        const deleteBtn = this.createIconButton(i18next.t('localDocs.deleteFolderButton'), 'aie-local-docs-delete-folder-btn',
+            `<path d="M17 6H22V8H20V21C20 21.5523 19.5523 22 19 22H5C4.44772 22 4 21.5523 4 21V8H2V6H7V3C7 2.44772 7.44772 2 8 2H16C16.5523 2 17 2.44772 17 3V6ZM18 8H6V20H18V8ZM9 11H11V17H9V11ZM13 11H15V17H13V11ZM9 4V6H15V4H9Z"></path>`);
+        
+        renameBtn.addEventListener('click', (e) => {
+            e.stopPropagation();
+            this.renameFolder(folder);
+        });
+        
+        exportBtn.addEventListener('click', (e) => {
+            e.stopPropagation();
+            this.exportFolder(folder.id);
+        });
+        
+        deleteBtn.addEventListener('click', (e) => {
+            e.stopPropagation();
+            this.deleteFolder(folder.id);
+        });
+        
+        actionsEl.appendChild(renameBtn);
+        actionsEl.appendChild(exportBtn);
+        actionsEl.appendChild(deleteBtn);
+        
+        folderEl.addEventListener('click', (e) => {
+            if (!actionsEl.contains(e.target as Node)) {
+                this.openFolder(folder.id);
+            }
+        });
+        
+        this.setupDragSource(folderEl, { type: 'folder', id: folder.id });
+        this.setupDropTarget(folderEl, folder.id);
+        
+        folderEl.appendChild(iconEl);
+        folderEl.appendChild(nameEl);
+        folderEl.appendChild(actionsEl);
+        
+        return folderEl;
+    }
+    
+    /**
+     * Create a small icon button used in the list items
+     */
+    private createIconButton(title: string, className: string, svgPath: string): HTMLButtonElement {
+        const button = document.createElement('button');
+        button.title = title;
+        button.className = className;
+        button.style.background = 'transparent';
+        button.style.border = 'none';
+        button.style.padding = '3px';
+        button.style.cursor = 'pointer';
+        button.style.color = '#666';
+        button.style.borderRadius = '3px';
+        button.innerHTML = `
+            <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" width="14" height="14" fill="currentColor">
+                ${svgPath}
+            </svg>
+        `;
+        return button;
+    }
+    
+    /**
+     * Make a document or folder element draggable onto folders
+     */
+    private setupDragSource(element: HTMLElement, item: DragItem) {
+        element.draggable = true;
+        element.addEventListener('dragstart', (e) => {
+            e.dataTransfer?.setData(DRAG_TYPE, JSON.stringify(item));
+            if (e.dataTransfer) e.dataTransfer.effectAllowed = 'move';
+            e.stopPropagation();
+        });
+    }
+    
+    /**
+     * Accept documents and folders dropped on an element, moving them into the folder
+     */
+    private setupDropTarget(element: HTMLElement, folderId: string | null) {
+        element.addEventListener('dragover', (e) => {
+            if (!e.dataTransfer?.types.includes(DRAG_TYPE)) return;
+            e.preventDefault();
+            e.dataTransfer.dropEffect = 'move';
+            element.style.outline = '2px dashed #4a8af4';
+        });
+        
+        element.addEventListener('dragleave', () => {
+            element.style.outline = '';
+        });
+        
+        element.addEventListener('drop', (e) => {
+            element.style.outline = '';
+            const data = e.dataTransfer?.getData(DRAG_TYPE);
+            if (!data) return;
+            e.preventDefault();
+            e.stopPropagation();
+            this.moveToFolder(JSON.parse(data) as DragItem, folderId);
+        });
+    }
+    
+    /**
+     * Move a dropped document or folder into a folder
+     */
+    private async moveToFolder(item: DragItem, folderId: string | null) {
+        if (!this.manager) return;
+        
+        if (item.type === 'document') {
+            await this.manager.moveDocument(item.id, folderId);
+        } else if (item.id !== folderId) {
+            const moved = await this.manager.moveFolder(item.id, folderId);
+            if (!moved) {
+                alert(i18next.t('localDocs.moveFolderError'));
+            }
+        }
+        this.refreshDocumentList();
+    }
+    
+    /**
+     * Browse a folder, or all documents when folderId is null
+     */
+    private openFolder(folderId: string | null) {
+        this.currentFolderId = folderId;
+        this.refreshDocumentList();
+    }
+    
+    /**
+     * Create a folder in the folder being browsed
+     */
+    private async createFolder() {
+        if (!this.manager) return;
+        
+        const name = prompt(i18next.t('localDocs.folderNamePrompt'))?.trim();
+        if (!name) return;
+        
+        await this.manager.createFolder(name, this.currentFolderId);
+        this.refreshDocumentList();
+    }
+    
+    /**
+     * Rename a folder
+     */
+    private async renameFolder(folder: LocalDocsFolder) {
+        if (!this.manager) return;
+        
+        const name = prompt(i18next.t('localDocs.folderNamePrompt'), folder.name)?.trim();
+        if (!name || name === folder.name) return;
+        
+        await this.manager.renameFolder(folder.id, name);
+        this.refreshDocumentList();
+    }
+    
+    /**
+     * Delete a folder, its content is moved to the parent folder
+     */
+    private async deleteFolder(id: string) {
+        if (!this.manager) return;
+        
+        if (confirm(i18next.t('localDocs.deleteFolderConfirm'))) {
+            await this.manager.deleteFolder(id);
+            this.refreshDocumentList();
+        }
+    }
+    
+    /**
+     * Download a folder, or all documents when folderId is null, as a zip of Markdown files
+     */
+    private async exportFolder(folderId: string | null) {
+        if (!this.manager) return;
+        
+        await this.manager.downloadFolder(folderId);
+    }
+    
+    /**
+     * Pin or unpin a document
+     */
+    private async togglePinned(doc: LocalDocument) {
+        if (!this.manager) return;
+        
+        await this.manager.setDocumentPinned(doc.id, !doc.pinned);
+        this.refreshDocumentList();
+    }
+
+    /**
+     * Show the revision history of a document, comparing the two latest revisions by default
+     */
+    private async showHistory(docId: string) {
+        if (!this.manager || !this.mainViewEl || !this.historyEl) return;
+        
+        this.historyDocId = docId;
+        this.selectedRevisionIds = (await this.manager.getRevisions(docId)).slice(0, 2).map(revision => revision.id);
+        
+        this.mainViewEl.style.display = 'none';
+        this.historyEl.style.display = 'flex';
+        this.renderHistory();
+    }
+    
+    /**
+     * Go back from the history view to the document list
+     */
+    private hideHistory() {
+        if (!this.mainViewEl || !this.historyEl) return;
+        
+        this.historyDocId = null;
+        this.selectedRevisionIds = [];
+        this.historyEl.style.display = 'none';
+        this.historyEl.innerHTML = '';
+        this.mainViewEl.style.display = 'flex';
+    }
+    
+    /**
+     * Render the revision list and the diff between the selected revisions
+     */
+    private async renderHistory() {
+        if (!this.manager || !this.historyEl || !this.historyDocId) return;
+        
+        const docId = this.historyDocId;
+        const doc = (await this.manager.getAllDocuments()).find(d => d.id === docId);
+        const revisions = await this.manager.getRevisions(docId);
+        // The history may have been closed while loading
+        if (docId !== this.historyDocId) return;
+        this.historyEl.innerHTML = '';
+        
+        // Header with back button and document title
+        const headerEl = document.createElement('div');
+        headerEl.style.display = 'flex';
+        headerEl.style.alignItems = 'center';
+        headerEl.style.gap = '8px';
+        
+        const backButton = document.createElement('button');
+        backButton.textContent = i18next.t('localDocs.backButton');
+        backButton.className = 'aie-local-docs-history-back-btn';
+        backButton.style.padding = '4px 10px';
+        backButton.style.background = '#fff';
+        backButton.style.border = '1px solid #ddd';
+        backButton.style.borderRadius = '4px';
+        backButton.style.cursor = 'pointer';
+        backButton.style.fontSize = '13px';
+        backButton.addEventListener('click', () => this.hideHistory());
+        
+        const titleEl = document.createElement('div');
+        titleEl.textContent = `${i18next.t('localDocs.historyTitle')}: ${doc?.title || i18next.t('localDocs.untitled')}`;
+        titleEl.style.fontWeight = 'bold';
+        titleEl.style.fontSize = '14px';
+        titleEl.style.overflow = 'hidden';
+        titleEl.style.textOverflow = 'ellipsis';
+        titleEl.style.whiteSpace = 'nowrap';
+        
+        headerEl.appendChild(backButton);
+        headerEl.appendChild(titleEl);
+        this.historyEl.appendChild(headerEl);
+        
+        if (revisions.length === 0) {
+            const emptyEl = document.createElement('div');
+            emptyEl.textContent = i18next.t('localDocs.noRevisions');
+            emptyEl.style.textAlign = 'center';
+            emptyEl.style.padding = '20px 0';
+            emptyEl.style.color = '#666';
+            emptyEl.style.fontStyle = 'italic';
+            this.historyEl.appendChild(emptyEl);
+            return;
+        }
+        
+        // Revision list
+        const listEl = document.createElement('div');
+        listEl.className = 'aie-local-docs-history-list';
+        listEl.style.display = 'flex';
+        listEl.style.flexDirection = 'column';
+        listEl.style.gap = '4px';
+        listEl.style.maxHeight = '150px';
+        listEl.style.overflowY = 'auto';
+        listEl.style.paddingRight = '5px';
+        
+        revisions.forEach(revision => {
+            listEl.appendChild(this.createRevisionListItem(revision));
+        });
+        this.historyEl.appendChild(listEl);
+        
+        // Diff between the selected revisions
+        const diffEl = document.createElement('div');
+        diffEl.className = 'aie-local-docs-history-diff';
+        diffEl.style.maxHeight = '170px';
+        diffEl.style.overflowY = 'auto';
+        diffEl.style.padding = '8px';
+        diffEl.style.border = '1px solid #eee';
+        diffEl.style.borderRadius = '4px';
+        diffEl.style.fontSize = '13px';
+        diffEl.style.lineHeight = '1.5';
+        diffEl.style.whiteSpace = 'pre-wrap';
+        diffEl.style.wordBreak = 'break-word';
+        
+        const selected = revisions.filter(revision => this.selectedRevisionIds.includes(revision.id));
+        if (selected.length < 2) {
+            diffEl.textContent = i18next.t('localDocs.compareHint');
+            diffEl.style.color = '#666';
+            diffEl.style.fontStyle = 'italic';
+        } else {
+            // Revisions are sorted newest first, so the second one is the base of the comparison
+            const parts = diffWords(this.manager.getRevisionText(selected[1]), this.manager.getRevisionText(selected[0]));
+            if (parts.every(part => part.type === 'equal')) {
+                diffEl.textContent = i18next.t('localDocs.noChanges');
+                diffEl.style.color = '#666';
+                diffEl.style.fontStyle = 'italic';
+            } else {
+                parts.forEach(part => {
+                    const partEl = document.createElement(part.type === 'insert' ? 'ins' : part.type === 'delete' ? 'del' : 'span');
+                    partEl.textContent = part.text;
+                    if (part.type === 'insert') {
+                        partEl.style.color = '#1a7f37';
+                        partEl.style.background = '#2da44e1a';
+                    } else if (part.type === 'delete') {
+                        partEl.style.color = '#f56c6c';
+                        partEl.style.background = '#f56c6c1a';
+                    }
+                    diffEl.appendChild(partEl);
+                });
+            }
+        }
+        this.historyEl.appendChild(diffEl);
+    }
+    
+    /**
+     * Create a revision list item with compare checkbox, restore and branch actions
+     */
+    private createRevisionListItem(revision: LocalDocumentRevision): HTMLElement {
+        const revisionEl = document.createElement('div');
+        revisionEl.className = 'aie-local-docs-revision';
+        revisionEl.dataset.revisionId = revision.id;
+        revisionEl.style.display = 'flex';
+        revisionEl.style.alignItems = 'center';
+        revisionEl.style.gap = '6px';
+        revisionEl.style.padding = '4px 6px';
+        revisionEl.style.borderRadius = '4px';
+        revisionEl.style.border = '1px solid #eee';
+        revisionEl.style.fontSize = '12px';
+        
+        const checkbox = document.createElement('input');
+        checkbox.type = 'checkbox';
+        checkbox.title = i18next.t('localDocs.compareHint');
+        checkbox.checked = this.selectedRevisionIds.includes(revision.id);
+        checkbox.addEventListener('change', () => this.toggleRevisionSelection(revision.id));
+        
+        const labelEl = document.createElement('div');
+        labelEl.style.flex = '1';
+        labelEl.style.overflow = 'hidden';
+        labelEl.style.textOverflow = 'ellipsis';
+        labelEl.style.whiteSpace = 'nowrap';
+        const typeLabel = revision.restoredFrom
+            ? i18next.t('localDocs.revisionRestored')
+            : i18next.t(revision.type === 'auto' ? 'localDocs.revisionAuto' : 'localDocs.revisionManual');
+        labelEl.textContent = `${new Date(revision.createdAt).toLocaleString()} · ${typeLabel}`;
+        labelEl.title = revision.excerpt || '';
+        
+        const restoreBtn = document.createElement('button');
+        restoreBtn.textContent = i18next.t('localDocs.restoreButton');
+        restoreBtn.className = 'aie-local-docs-restore-btn';
+        const branchBtn = document.createElement('button');
+        branchBtn.textContent = i18next.t('localDocs.branchButton');
+        branchBtn.className = 'aie-local-docs-branch-btn';
+        [restoreBtn, branchBtn].forEach(button => {
+            button.style.background = 'transparent';
+            button.style.border = 'none';
+            button.style.padding = '2px 4px';
+            button.style.cursor = 'pointer';
+            button.style.color = '#4a8af4';
+            button.style.fontSize = '12px';
+        });
+        
+        restoreBtn.addEventListener('click', () => this.restoreRevision(revision.id));
+        branchBtn.addEventListener('click', () => this.branchRevision(revision.id));
+        
+        revisionEl.appendChild(checkbox);
+        revisionEl.appendChild(labelEl);
+        revisionEl.appendChild(restoreBtn);
+        revisionEl.appendChild(branchBtn);
+        
+        return revisionEl;
+    }
+    
+    /**
+     * Select a revision for comparison, keeping at most two selected
+     */
+    private toggleRevisionSelection(revisionId: string) {
+        if (this.selectedRevisionIds.includes(revisionId)) {
+            this.selectedRevisionIds = this.selectedRevisionIds.filter(id => id !== revisionId);
+        } else {
+            this.selectedRevisionIds.push(revisionId);
+            if (this.selectedRevisionIds.length > 2) {
+                this.selectedRevisionIds.shift();
+            }
+        }
+        this.renderHistory();
+    }
+    
+    /**
+     * Restore the document to a revision
+     */
+    private async restoreRevision(revisionId: string) {
+        if (!this.manager || !this.historyDocId) return;
+        
+        if (confirm(i18next.t('localDocs.restoreConfirm'))) {
+            const docId = this.historyDocId;
+            await this.manager.restoreRevision(docId, revisionId);
+            this.refreshDocumentList();
+            this.showHistory(docId);
+        }
+    }
+    
+    /**
+     * Create a new document from a revision and open it
+     */
+    private async branchRevision(revisionId: string) {
+        if (!this.manager || !this.historyDocId) return;
+        
+        const docId = this.historyDocId;
+        const revision = await this.manager.getRevision(docId, revisionId);
+        if (!revision) return;
+        
+        const title = i18next.t('localDocs.branchTitle', { title: revision.title || i18next.t('localDocs.untitled') });
+        const doc = await this.manager.branchRevision(docId, revisionId, title);
+        if (doc) {
+            this.hideHistory();
+            this.loadDocument(doc.id);
+        }
+    }
+
+    /**
+     * Show how much of the storage backend is used
+     */
+    private async updateStorageQuota() {
+        if (!this.manager || !this.quotaEl) return;
+        
+        const quota = await this.manager.getStorageQuota();
+        if (!quota) {
+            this.quotaEl.style.display = 'none';
+            return;
+        }
+        
+        const formatSize = (size: number) => size >= 1024 * 1024 * 1024
+            ? `${(size / 1024 / 1024 / 1024).toFixed(1)} GB`
+            : `${(size / 1024 / 1024).toFixed(1)} MB`;
+        this.quotaEl.textContent = i18next.t('localDocs.storageUsage', { usage: formatSize(quota.usage), quota: formatSize(quota.quota) });
+        this.quotaEl.style.display = 'block';
+        // Warn when the storage is almost full
+        this.quotaEl.style.color = quota.usage / quota.quota > 0.9 ? '#f56c6c' : '#888';
+    }
+
     /**
      * Handle transactions from the editor
      */
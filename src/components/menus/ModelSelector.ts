@@ -1,5 +1,6 @@
 import { Editor, EditorEvents } from "@tiptap/core";
 import { AiModelManager } from "../../ai/AiModelManager";
+import { LocalAiModel } from "../../ai/local/LocalAiModel";
 import { AiEditorOptions } from "../../core/AiEditor";
 import { AbstractDropdownMenuButton } from "../AbstractDropdownMenuButton";
 
@@ -35,6 +36,11 @@ export class ModelSelector extends AbstractDropdownMenuButton<AIModelOption> {
             { id: 'deepseek-ai/deepseek-coder', name: 'DeepSeek Coder', provider: 'openrouter', description: 'DeepSeek\'s coding-focused model' },
             { id: 'deepseek-ai/deepseek-r1-zero:free', name: 'DEEPSEEK-R1-ZERO:FREE', provider: 'openrouter', description: 'Free tier DeepSeek R1 model' }
         ],
+        'anthropic': [
+            { id: 'claude-3-5-sonnet-latest', name: 'Claude 3.5 Sonnet', provider: 'anthropic', description: 'Balanced Claude model' },
+            { id: 'claude-3-5-haiku-latest', name: 'Claude 3.5 Haiku', provider: 'anthropic', description: 'Fast, efficient Claude model' },
+            { id: 'claude-3-opus-latest', name: 'Claude 3 Opus', provider: 'anthropic', description: 'Anthropic\'s most powerful model' }
+        ],
         'spark': [
             { id: 'v4.0', name: 'Spark 4.0', provider: 'spark', description: 'Latest Spark model' },
             { id: 'v3.5', name: 'Spark 3.5', provider: 'spark', description: 'Balanced performance and cost' },
@@ -50,12 +56,15 @@ export class ModelSelector extends AbstractDropdownMenuButton<AIModelOption> {
             { id: 'jc-2.0', name: 'JC-2.0', provider: 'gitee', description: 'Gitee code model 2.0' },
             { id: 'jc-1.0', name: 'JC-1.0', provider: 'gitee', description: 'Gitee code model 1.0' }
         ],
+        // Filled with the models installed on the local server
+        'local': [],
         'custom': []
     };
 
     // Currently available models filtered by selected provider
     private availableModels: AIModelOption[] = [];
     private currentProvider: string = 'auto';
+    private localModelsLoaded: boolean = false;
 
     constructor() {
         super();
@@ -96,7 +105,7 @@ export class ModelSelector extends AbstractDropdownMenuButton<AIModelOption> {
         
         // If no universal modelId, fall back to provider-specific fields
         if (!modelId) {
-            if (this.currentProvider === 'openai' || this.currentProvider === 'openrouter' || this.currentProvider === 'gitee') {
+            if (this.currentProvider === 'openai' || this.currentProvider === 'openrouter' || this.currentProvider === 'gitee' || this.currentProvider === 'anthropic' || this.currentProvider === 'local') {
                 modelId = currentProviderConfig.model;
             } else if (this.currentProvider === 'spark') {
                 modelId = currentProviderConfig.version;
@@ -204,6 +213,10 @@ export class ModelSelector extends AbstractDropdownMenuButton<AIModelOption> {
      * Update available models based on selected provider
      */
     private updateModelsForProvider(provider: string): void {
+        if (provider === 'local' && !this.localModelsLoaded) {
+            this.loadLocalModels();
+        }
+        
         if (provider === 'auto') {
             // If 'auto', use the first available provider
             const firstProvider = Object.keys(this.providerModels)[0] || 'openai';
@@ -236,7 +249,7 @@ export class ModelSelector extends AbstractDropdownMenuButton<AIModelOption> {
             let currentModelId = config.modelId;
             
             if (!currentModelId) {
-                if (provider === 'openai' || provider === 'openrouter' || provider === 'gitee') {
+                if (provider === 'openai' || provider === 'openrouter' || provider === 'gitee' || provider === 'anthropic' || provider === 'local') {
                     currentModelId = config.model;
                 } else if (provider === 'spark') {
                     currentModelId = config.version;
@@ -259,6 +272,28 @@ export class ModelSelector extends AbstractDropdownMenuButton<AIModelOption> {
         this.menuData = this.availableModels;
     }
 
+    /**
+     * Load the models installed on the local server (Ollama /api/tags or llama.cpp /v1/models)
+     */
+    private async loadLocalModels(): Promise<void> {
+        const model = AiModelManager.get('local');
+        if (!(model instanceof LocalAiModel)) return;
+        
+        this.localModelsLoaded = true;
+        const models = await model.listModels();
+        this.providerModels['local'] = models.map(m => ({
+            id: m.value,
+            name: m.name,
+            provider: 'local',
+            description: m.description
+        }));
+        
+        if (this.currentProvider === 'local') {
+            this.updateModelsForProvider('local');
+            this.refreshDisplay();
+        }
+    }
+
     getMenuText(): string {
         if (this.availableModels.length === 0) {
             return "Select Model";
@@ -290,7 +325,7 @@ export class ModelSelector extends AbstractDropdownMenuButton<AIModelOption> {
         providerConfig.modelId = selectedModel.id;
         
         // Also update provider-specific fields for backward compatibility
-        if (selectedModel.provider === 'openai' || selectedModel.provider === 'openrouter' || selectedModel.provider === 'gitee') {
+        if (selectedModel.provider === 'openai' || selectedModel.provider === 'openrouter' || selectedModel.provider === 'gitee' || selectedModel.provider === 'anthropic' || selectedModel.provider === 'local') {
             providerConfig.model = selectedModel.id;
         } else if (selectedModel.provider === 'spark') {
             providerConfig.version = selectedModel.id;
@@ -308,7 +343,7 @@ export class ModelSelector extends AbstractDropdownMenuButton<AIModelOption> {
             model.aiModelConfig.modelId = selectedModel.id;
             
             // Also update provider-specific fields
-            if (selectedModel.provider === 'openai' || selectedModel.provider === 'openrouter' || selectedModel.provider === 'gitee') {
+            if (selectedModel.provider === 'openai' || selectedModel.provider === 'openrouter' || selectedModel.provider === 'gitee' || selectedModel.provider === 'anthropic' || selectedModel.provider === 'local') {
                 model.aiModelConfig.model = selectedModel.id;
             } else if (selectedModel.provider === 'spark') {
                 model.aiModelConfig.version = selectedModel.id;
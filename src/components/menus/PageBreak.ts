@@ -0,0 +1,19 @@
+import {AbstractMenuButton} from "../AbstractMenuButton.ts";
+
+export class PageBreak extends AbstractMenuButton {
+    constructor() {
+        super();
+        this.template = `
+        <div>
+        <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24"><path d="M4 2H6V7H18V2H20V9H4V2ZM4 22V15H20V22H18V17H6V22H4ZM2 11H6V13H2V11ZM8 11H11V13H8V11ZM13 11H16V13H13V11ZM18 11H22V13H18V11Z"></path></svg>
+        </div>
+        `;
+        this.registerClickListener();
+    }
+
+    // @ts-ignore
+    onClick(commands) {
+        commands.setPageBreak();
+    }
+
+}
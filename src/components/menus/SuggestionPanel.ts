@@ -0,0 +1,110 @@
+import {Editor, EditorEvents} from "@tiptap/core";
+import {t} from "i18next";
+import {getSuggestions} from "../../extensions/SuggestionExt.ts";
+import {AbstractMenuButton} from "../AbstractMenuButton.ts";
+
+/**
+ * 修订列表侧边栏，列出文档中的全部修订，可以逐条或者全部接受、拒绝
+ */
+export class SuggestionPanel extends AbstractMenuButton {
+    panel?: HTMLDivElement;
+
+    constructor() {
+        super();
+        this.template = `
+        <div>
+            <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="currentColor"><path d="M21 3C21.5523 3 22 3.44772 22 4V20C22 20.5523 21.5523 21 21 21H3C2.44772 21 2 20.5523 2 20V4C2 3.44772 2.44772 3 3 3H21ZM8 5H4V19H8V5ZM20 5H10V19H20V5ZM18 13V15H12V13H18ZM18 9V11H12V9H18Z"></path></svg>
+        </div>
+        `;
+        this.addEventListener("click", () => this.toggle());
+    }
+
+    toggle() {
+        if (this.panel) {
+            this.panel.remove();
+            this.panel = undefined;
+            return;
+        }
+        const container = this.closest(".aie-container") || this.editor?.view.dom.closest(".aie-container");
+        if (!container) return;
+
+        this.panel = document.createElement("div");
+        this.panel.classList.add("aie-suggestion-panel");
+        this.panel.addEventListener("click", (e) => {
+            const target = (e.target as HTMLElement).closest<HTMLElement>("[data-action]");
+            if (!target) return;
+            const id = target.closest<HTMLElement>("[data-id]")?.getAttribute("data-id") || undefined;
+            switch (target.getAttribute("data-action")) {
+                case "accept":
+                    this.editor?.commands.acceptSuggestion(id);
+                    break;
+                case "reject":
+                    this.editor?.commands.rejectSuggestion(id);
+                    break;
+                case "close":
+                    this.toggle();
+                    break;
+                case "focus":
+                    const pos = Number(target.getAttribute("data-pos"));
+                    this.editor?.chain().focus(pos).scrollIntoView().run();
+                    break;
+            }
+        });
+        container.appendChild(this.panel);
+        this.renderPanel();
+    }
+
+    renderPanel() {
+        if (!this.panel || !this.editor) return;
+        const suggestions = getSuggestions(this.editor.state.doc);
+        this.panel.innerHTML = `
+        <div class="aie-suggestion-panel-header">
+            <span>${t("suggestion-panel")} (${suggestions.length})</span>
+            <span class="aie-suggestion-panel-close" data-action="close">✕</span>
+        </div>
+        <div class="aie-suggestion-panel-actions">
+            <button type="button" data-action="accept" ${suggestions.length ? "" : "disabled"}>${t("ai-diff-accept-all")}</button>
+            <button type="button" data-action="reject" ${suggestions.length ? "" : "disabled"}>${t("ai-diff-reject-all")}</button>
+        </div>
+        <div class="aie-suggestion-panel-body"></div>
+        `;
+        const body = this.panel.querySelector(".aie-suggestion-panel-body")!;
+        if (suggestions.length === 0) {
+            body.innerHTML = `<div class="aie-suggestion-panel-empty">${t("suggestion-empty")}</div>`;
+            return;
+        }
+        for (let suggestion of suggestions) {
+            const item = document.createElement("div");
+            item.classList.add("aie-suggestion-panel-item");
+            item.setAttribute("data-id", suggestion.id);
+            item.innerHTML = `
+            <div class="aie-suggestion-panel-item-meta">
+                <span>${t(`suggestion-${suggestion.type}`)}</span>
+                <span class="aie-suggestion-panel-item-author"></span>
+                <span>${suggestion.time ? new Date(suggestion.time).toLocaleString() : ""}</span>
+            </div>
+            <div class="aie-suggestion-panel-item-text ${suggestion.type}" data-action="focus" data-pos="${suggestion.from}"></div>
+            <div class="aie-suggestion-panel-item-actions">
+                <span data-action="accept">${t("ai-diff-accept")}</span>
+                <span data-action="reject">${t("ai-diff-reject")}</span>
+            </div>
+            `;
+            // 修订人和内容由用户输入，不能作为 html 插入
+            item.querySelector(".aie-suggestion-panel-item-author")!.textContent = suggestion.author;
+            item.querySelector(".aie-suggestion-panel-item-text")!.textContent = suggestion.text;
+            body.appendChild(item);
+        }
+    }
+
+    onTransaction(event: EditorEvents["transaction"]): void {
+        super.onTransaction(event);
+        if (this.panel && event.transaction.docChanged) {
+            this.renderPanel();
+        }
+    }
+
+    onActive(_: Editor): boolean {
+        return !!this.panel;
+    }
+
+}
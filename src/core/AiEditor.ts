@@ -3,6 +3,7 @@ import {
     EditorEvents,
     EditorOptions,
     Extensions,
+    getHTMLFromFragment,
     getTextBetween,
     SingleCommands,
     Editor as Tiptap
@@ -33,12 +34,27 @@ import { Transaction } from "@tiptap/pm/state";
 import { AiGlobalConfig } from "../ai/AiGlobalConfig.ts";
 import { AiModelManager } from "../ai/AiModelManager.ts";
 import { defineCustomElement } from "../commons/defineCustomElement.ts";
+import {
+    CollaborationProvider,
+    CollaborationStatus,
+    CollaborationUser,
+    createWebsocketProvider
+} from "../collaboration/CollaborationProvider.ts";
 import { BubbleMenuItem } from "../components/bubbles/types.ts";
 import { DefaultToolbarKey } from "../components/DefaultToolbarKeys.ts";
 import { LanguageItem } from "../extensions/CodeBlockExt.ts";
+import { CommentItem, CommentThread, getCommentThreads } from "../extensions/CommentMarkExt.ts";
 import { FileUploadExt } from "../extensions/FileUploadExt.ts";
+import { resolveSuggestions } from "../extensions/SuggestionExt.ts";
+import { getDefaultStorage, migrateFromLocalStorage, StorageBackend, StorageQuota } from "../storage/StorageBackend.ts";
 import { organizeHTMLContent } from "../util/htmlUtil.ts";
+import { DocxExportOptions, exportToDocx } from "../util/docxExporter.ts";
+import { DocxImportMessage, DocxImportOptions, importDocx } from "../util/docxImporter.ts";
+import { readSpreadsheet, SpreadsheetImportOptions, spreadsheetToContent } from "../util/spreadsheet.ts";
+import { exportToPdf, PdfExportOptions } from "../util/pdfExporter.ts";
+import { EpubExportOptions, exportToEpub } from "../util/epubExporter.ts";
 import { htmlToMd, mdToHtml } from "../util/mdUtil.ts";
+import { uuid } from "../util/uuid.ts";
 
 defineCustomElement('aie-header', Header);
 defineCustomElement('aie-footer', Footer);
@@ -95,12 +111,19 @@ export interface HtmlPasteConfig {
 }
 
 
+export interface ExportOptions {
+    //修订的导出方式：include 保留修订标记，accept 接受全部修订，reject 拒绝全部修订
+    suggestions?: "include" | "accept" | "reject",
+}
+
 export type AiEditorOptions = {
     element: string | Element,
     content?: string,
     contentIsMarkdown?: boolean,
     contentRetention?: boolean,
     contentRetentionKey?: string,
+    //内容缓存、本地文档以及 AgentZero 记忆的存储后端，默认使用 IndexedDB
+    storage?: StorageBackend,
     lang?: string,
     editable?: boolean,
     i18n?: Record<string, Record<string, string>>,
@@ -116,6 +139,7 @@ export type AiEditorOptions = {
     onDestroy?: (editor: AiEditor) => void,
     onSave?: (editor: AiEditor) => boolean,
     onFullscreen?: (isFullscreen: boolean) => void,
+    onEvent?: (editor: AiEditor, event: AiEditorEvent) => void,
     toolbarKeys?: (string | CustomMenu | MenuGroup)[],
     alwaysEnabledToolbarKeys?: string[],
     toolbarExcludeKeys?: DefaultToolbarKey[],
@@ -152,6 +176,28 @@ export type AiEditorOptions = {
         defaultType?: string,
         typeItems?: string[],
     },
+    suggestion?: {
+        //修订人，记录在每一处修订中
+        author?: string,
+        //是否默认开启修订模式
+        enabled?: boolean,
+    },
+    comment?: {
+        //评论人，记录在每一条评论和回复中
+        author?: string,
+    },
+    collaboration?: {
+        //自定义的 provider，不配置时使用 url 和 documentName 创建 y-websocket 的 provider
+        provider?: CollaborationProvider,
+        url?: string,
+        documentName?: string,
+        token?: string,
+        userName?: string,
+        //光标以及选中内容的颜色，不配置时随机生成
+        userColor?: string,
+        onStatusChange?: (status: CollaborationStatus) => void,
+        onUsersUpdate?: (users: CollaborationUser[]) => void,
+    },
     uploader?: Uploader,
     image?: {
         customMenuInvoke?: (editor: AiEditor) => void;
@@ -192,6 +238,10 @@ export type AiEditorOptions = {
         maxExtractSize?: number,
         supportedFormats?: string[],
         parseMode?: 'auto' | 'ask' | 'always' | 'never',
+        //导入 .docx 文件后，接收无法导入的内容的说明
+        onImportMessages?: (file: File, messages: DocxImportMessage[]) => void,
+        //导入包含多个工作表的 Excel 文件时，选择要导入的工作表，默认弹出选择框
+        onSelectSheets?: (file: File, sheetNames: string[]) => string[] | Promise<string[]>,
     },
     fontFamily?: {
         values: NameAndValue[]
@@ -206,6 +256,12 @@ export type AiEditorOptions = {
     emoji?: {
         values?: string[]
     },
+    //导出 PDF 的默认配置，toc 为 true 时在正文之前生成目录
+    pdfExport?: PdfExportOptions & {
+        toc?: boolean,
+    },
+    //导出 EPUB 的默认配置，chapterLevel 为拆分章节的标题级别
+    epubExport?: EpubExportOptions,
     textCounter?: (text: string) => number,
     ai?: AiGlobalConfig,
 } & Partial<Omit<EditorOptions, "element">>
@@ -266,10 +322,22 @@ export class AiEditor {
 
     eventComponents: AiEditorEventListener[] = [];
 
+    collaborationProvider?: CollaborationProvider;
+
+    private collaborationContent?: any;
+
+    storage: StorageBackend;
+
     private _hasShownStorageWarning: boolean = false;
 
+    // 缓存的内容加载完成之前不保存，避免初始内容覆盖缓存的内容
+    private retentionReady: boolean = false;
+    //缓存内容加载完成之前，用户是否已经修改了内容
+    private retentionDirty: boolean = false;
+
     constructor(_: AiEditorOptions) {
         this.options = {...defaultOptions, ..._};
+        this.storage = this.options.storage || getDefaultStorage();
         this.initI18nAndInnerEditor();
     }
 
@@ -342,15 +410,10 @@ export class AiEditor {
             }
         }
 
-        if (this.options.contentRetention && this.options.contentRetentionKey) {
-            const cacheContent = localStorage.getItem(this.options.contentRetentionKey);
-            if (cacheContent) {
-                try {
-                    content = JSON.parse(cacheContent);
-                } catch (e) {
-                    console.error(e, "Can not parse the cache content from localStorage.");
-                }
-            }
+        if (this.options.collaboration) {
+            this.initCollaboration(content);
+            // 协同编辑时文档内容以 provider 同步的内容为准
+            content = undefined;
         }
 
         this.innerEditor = new InnerEditor(this, {
@@ -376,6 +439,45 @@ export class AiEditor {
     }
 
 
+    private initCollaboration(content: any) {
+        const collaboration = this.options.collaboration!;
+        this.collaborationContent = content;
+        this.collaborationProvider = collaboration.provider || createWebsocketProvider({
+            url: collaboration.url!,
+            documentName: collaboration.documentName!,
+            token: collaboration.token,
+        });
+        this.collaborationProvider.on("status", this.onCollaborationStatus);
+        this.collaborationProvider.on("synced", this.onCollaborationSynced);
+    }
+
+    private onCollaborationStatus = ({status}: { status: CollaborationStatus }) => {
+        this.options.collaboration?.onStatusChange?.(status);
+        this.dispatchEvent({type: "collaboration-status", value: status});
+    }
+
+    private onCollaborationSynced = (synced: boolean) => {
+        const provider = this.collaborationProvider;
+        if (!synced || !provider || !this.innerEditor || this.innerEditor.isDestroyed) return;
+        // 服务器上还没有这个文档时，使用 options.content 作为初始内容
+        if (this.collaborationContent && provider.doc.getXmlFragment("default").length === 0) {
+            this.innerEditor.commands.setContent(this.collaborationContent);
+        }
+        this.collaborationContent = undefined;
+    }
+
+    private destroyCollaboration() {
+        const provider = this.collaborationProvider;
+        if (!provider) return;
+        provider.off?.("status", this.onCollaborationStatus);
+        provider.off?.("synced", this.onCollaborationSynced);
+        // 用户传入的 provider 由用户自己销毁
+        if (!this.options.collaboration?.provider) {
+            provider.destroy();
+        }
+        this.collaborationProvider = undefined;
+    }
+
     protected getExtensions() {
         let extensions = getExtensions(this, this.options);
 
@@ -395,6 +497,9 @@ export class AiEditor {
                 extractContent: this.options.fileUpload?.extractContent,
                 maxExtractSize: this.options.fileUpload?.maxExtractSize,
                 supportedFormats: this.options.fileUpload?.supportedFormats,
+                parseMode: this.options.fileUpload?.parseMode,
+                onImportMessages: this.options.fileUpload?.onImportMessages,
+                onSelectSheets: this.options.fileUpload?.onSelectSheets,
             })
         );
 
@@ -418,6 +523,14 @@ export class AiEditor {
         const _footer = this.container.querySelector(".aie-container-footer") || this.container;
         _footer.appendChild(this.footer);
 
+        if (this.collaborationProvider?.synced) {
+            this.onCollaborationSynced(true);
+        }
+
+        if (this.options.contentRetention && this.options.contentRetentionKey && !this.collaborationProvider) {
+            this.loadRetention(this.options.contentRetentionKey);
+        }
+
         // Register AI models if configured
         if (this.options.ai && typeof this.options.ai === 'object') {
             try {
@@ -447,127 +560,92 @@ export class AiEditor {
             this.options.onChange(this);
         }
 
-        if (transEvent.transaction.docChanged && this.options.contentRetention && this.options.contentRetentionKey) {
-            const html = transEvent.editor.getHTML();
-            if ("<p></p>" === html || "" === html) {
-                try {
-                    localStorage.removeItem(this.options.contentRetentionKey);
-                } catch (e) {
-                    console.warn("Failed to remove item from localStorage:", e);
-                }
+        if (transEvent.transaction.docChanged && this.options.contentRetention && this.options.contentRetentionKey && !this.collaborationProvider) {
+            if (this.retentionReady) {
+                this.saveRetention(this.options.contentRetentionKey);
             } else {
-                const json = transEvent.editor.getJSON();
-                try {
-                    // Try to save the content to localStorage
-                    const jsonString = JSON.stringify(json);
-                    
-                    // Check if content is likely to exceed quota (over 4MB to leave some buffer)
-                    if (jsonString.length > 4 * 1024 * 1024) {
-                        console.warn("Content too large for localStorage, consider using 'Save to File' feature");
-                        
-                        // We'll mark that we've warned the user
-                        if (!this._hasShownStorageWarning) {
-                            this._hasShownStorageWarning = true;
-                            
-                            // Show the dialog only once per session
-                            setTimeout(() => {
-                                this.offerFileDownload().catch(err => {
-                                    console.error("Error offering file download:", err);
-                                });
-                            }, 1000);
-                        }
-                        
-                        // Still try to store a simplified version
-                        const simplifiedJson = { ...json };
-                        // Remove any large content like base64 images
-                        const pruneNodes = (node) => {
-                            if (!node || !node.content) return node;
-                            
-                            // Process node content
-                            if (Array.isArray(node.content)) {
-                                node.content = node.content.map(child => {
-                                    // Remove image data or other large attributes
-                                    if (child.type === 'image' && child.attrs && child.attrs.src) {
-                                        // If it's a base64 image, replace with a placeholder
-                                        if (child.attrs.src.startsWith('data:')) {
-                                            child.attrs.src = '[Image data too large to store]';
-                                        }
-                                    }
-                                    return pruneNodes(child);
-                                });
-                            }
-                            return node;
-                        };
-                        
-                        const prunedJson = pruneNodes(simplifiedJson);
-                        localStorage.setItem(this.options.contentRetentionKey, JSON.stringify(prunedJson));
-                        return; // Skip the regular localStorage attempt
-                    }
-                    
-                    // Standard case - try to save to localStorage
-                    localStorage.setItem(this.options.contentRetentionKey, jsonString);
-                } catch (error) {
-                    console.warn("LocalStorage quota exceeded. Content too large to save automatically.", error);
-                    
-                    // Show save dialog only once per session
-                    if (!this._hasShownStorageWarning) {
-                        this._hasShownStorageWarning = true;
-                        setTimeout(() => {
-                            this.offerFileDownload().catch(err => {
-                                console.error("Error offering file download:", err);
-                            });
-                        }, 1000);
-                    }
-                    
-                    // Handle the error gracefully
-                    if (error.name === 'QuotaExceededError') {
-                        // Try to save a truncated version or just the essential parts
-                        try {
-                            // Option 1: Save just the document structure without images
-                            const simplifiedJson = { ...json };
-                            // Remove any large content like base64 images
-                            const pruneNodes = (node) => {
-                                if (!node || !node.content) return node;
-                                
-                                // Process node content
-                                if (Array.isArray(node.content)) {
-                                    node.content = node.content.map(child => {
-                                        // Remove image data or other large attributes
-                                        if (child.type === 'image' && child.attrs && child.attrs.src) {
-                                            // If it's a base64 image, replace with a placeholder
-                                            if (child.attrs.src.startsWith('data:')) {
-                                                child.attrs.src = '[Image data too large to store]';
-                                            }
-                                        }
-                                        return pruneNodes(child);
-                                    });
-                                }
-                                return node;
-                            };
-                            
-                            const prunedJson = pruneNodes(simplifiedJson);
-                            localStorage.setItem(this.options.contentRetentionKey, JSON.stringify(prunedJson));
-                            console.log("Saved simplified version without large embedded content");
-                        } catch (fallbackError) {
-                            // If even the simplified version is too large
-                            console.error("Unable to save document state - content too large for localStorage", fallbackError);
-                            
-                            // Remove the key to free up space for future saves of smaller content
-                            try {
-                                localStorage.removeItem(this.options.contentRetentionKey);
-                            } catch (e) {
-                                // At this point, we've tried everything we can
-                                console.error("Failed to manage localStorage:", e);
-                            }
-                        }
-                    }
-                }
+                this.retentionDirty = true;
             }
         }
     }
 
-    getHtml() {
-        return this.innerEditor.getHTML();
+    /**
+     * 加载缓存的内容，旧版本保存在 localStorage 中的内容会先迁移到 storage。
+     * 读取是异步的，如果用户在读取完成之前已经输入了内容，则保留用户的内容并保存，不再恢复缓存
+     */
+    private async loadRetention(key: string) {
+        try {
+            await migrateFromLocalStorage(this.storage, [key]);
+            const content = await this.storage.getItem(key);
+            if (content && !this.retentionDirty && !this.innerEditor.isDestroyed) {
+                this.innerEditor.chain().setMeta("ignoreChanged", true).setMeta("addToHistory", false)
+                    .setContent(content).run();
+            }
+        } catch (e) {
+            console.error(e, "Can not load the cache content from storage.");
+        } finally {
+            this.retentionReady = true;
+            if (this.retentionDirty && !this.innerEditor.isDestroyed) {
+                this.saveRetention(key);
+            }
+        }
+    }
+
+    private saveRetention(key: string) {
+        const html = this.innerEditor.getHTML();
+        if ("<p></p>" === html || "" === html) {
+            this.storage.removeItem(key).catch((e) => {
+                console.warn("Failed to remove the cache content from storage:", e);
+            });
+            return;
+        }
+
+        const json = this.innerEditor.getJSON();
+        this.storage.setItem(key, json).catch((error) => {
+            console.warn("Storage quota exceeded. Content too large to save automatically.", error);
+
+            // Show save dialog only once per session
+            if (!this._hasShownStorageWarning) {
+                this._hasShownStorageWarning = true;
+                setTimeout(() => {
+                    this.offerFileDownload().catch(err => {
+                        console.error("Error offering file download:", err);
+                    });
+                }, 1000);
+            }
+
+            // Save just the document structure without base64 images
+            const pruneNodes = (node: any) => {
+                if (!node || !Array.isArray(node.content)) return node;
+                node.content = node.content.map((child: any) => {
+                    if (child.type === 'image' && child.attrs?.src?.startsWith('data:')) {
+                        child.attrs.src = '[Image data too large to store]';
+                    }
+                    return pruneNodes(child);
+                });
+                return node;
+            };
+            return this.storage.setItem(key, pruneNodes(json)).catch((fallbackError) => {
+                console.error("Unable to save document state - content too large for storage", fallbackError);
+                // Remove the key to free up space for future saves of smaller content
+                return this.storage.removeItem(key);
+            });
+        }).catch((e) => {
+            console.error("Failed to manage the cache content in storage:", e);
+        });
+    }
+
+    /**
+     * 获取 html 内容
+     * @param options suggestions 为 "accept" 或 "reject" 时，导出接受或者拒绝全部修订后的内容，默认保留修订
+     */
+    getHtml(options?: ExportOptions) {
+        if (!options?.suggestions || options.suggestions === "include") {
+            return this.innerEditor.getHTML();
+        }
+        const tr = this.innerEditor.state.tr;
+        resolveSuggestions(tr, options.suggestions === "accept");
+        return getHTMLFromFragment(tr.doc.content, this.innerEditor.schema);
     }
 
     getJson() {
@@ -584,8 +662,50 @@ export class AiEditor {
         return getTextBetween(this.innerEditor.state.doc, {from: selection.from, to: selection.to})
     }
 
-    getMarkdown() {
-        return htmlToMd(this.getHtml())
+    getMarkdown(options?: ExportOptions) {
+        return htmlToMd(this.getHtml(options))
+    }
+
+    /**
+     * 导出为 Word 文档（.docx）
+     * @param options suggestions 为 "accept" 或 "reject" 时，导出接受或者拒绝全部修订后的内容，默认保留修订
+     */
+    getDocx(options?: ExportOptions & DocxExportOptions): Promise<Blob> {
+        let doc = this.innerEditor.state.doc;
+        if (options?.suggestions && options.suggestions !== "include") {
+            const tr = this.innerEditor.state.tr;
+            resolveSuggestions(tr, options.suggestions === "accept");
+            doc = tr.doc;
+        }
+        return exportToDocx(doc.toJSON(), options);
+    }
+
+    /**
+     * 导出为 PDF 文档，分页、页眉页脚和目录由编辑器自己排版，不依赖浏览器的打印
+     * @param options 默认使用 pdfExport 配置；toc 为 true 时根据 getOutline() 生成目录
+     */
+    getPdf(options?: ExportOptions & PdfExportOptions & { toc?: boolean }): Promise<Blob> {
+        const config = {...this.options.pdfExport, ...options};
+        // getOutline 会为标题设置 id，目录通过 id 链接到标题，所以需要在读取文档之前调用
+        const outline = config.toc ? this.getOutline() : config.outline;
+        let doc = this.innerEditor.state.doc;
+        if (config.suggestions && config.suggestions !== "include") {
+            const tr = this.innerEditor.state.tr;
+            resolveSuggestions(tr, config.suggestions === "accept");
+            doc = tr.doc;
+        }
+        return exportToPdf(doc.toJSON(), {...config, outline});
+    }
+
+    /**
+     * 导出为 EPUB 3 电子书，在 chapterLevel 级别的标题处拆分章节，并根据 getOutline() 生成目录
+     * @param options 默认使用 epubExport 配置，语言默认为编辑器的 lang
+     */
+    getEpub(options?: ExportOptions & EpubExportOptions): Promise<Blob> {
+        const config = {lang: this.options.lang, ...this.options.epubExport, ...options};
+        // getOutline 会为标题设置 id，目录通过 id 链接到标题，所以需要在读取 HTML 之前调用
+        const outline = config.outline || this.getOutline();
+        return exportToEpub(this.getHtml(config), {...config, outline});
     }
 
     getOptions() {
@@ -650,6 +770,84 @@ export class AiEditor {
         return headings;
     }
 
+    /**
+     * 派发事件到 eventComponents 以及 options.onEvent
+     */
+    dispatchEvent(event: AiEditorEvent) {
+        this.eventComponents.forEach((component) => {
+            component.onEvent?.(event);
+        });
+        this.options.onEvent?.(this, event);
+    }
+
+    getComments(): CommentThread[] {
+        return getCommentThreads(this.innerEditor.state.doc);
+    }
+
+    getComment(threadId: string) {
+        return this.getComments().find(thread => thread.id === threadId);
+    }
+
+    private createCommentItem(content: string, author?: string): CommentItem {
+        return {id: uuid(), author: author ?? this.options.comment?.author ?? "", content, time: Date.now()};
+    }
+
+    /**
+     * 添加评论，没有评论的内容时返回 undefined
+     * @param content
+     * @param range 评论的内容范围，默认为当前选中的内容
+     * @param author 评论人，默认为 options.comment.author
+     */
+    addComment(content: string, range?: { from: number, to: number }, author?: string) {
+        const comment = this.createCommentItem(content, author);
+        const threadId = uuid();
+        if (!this.innerEditor.commands.addCommentThread({threadId, comments: [comment], resolved: false}, range)) {
+            return;
+        }
+        const thread = this.getComment(threadId)!;
+        this.dispatchEvent({type: "comment-add", value: {thread, comment}});
+        return thread;
+    }
+
+    replyComment(threadId: string, content: string) {
+        const thread = this.getComment(threadId);
+        if (!thread) return;
+        const comment = this.createCommentItem(content);
+        this.innerEditor.commands.updateCommentThread(threadId, {comments: [...thread.comments, comment]});
+        this.dispatchEvent({type: "comment-reply", value: {thread: this.getComment(threadId), comment}});
+        return comment;
+    }
+
+    resolveComment(threadId: string, resolved: boolean = true) {
+        if (!this.innerEditor.commands.updateCommentThread(threadId, {resolved})) {
+            return false;
+        }
+        this.dispatchEvent({type: "comment-resolve", value: {thread: this.getComment(threadId)}});
+        return true;
+    }
+
+    /**
+     * 删除评论，不传 commentId 或者删除的是第一条评论时，删除整个评论
+     * @param threadId
+     * @param commentId
+     */
+    deleteComment(threadId: string, commentId?: string) {
+        const thread = this.getComment(threadId);
+        if (!thread) return false;
+        const comment = thread.comments.find(comment => comment.id === commentId);
+        if (!commentId || thread.comments[0]?.id === commentId) {
+            this.innerEditor.commands.removeCommentThread(threadId);
+            this.dispatchEvent({type: "comment-delete", value: {thread, comment}});
+            return true;
+        }
+        if (!comment) return false;
+        this.innerEditor.commands.updateCommentThread(threadId, {
+            comments: thread.comments.filter(item => item.id !== commentId)
+        });
+        this.dispatchEvent({type: "comment-delete", value: {thread: this.getComment(threadId), comment}});
+        return true;
+    }
+
     focus() {
         this.innerEditor.commands.focus();
         return this;
@@ -692,6 +890,34 @@ export class AiEditor {
         return this;
     }
 
+    /**
+     * 在光标位置插入 Word 文档（.docx）的内容，保留标题、列表、表格、图片以及对齐、字号、颜色等格式
+     * @param file .docx 文件
+     * @param options
+     * @return 无法导入的内容的说明
+     */
+    async insertDocx(file: Blob | ArrayBuffer, options?: DocxImportOptions): Promise<DocxImportMessage[]> {
+        const arrayBuffer = file instanceof ArrayBuffer ? file : await file.arrayBuffer();
+        const {html, messages} = await importDocx(arrayBuffer, options);
+        this.innerEditor.commands.insertContent(html);
+        return messages;
+    }
+
+    /**
+     * 在光标位置以表格的形式插入电子表格（.xlsx、.xls 或 .csv）的工作表，合并的单元格会保留，并自动识别表头行
+     * @param file 电子表格文件，CSV 也可以是文本
+     * @param options
+     * @return 已导入的工作表的名称
+     */
+    async insertSpreadsheet(file: Blob | ArrayBuffer | string, options: SpreadsheetImportOptions = {}): Promise<string[]> {
+        const data = file instanceof Blob ? await file.arrayBuffer() : file;
+        const csv = options.csv ?? (file instanceof File && file.name.toLowerCase().endsWith('.csv'));
+        const sheets = readSpreadsheet(data, {csv}).filter(sheet => sheet.rows.length > 0)
+            .filter(sheet => !options.sheets || options.sheets.includes(sheet.name));
+        this.innerEditor.commands.insertContent(spreadsheetToContent(sheets, options));
+        return sheets.map(sheet => sheet.name);
+    }
+
     setEditable(editable: boolean) {
         this.options.editable = editable;
         this.innerEditor.setEditable(editable, true);
@@ -742,13 +968,23 @@ export class AiEditor {
     }
 
     removeRetention() {
-        this.options.contentRetentionKey && localStorage.removeItem(this.options.contentRetentionKey);
+        this.options.contentRetentionKey && this.storage.removeItem(this.options.contentRetentionKey).catch((e) => {
+            console.warn("Failed to remove the cache content from storage:", e);
+        });
         return this;
     }
 
+    /**
+     * 获取存储后端的空间使用情况，存储后端不支持时返回 null
+     */
+    getStorageQuota(): Promise<StorageQuota | null> {
+        return this.storage.estimate ? this.storage.estimate() : Promise.resolve(null);
+    }
+
     destroy() {
         this.options.onDestroy?.(this);
         this.innerEditor.destroy();
+        this.destroyCollaboration();
         this.eventComponents = [];
 
         //custom layout
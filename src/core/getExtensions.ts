@@ -1,5 +1,7 @@
 import { Extensions } from "@tiptap/core";
 import { CharacterCount } from "@tiptap/extension-character-count";
+import { Collaboration } from "@tiptap/extension-collaboration";
+import { CollaborationCursor } from "@tiptap/extension-collaboration-cursor";
 import { Color } from "@tiptap/extension-color";
 import { FontFamily } from "@tiptap/extension-font-family";
 import { Highlight } from "@tiptap/extension-highlight";
@@ -18,8 +20,10 @@ import { TextStyle } from "@tiptap/extension-text-style";
 import { Underline } from "@tiptap/extension-underline";
 import StarterKit from "@tiptap/starter-kit";
 import { all, createLowlight } from "lowlight";
+import { CollaborationUser, randomUserColor } from "../collaboration/CollaborationProvider.ts";
 import { AgentZeroExt } from "../extensions/AgentZeroExt.ts";
 import { AiCommandExt, defaultCommands } from "../extensions/AiCommandExt.ts";
+import { AiDiffExt } from "../extensions/AiDiffExt.ts";
 import { AttachmentExt } from "../extensions/AttachmentExt.ts";
 import { ClassNameExt } from "../extensions/ClassNameExt.ts";
 import { CodeBlockExt, languages } from "../extensions/CodeBlockExt.ts";
@@ -35,20 +39,23 @@ import { IndentExt } from "../extensions/IndentExt.ts";
 import { LineHeightExt } from "../extensions/LineHeightExt.ts";
 import { LocalDocsExt } from "../extensions/LocalDocsExt.ts";
 import { createMention } from "../extensions/MentionExt.ts";
+import { PageBreakExt } from "../extensions/PageBreakExt.ts";
 import { PainterExt } from "../extensions/PainterExt.ts";
 import { PasteExt } from "../extensions/PasteExt.ts";
 import { SaveExt } from "../extensions/SaveExt.ts";
 import { SelectionMarkerExt } from "../extensions/SelectionMarkerExt.ts";
 import { SmartAutoCorrectExt } from "../extensions/SmartAutoCorrectExt.ts";
+import { SuggestionExt } from "../extensions/SuggestionExt.ts";
 import { VideoExt } from "../extensions/VideoExt.ts";
 import { AiEditor, AiEditorOptions } from "./AiEditor.ts";
 import { getBubbleMenus } from "./getBubbleMenus.ts";
 
 export const getExtensions = (editor: AiEditor, options: AiEditorOptions): Extensions => {
-    // the Collaboration extension comes with its own history handling
     const ret: Extensions = [StarterKit.configure({
         codeBlock: false,
         heading: false,
+        // the Collaboration extension comes with its own history handling
+        history: editor.collaborationProvider ? false : undefined,
     })];
 
     // Add AgentZero extension early in the extensions chain
@@ -63,7 +70,8 @@ export const getExtensions = (editor: AiEditor, options: AiEditorOptions): Exten
                     browserAgent: options.ai?.agentZero?.browserAgent !== undefined ? options.ai.agentZero.browserAgent : false,
                     apiKey: options.ai?.agentZero?.apiKey,
                     endpoint: options.ai?.agentZero?.endpoint,
-                    customPrompts: options.ai?.agentZero?.customPrompts || {}
+                    customPrompts: options.ai?.agentZero?.customPrompts || {},
+                    storage: editor.storage
                 }
             })
         );
@@ -81,7 +89,13 @@ export const getExtensions = (editor: AiEditor, options: AiEditorOptions): Exten
                 uploaderEvent: options.attachment?.uploaderEvent,
             }),
             PainterExt,
+            PageBreakExt,
             SelectionMarkerExt,
+            AiDiffExt,
+            SuggestionExt.configure({
+                author: options.suggestion?.author || "",
+                enabled: options.suggestion?.enabled || false,
+            }),
             CommentMarkExt,
             Highlight.configure({
                 multicolor: true
@@ -197,7 +211,10 @@ export const getExtensions = (editor: AiEditor, options: AiEditorOptions): Exten
     ret.push(LocalDocsExt.configure({
         storagePrefix: 'aieditor',
         maxDocuments: 100,
+        maxRevisions: 50,
         autoSaveInterval: 30000, // 30 seconds
+        embed: options.ai?.askDocuments?.embed,
+        chunkSize: options.ai?.askDocuments?.chunkSize,
         onDocumentSaved: (doc) => {
             console.log('Document saved:', doc.id, doc.title);
         },
@@ -209,5 +226,22 @@ export const getExtensions = (editor: AiEditor, options: AiEditorOptions): Exten
         }
     }));
 
+    if (editor.collaborationProvider) {
+        ret.push(Collaboration.configure({
+            document: editor.collaborationProvider.doc,
+        }), CollaborationCursor.configure({
+            provider: editor.collaborationProvider,
+            user: {
+                name: options.collaboration?.userName || "",
+                color: options.collaboration?.userColor || randomUserColor(),
+            },
+            onUpdate: (users) => {
+                options.collaboration?.onUsersUpdate?.(users as CollaborationUser[]);
+                editor.dispatchEvent({type: "collaboration-users", value: users});
+                return null;
+            },
+        }));
+    }
+
     return ret;
 }
@@ -1,8 +1,10 @@
 import { Extension } from '@tiptap/core';
 import { AiModelManager } from '../ai/AiModelManager.ts';
+import { AiError } from '../ai/core/AiError.ts';
 import { DefaultAiMessageListener } from '../ai/core/DefaultAiMessageListener.ts';
 import { AgentZeroPanel } from '../components/AgentZeroPanel.ts';
 import { InnerEditor } from '../core/AiEditor.ts';
+import { getDefaultStorage, migrateFromLocalStorage, StorageBackend } from '../storage/StorageBackend.ts';
 
 export interface AgentZeroOptions {
   // Agent Zero configuration options
@@ -13,8 +15,12 @@ export interface AgentZeroOptions {
   customPrompts: Record<string, string>;
   apiKey?: string;
   endpoint?: string;
+  // Where the memory is persisted, defaults to IndexedDB when available
+  storage?: StorageBackend;
 }
 
+const MEMORY_STORAGE_KEY = 'agentZeroMemory';
+
 export interface MemoryItem {
   content: string;
   timestamp: Date;
@@ -30,6 +36,8 @@ export interface Agent {
   subordinates: string[];
   superior: string | null;
   status: 'idle' | 'working' | 'done' | 'error';
+  // The error of the last failed task, shown in the agent panel
+  lastError?: AiError;
 }
 
 export const defaultAgentZeroOptions: AgentZeroOptions = {
@@ -50,16 +58,19 @@ export class AgentZeroManager {
   private activeAgentId: string = 'main';
   private toolHistory: any[] = [];
   private panel: AgentZeroPanel | null = null;
+  private storage: StorageBackend;
+  private memoryLoaded: Promise<void>;
   
   constructor(editor: InnerEditor, options: Partial<AgentZeroOptions> = {}) {
     this.editor = editor;
     this.options = { ...defaultAgentZeroOptions, ...options };
+    this.storage = this.options.storage || getDefaultStorage();
     
     // Initialize the main agent
     this.createAgent('main');
     
-    // Load memory from localStorage
-    this.loadMemory();
+    // Load memory from the storage backend
+    this.memoryLoaded = this.loadMemory();
   }
 
   /**
@@ -170,6 +181,7 @@ export class AgentZeroManager {
     
     const wrappedListener: DefaultAiMessageListener = {
       onStart: () => {
+        agent.lastError = undefined;
         customListener.onStart?.();
       },
       onMessage: (message: string) => {
@@ -181,13 +193,22 @@ export class AgentZeroManager {
       onStop: () => {
         customListener.onStop?.();
         
-        // Update agent status to done
-        this.updateAgentStatus(agent.id, 'done');
+        // Update agent status to done, keeping the error status of a failed task
+        if (agent.status !== 'error') {
+          this.updateAgentStatus(agent.id, 'done');
+        }
+        this.panel?.refreshAgents();
       },
-      onError: (error: Error) => {
+      onError: (error: AiError) => {
         customListener.onError?.(error);
         
+        // Another model takes over the task, so it has not failed yet
+        if (error.fallbackModel) {
+          return;
+        }
+        
         // Update agent status to error
+        agent.lastError = error;
         this.updateAgentStatus(agent.id, 'error');
       }
     };
@@ -210,7 +231,7 @@ export class AgentZeroManager {
       
       agent.memory.push(memoryItem);
       
-      // Save memory to localStorage
+      // Save memory to the storage backend
       this.saveMemory();
     }
     
@@ -289,7 +310,7 @@ export class AgentZeroManager {
     
     agent.memory.push(memoryItem);
     
-    // Save memory to localStorage
+    // Save memory to the storage backend
     this.saveMemory();
     
     return memoryItem;
@@ -320,8 +341,10 @@ export class AgentZeroManager {
       }
     });
     
-    // Clear localStorage
-    localStorage.removeItem('agentZeroMemory');
+    // Clear the persisted memory
+    this.storage.removeItem(MEMORY_STORAGE_KEY).catch(error => {
+      console.error('Error clearing memory:', error);
+    });
   }
   
   /**
@@ -337,26 +360,25 @@ export class AgentZeroManager {
   }
   
   /**
-   * Save memory to localStorage
+   * Save memory to the storage backend
    */
   private saveMemory() {
-    try {
-      const allMemory = this.getAllMemory();
-      localStorage.setItem('agentZeroMemory', JSON.stringify(allMemory));
-    } catch (error) {
+    // Wait for the persisted memory, otherwise it would be overwritten by the new items only
+    this.memoryLoaded.then(() => {
+      return this.storage.setItem(MEMORY_STORAGE_KEY, this.getAllMemory());
+    }).catch(error => {
       console.error('Error saving memory:', error);
-    }
+    });
   }
   
   /**
-   * Load memory from localStorage
+   * Load memory from the storage backend, migrating the memory saved in localStorage by older versions
    */
-  private loadMemory() {
+  private async loadMemory() {
     try {
-      const savedMemory = localStorage.getItem('agentZeroMemory');
-      if (savedMemory) {
-        const memoryItems: MemoryItem[] = JSON.parse(savedMemory);
-        
+      await migrateFromLocalStorage(this.storage, [MEMORY_STORAGE_KEY]);
+      const memoryItems = await this.storage.getItem<MemoryItem[]>(MEMORY_STORAGE_KEY);
+      if (memoryItems) {
         // Convert string dates back to Date objects
         memoryItems.forEach(item => {
           item.timestamp = new Date(item.timestamp);
@@ -376,6 +398,11 @@ export class AgentZeroManager {
             agent.memory.push(item);
           }
         });
+        
+        // Items added while loading are newer than the persisted ones
+        this.agents.forEach(agent => {
+          agent.memory?.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+        });
       }
     } catch (error) {
       console.error('Error loading memory:', error);
@@ -5,6 +5,7 @@ import Suggestion, {SuggestionOptions, SuggestionProps} from '@tiptap/suggestion
 
 import tippy, {Instance} from "tippy.js";
 import {AiModelManager} from "../ai/AiModelManager.ts";
+import {AiConversationManager} from "../ai/AiConversationManager.ts";
 import {AiEditorOptions, InnerEditor} from "../core/AiEditor.ts";
 import {DefaultAiMessageListener} from "../ai/core/DefaultAiMessageListener.ts";
 import {AiMenu} from "../ai/AiGlobalConfig.ts";
@@ -27,6 +28,7 @@ export const defaultCommands = [
         name: "AI 提问",
         prompt: "",
         model: "auto",
+        conversation: "ai-command-ask",
     },
     {
         icon: '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24"><path d="M5 15V17C5 18.0544 5.81588 18.9182 6.85074 18.9945L7 19H10V21H7C4.79086 21 3 19.2091 3 17V15H5ZM18 10L22.4 21H20.245L19.044 18H14.954L13.755 21H11.601L16 10H18ZM17 12.8852L15.753 16H18.245L17 12.8852ZM8 2V4H12V11H8V14H6V11H2V4H6V2H8ZM17 3C19.2091 3 21 4.79086 21 7V9H19V7C19 5.89543 18.1046 5 17 5H14V3H17ZM6 6H4V9H6V6ZM10 6H8V9H10V6Z" fill="currentColor"></path></svg>',
@@ -141,7 +143,12 @@ export const AiCommandExt = Extension.create<AiCommandOptions>({
                             const useModelType = aiMenu.model!;
                             const aiModel = AiModelManager.get(aiMenu.model!);
                             if (aiModel) {
-                                aiModel?.chat(selectedText, aiMenu.prompt!, new DefaultAiMessageListener(editor));
+                                const conversation = aiMenu.conversation ? AiConversationManager.get(aiMenu.conversation) : undefined;
+                                aiModel?.chat(selectedText, aiMenu.prompt!, new DefaultAiMessageListener(editor), {
+                                    conversation,
+                                    systemPrompt: aiMenu.systemPrompt,
+                                    tools: aiMenu.tools,
+                                });
                             } else {
                                 console.error("Ai model config error. can not find the type:" + useModelType + " at command menu")
                             }
@@ -0,0 +1,228 @@
+import {Extension} from "@tiptap/core";
+import {Node} from "@tiptap/pm/model";
+import {EditorState, Plugin, PluginKey, Transaction} from "@tiptap/pm/state";
+import {Decoration, DecorationSet} from "@tiptap/pm/view";
+import {t} from "i18next";
+import {diffWords, toDiffHunks} from "../util/textDiff.ts";
+import {uuid} from "../util/uuid.ts";
+
+declare module '@tiptap/core' {
+    interface Commands<ReturnType> {
+        aiDiff: {
+            /**
+             * 以修订的方式显示 AI 对 from 到 to 之间内容的修改
+             */
+            showAiDiff: (options: { from: number, to: number, text: string }) => ReturnType,
+            /**
+             * 接受修改，不传 id 时接受全部修改
+             */
+            acceptAiDiff: (id?: string) => ReturnType,
+            /**
+             * 拒绝修改，不传 id 时拒绝全部修改
+             */
+            rejectAiDiff: (id?: string) => ReturnType,
+        }
+    }
+}
+
+export interface AiDiffHunk {
+    id: string,
+    from: number,
+    to: number,
+    text: string,
+}
+
+type AiDiffAction = {
+    type: "show",
+    hunks: AiDiffHunk[],
+} | {
+    type: "remove",
+    ids: string[],
+}
+
+export const aiDiffPluginKey = new PluginKey<AiDiffHunk[]>("aie-ai-diff");
+
+/**
+ * 获取 from 到 to 之间的文本，以及每个字符在文档中的位置，段落之间使用 \n 分隔
+ * positions 比 text 多一个元素，为最后一个字符之后的位置
+ */
+export const getTextWithPositions = (doc: Node, from: number, to: number) => {
+    let text = "";
+    const positions: number[] = [];
+    let blockEnd = -1;
+    doc.nodesBetween(from, to, (node, pos) => {
+        if (node.isTextblock) {
+            if (blockEnd >= 0) {
+                text += "\n";
+                positions.push(blockEnd);
+            }
+            blockEnd = Math.min(to, pos + node.nodeSize - 1);
+        } else if (node.isText) {
+            const start = Math.max(from, pos);
+            const end = Math.min(to, pos + node.nodeSize);
+            for (let i = start; i < end; i++) {
+                text += node.text![i - pos];
+                positions.push(i);
+            }
+        }
+        return true;
+    });
+    positions.push(blockEnd >= 0 ? blockEnd : to);
+    return {text, positions};
+}
+
+/**
+ * 使用新内容替换 from 到 to 之间的内容，新内容中的 \n 会拆分为多个段落
+ */
+const replaceText = (tr: Transaction, from: number, to: number, text: string) => {
+    const lines = text.split("\n");
+    if (lines[0]) {
+        tr.insertText(lines[0], from, to);
+    } else if (from < to) {
+        tr.delete(from, to);
+    }
+    let pos = from + lines[0].length;
+    for (let line of lines.slice(1)) {
+        tr.split(pos);
+        pos += 2;
+        if (line) tr.insertText(line, pos);
+        pos += line.length;
+    }
+}
+
+const createHunkWidget = (hunk: AiDiffHunk, onAccept: () => void, onReject: () => void) => {
+    const span = document.createElement("span");
+    span.classList.add("aie-ai-diff-added");
+    span.textContent = hunk.text;
+
+    const actions = document.createElement("span");
+    actions.classList.add("aie-ai-diff-hunk-actions");
+    actions.contentEditable = "false";
+    actions.innerHTML = `<span data-action="accept" title="${t("ai-diff-accept")}">✓</span><span data-action="reject" title="${t("ai-diff-reject")}">✕</span>`;
+    actions.addEventListener("mousedown", (e) => {
+        e.preventDefault();
+        const action = (e.target as HTMLElement).getAttribute("data-action");
+        if (action === "accept") onAccept();
+        else if (action === "reject") onReject();
+    });
+    span.appendChild(actions);
+    return span;
+}
+
+const createToolbarWidget = (onAccept: () => void, onReject: () => void) => {
+    const div = document.createElement("span");
+    div.classList.add("aie-ai-diff-toolbar");
+    div.contentEditable = "false";
+    div.innerHTML = `<button type="button" data-action="accept">${t("ai-diff-accept-all")}</button><button type="button" data-action="reject">${t("ai-diff-reject-all")}</button>`;
+    div.addEventListener("mousedown", (e) => {
+        e.preventDefault();
+        const action = (e.target as HTMLElement).getAttribute("data-action");
+        if (action === "accept") onAccept();
+        else if (action === "reject") onReject();
+    });
+    return div;
+}
+
+export const AiDiffExt = Extension.create({
+    name: "aiDiff",
+
+    addCommands() {
+        return {
+            showAiDiff: ({from, to, text}) => ({state, tr, dispatch}) => {
+                const original = getTextWithPositions(state.doc, from, to);
+                const hunks = toDiffHunks(diffWords(original.text, text)).map(hunk => ({
+                    id: uuid(),
+                    from: original.positions[hunk.from],
+                    to: original.positions[hunk.to],
+                    text: hunk.text,
+                }));
+                if (hunks.length === 0) {
+                    return false;
+                }
+                if (dispatch) {
+                    tr.setMeta(aiDiffPluginKey, {type: "show", hunks} as AiDiffAction);
+                }
+                return true;
+            },
+
+            acceptAiDiff: (id) => ({state, tr, dispatch}) => {
+                const hunks = (aiDiffPluginKey.getState(state) || []).filter(hunk => !id || hunk.id === id);
+                if (hunks.length === 0) {
+                    return false;
+                }
+                if (dispatch) {
+                    // 从后往前替换，前面的修改片段位置不受影响
+                    [...hunks].sort((a, b) => b.from - a.from).forEach(hunk => {
+                        replaceText(tr, hunk.from, hunk.to, hunk.text);
+                    });
+                    tr.setMeta(aiDiffPluginKey, {type: "remove", ids: hunks.map(hunk => hunk.id)} as AiDiffAction);
+                }
+                return true;
+            },
+
+            rejectAiDiff: (id) => ({state, tr, dispatch}) => {
+                const hunks = (aiDiffPluginKey.getState(state) || []).filter(hunk => !id || hunk.id === id);
+                if (hunks.length === 0) {
+                    return false;
+                }
+                if (dispatch) {
+                    tr.setMeta(aiDiffPluginKey, {type: "remove", ids: hunks.map(hunk => hunk.id)} as AiDiffAction);
+                }
+                return true;
+            },
+        }
+    },
+
+    addProseMirrorPlugins() {
+        const editor = this.editor;
+        return [
+            new Plugin<AiDiffHunk[]>({
+                key: aiDiffPluginKey,
+                state: {
+                    init: () => [],
+                    apply: (tr, hunks) => {
+                        const action = tr.getMeta(aiDiffPluginKey) as AiDiffAction | undefined;
+                        if (action?.type === "show") {
+                            return action.hunks;
+                        }
+                        if (tr.docChanged) {
+                            hunks = hunks.map(hunk => ({
+                                ...hunk,
+                                from: tr.mapping.map(hunk.from, 1),
+                                to: Math.max(tr.mapping.map(hunk.from, 1), tr.mapping.map(hunk.to, -1)),
+                            }));
+                        }
+                        if (action?.type === "remove") {
+                            hunks = hunks.filter(hunk => !action.ids.includes(hunk.id));
+                        }
+                        return hunks;
+                    }
+                },
+                props: {
+                    decorations(state: EditorState) {
+                        const hunks = this.getState(state);
+                        if (!hunks || hunks.length === 0) {
+                            return null;
+                        }
+                        const decorations: Decoration[] = [];
+                        for (let hunk of hunks) {
+                            if (hunk.from < hunk.to) {
+                                decorations.push(Decoration.inline(hunk.from, hunk.to, {class: "aie-ai-diff-removed"}));
+                            }
+                            decorations.push(Decoration.widget(hunk.to, () => createHunkWidget(hunk,
+                                () => editor.commands.acceptAiDiff(hunk.id),
+                                () => editor.commands.rejectAiDiff(hunk.id),
+                            ), {key: `aie-ai-diff-${hunk.id}`, side: 1}));
+                        }
+                        const end = Math.max(...hunks.map(hunk => hunk.to));
+                        decorations.push(Decoration.widget(end, () => createToolbarWidget(
+                            () => editor.commands.acceptAiDiff(),
+                            () => editor.commands.rejectAiDiff(),
+                        ), {key: "aie-ai-diff-toolbar", side: 2}));
+                        return DecorationSet.create(state.doc, decorations);
+                    }
+                }
+            })
+        ]
+    },
+})
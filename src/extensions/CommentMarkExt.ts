@@ -1,14 +1,135 @@
-import { Mark } from '@tiptap/core';
+import { Mark, mergeAttributes } from '@tiptap/core';
+import { Mark as PMMark, MarkType, Node } from '@tiptap/pm/model';
+
+declare module '@tiptap/core' {
+  interface Commands<ReturnType> {
+    commentMark: {
+      setCommentMark: (attributes?: Partial<CommentThreadAttrs>) => ReturnType,
+      toggleCommentMark: (attributes?: Partial<CommentThreadAttrs>) => ReturnType,
+      unsetCommentMark: () => ReturnType,
+      /**
+       * 创建评论，不传 range 时评论当前选中的内容
+       */
+      addCommentThread: (thread: CommentThreadAttrs, range?: { from: number, to: number }) => ReturnType,
+      /**
+       * 修改评论的回复或者解决状态，评论锚定的每一段内容都会同步修改
+       */
+      updateCommentThread: (threadId: string, attributes: Partial<Omit<CommentThreadAttrs, 'threadId'>>) => ReturnType,
+      /**
+       * 删除评论，被评论的内容保留
+       */
+      removeCommentThread: (threadId: string) => ReturnType,
+    }
+  }
+}
+
+export interface CommentItem {
+  id: string,
+  author: string,
+  content: string,
+  time: number,
+}
+
+export interface CommentThreadAttrs {
+  threadId: string,
+  //第一条为评论，其余为回复
+  comments: CommentItem[],
+  resolved: boolean,
+}
+
+export interface CommentThread {
+  id: string,
+  comments: CommentItem[],
+  resolved: boolean,
+  //被评论的内容，跨多段时使用 \n 分隔
+  text: string,
+  from: number,
+  to: number,
+}
+
+const parseComments = (value: string | null): CommentItem[] => {
+  if (!value) return [];
+  try {
+    const comments = JSON.parse(value);
+    return Array.isArray(comments) ? comments : [];
+  } catch (e) {
+    return [];
+  }
+}
+
+/**
+ * 获取文档中的全部评论，同一评论锚定的多段内容合并为一条，按照在文档中出现的顺序排列
+ */
+export const getCommentThreads = (doc: Node): CommentThread[] => {
+  const threads = new Map<string, CommentThread>();
+  doc.descendants((node, pos) => {
+    if (!node.isText) return true;
+    for (let mark of node.marks) {
+      if (mark.type.name !== 'commentMark' || !mark.attrs.threadId) continue;
+      const thread = threads.get(mark.attrs.threadId);
+      if (thread) {
+        thread.text += (thread.to === pos ? '' : '\n') + node.text;
+        thread.to = pos + node.nodeSize;
+      } else {
+        threads.set(mark.attrs.threadId, {
+          id: mark.attrs.threadId,
+          comments: mark.attrs.comments,
+          resolved: mark.attrs.resolved,
+          text: node.text!,
+          from: pos,
+          to: pos + node.nodeSize,
+        });
+      }
+    }
+    return false;
+  });
+  return [...threads.values()];
+}
+
+/**
+ * 查找评论锚定的全部文本及其对应的 mark
+ */
+const findThreadRanges = (doc: Node, type: MarkType, threadId: string) => {
+  const ranges: { from: number, to: number, mark: PMMark }[] = [];
+  doc.descendants((node, pos) => {
+    const mark = node.marks.find(mark => mark.type === type && mark.attrs.threadId === threadId);
+    if (mark) ranges.push({ from: pos, to: pos + node.nodeSize, mark });
+  });
+  return ranges;
+}
 
 export const CommentMarkExt = Mark.create({
   name: 'commentMark',
-  
+  inclusive: false,
+  // 允许多条评论锚定在重叠的内容上
+  excludes: '',
+
   addOptions() {
     return {
       HTMLAttributes: {},
     };
   },
 
+  addAttributes() {
+    return {
+      threadId: {
+        default: null,
+        parseHTML: element => element.getAttribute('data-comment-id'),
+        renderHTML: attributes => attributes.threadId ? { 'data-comment-id': attributes.threadId } : {},
+      },
+      comments: {
+        default: [],
+        parseHTML: element => parseComments(element.getAttribute('data-comments')),
+        renderHTML: attributes => attributes.comments?.length ? { 'data-comments': JSON.stringify(attributes.comments) } : {},
+      },
+      resolved: {
+        default: false,
+        parseHTML: element => element.getAttribute('data-comment-resolved') === 'true',
+        renderHTML: attributes => attributes.resolved ? { 'data-comment-resolved': 'true' } : {},
+      },
+    };
+  },
+
   parseHTML() {
     return [
       {
@@ -18,7 +139,7 @@ export const CommentMarkExt = Mark.create({
   },
 
   renderHTML({ HTMLAttributes }) {
-    return ['span', { ...this.options.HTMLAttributes, 'data-comment-mark': '' }, 0];
+    return ['span', mergeAttributes(this.options.HTMLAttributes, HTMLAttributes, { 'data-comment-mark': '' }), 0];
   },
 
   addCommands() {
@@ -32,6 +153,33 @@ export const CommentMarkExt = Mark.create({
       unsetCommentMark: () => ({ commands }) => {
         return commands.unsetMark(this.name);
       },
+      addCommentThread: (thread, range) => ({ tr, dispatch }) => {
+        const { from, to } = range || tr.selection;
+        if (from >= to) return false;
+        if (dispatch) {
+          tr.addMark(from, to, this.type.create(thread));
+        }
+        return true;
+      },
+      updateCommentThread: (threadId, attributes) => ({ tr, dispatch }) => {
+        const ranges = findThreadRanges(tr.doc, this.type, threadId);
+        if (ranges.length === 0) return false;
+        if (dispatch) {
+          for (let { from, to, mark } of ranges) {
+            tr.removeMark(from, to, mark);
+            tr.addMark(from, to, this.type.create({ ...mark.attrs, ...attributes, threadId }));
+          }
+        }
+        return true;
+      },
+      removeCommentThread: (threadId) => ({ tr, dispatch }) => {
+        const ranges = findThreadRanges(tr.doc, this.type, threadId);
+        if (ranges.length === 0) return false;
+        if (dispatch) {
+          ranges.forEach(({ from, to, mark }) => tr.removeMark(from, to, mark));
+        }
+        return true;
+      },
     };
   },
-}); 
\ No newline at end of file
+});
@@ -5,6 +5,9 @@ import { DecorationSet } from "prosemirror-view";
 import { Uploader, UploaderEvent } from "../core/AiEditor.ts";
 import { createAttachmentDecoration, createMediaDecoration } from "../util/decorations.ts";
 import { getUploader } from "../util/getUploader.ts";
+import { DocxImportMessage, importDocx } from "../util/docxImporter.ts";
+import { readSpreadsheet, spreadsheetToContent } from "../util/spreadsheet.ts";
+import { t } from "i18next";
 // Import PDF.js for PDF parsing
 import * as pdfjsLib from 'pdfjs-dist';
 // Import mammoth for Word docs
@@ -53,6 +56,8 @@ export interface FileUploadOptions {
     handleImageFiles?: boolean, // Whether to handle image files (default true)
     handleOtherFiles?: boolean, // Whether to handle other files (default true)
     maxFileSize?: number, // Maximum file size for uploads (default 10MB)
+    onImportMessages?: (file: File, messages: DocxImportMessage[]) => void, // Receives what could not be imported from a .docx file
+    onSelectSheets?: (file: File, sheetNames: string[]) => string[] | Promise<string[]>, // Chooses the sheets to import from a workbook, a dialog is shown by default
 }
 
 const actionKey = new PluginKey("file_upload_action");
@@ -1027,6 +1032,59 @@ const trySimpleFallback = (editor: any, file: File, id: string, fallbackText: st
     }
 };
 
+// Helper function to let the user choose the sheets of a workbook to import, resolves with no sheets on cancel
+const selectSheetsDialog = (file: File, sheetNames: string[]): Promise<string[]> => {
+    const dialog = document.createElement('div');
+    dialog.className = 'aie-file-save-dialog';
+    dialog.innerHTML = `
+        <div class="aie-file-save-dialog-content">
+            <h3></h3>
+            <p></p>
+            <div class="aie-sheet-select-list"></div>
+            <div class="aie-file-save-dialog-buttons">
+                <button class="aie-btn aie-btn-secondary aie-dialog-cancel"></button>
+                <button class="aie-btn aie-btn-primary aie-dialog-save"></button>
+            </div>
+        </div>
+    `;
+    dialog.querySelector('h3')!.textContent = t('select-sheets');
+    dialog.querySelector('p')!.textContent = file.name;
+    dialog.querySelector('.aie-dialog-cancel')!.textContent = t('cancel');
+    dialog.querySelector('.aie-dialog-save')!.textContent = t('confirm');
+
+    const list = dialog.querySelector('.aie-sheet-select-list')!;
+    const checkboxes = sheetNames.map(name => {
+        const label = document.createElement('label');
+        const checkbox = document.createElement('input');
+        checkbox.type = 'checkbox';
+        checkbox.checked = true;
+        label.appendChild(checkbox);
+        label.appendChild(document.createTextNode(name));
+        list.appendChild(label);
+        return checkbox;
+    });
+    document.body.appendChild(dialog);
+
+    return new Promise<string[]>((resolve) => {
+        dialog.querySelector('.aie-dialog-cancel')?.addEventListener('click', () => {
+            document.body.removeChild(dialog);
+            resolve([]);
+        });
+        dialog.querySelector('.aie-dialog-save')?.addEventListener('click', () => {
+            document.body.removeChild(dialog);
+            resolve(sheetNames.filter((_, index) => checkboxes[index].checked));
+        });
+    });
+};
+
+// Helper function to remove the upload placeholder, returns its position
+const removePlaceholder = (view: any, id: string): number | null => {
+    const decorationSet = actionKey.getState(view.state);
+    const found = decorationSet?.find(0, view.state.doc.content.size, (spec: any) => spec.id === id);
+    view.dispatch(view.state.tr.setMeta(actionKey, { type: "remove", id }));
+    return found && found.length ? found[0].from : null;
+};
+
 // Helper function to determine if we should parse the document based on parseMode and file type
 const determineShouldParse = (
     file: File,
@@ -1040,7 +1098,7 @@ const determineShouldParse = (
     if (options.maxExtractSize && file.size > options.maxExtractSize) return false;
     
     // Check supported formats
-    const supportedFormats = options.supportedFormats || ['pdf', 'txt', 'rtf', 'doc', 'docx', 'html', 'csv'];
+    const supportedFormats = options.supportedFormats || ['pdf', 'txt', 'rtf', 'doc', 'docx', 'html', 'csv', 'xlsx', 'xls'];
     const isSupported = supportedFormats.includes(fileType);
     if (!isSupported) return false;
     
@@ -1057,8 +1115,8 @@ const determineShouldParse = (
             return true;
         case 'auto':
         default:
-            // Auto mode: parse PDFs, text files, HTML, and CSV by default
-            return ['pdf', 'text', 'html', 'csv'].includes(fileType);
+            // Auto mode: parse PDFs, Word documents, text files, HTML, CSV and Excel workbooks by default
+            return ['pdf', 'docx', 'text', 'html', 'csv', 'xlsx', 'xls'].includes(fileType);
     }
 };
 
@@ -1608,7 +1666,7 @@ export const FileUploadExt = Extension.create<FileUploadOptions>({
             // Defaults for document parsing options
             extractContent: true,
             maxExtractSize: 10 * 1024 * 1024, // 10MB default
-            supportedFormats: ['pdf', 'txt', 'rtf', 'doc', 'docx', 'html', 'csv'],
+            supportedFormats: ['pdf', 'txt', 'rtf', 'doc', 'docx', 'html', 'csv', 'xlsx', 'xls'],
             parseMode: 'auto', // Auto by default
             // Default advanced formatting options
             preserveFormatting: true,
@@ -1718,6 +1776,14 @@ export const FileUploadExt = Extension.create<FileUploadOptions>({
                       .catch(error => {
                         console.error('Error parsing PDF:', error);
                       });
+                } else if (getFileType(file) === 'word' && file.name.toLowerCase().endsWith('.docx')
+                    && determineShouldParse(file, 'docx', this.options)) {
+                    // Import Word documents with their formatting instead of uploading them
+                    (this as any).importDocxFile(file, id);
+                } else if (/\.(xlsx|xls|csv)$/i.test(file.name)
+                    && determineShouldParse(file, file.name.split('.').pop()!.toLowerCase(), this.options)) {
+                    // Import spreadsheets as tables instead of uploading them
+                    (this as any).importSpreadsheetFile(file, id);
                 } else {
                     // Use the proper reference to this extension's method
                     (this as any).uploadFileToServer(file, id, {});
@@ -1796,6 +1862,54 @@ export const FileUploadExt = Extension.create<FileUploadOptions>({
             });
     },
 
+    // Helper method to replace the placeholder with the content of a .docx file
+    importDocxFile(file: File, id: string) {
+        const {view} = this.editor!;
+
+        file.arrayBuffer()
+            .then(arrayBuffer => importDocx(arrayBuffer, { uploadImage: this.options.uploadFn }))
+            .then(({ html, messages }) => {
+                const pos = removePlaceholder(view, id);
+                if (pos !== null) {
+                    this.editor!.commands.insertContentAt(pos, html);
+                }
+                if (messages.length) {
+                    console.warn(`Some content of ${file.name} could not be imported:`, messages);
+                }
+                this.options.onImportMessages?.(file, messages);
+            })
+            .catch((error: any) => {
+                console.error('Word document import failed', error);
+                removePlaceholder(view, id);
+                if (this.options.uploaderEvent?.onUploadError) {
+                    this.options.uploaderEvent.onUploadError(file, error);
+                }
+            });
+    },
+
+    // Helper method to replace the placeholder with the tables of a spreadsheet, the user chooses the sheets of a workbook
+    importSpreadsheetFile(file: File, id: string) {
+        const {view} = this.editor!;
+        file.arrayBuffer()
+            .then(async arrayBuffer => {
+                const sheets = readSpreadsheet(arrayBuffer, { csv: file.name.toLowerCase().endsWith('.csv') })
+                    .filter(sheet => sheet.rows.length > 0);
+                const names = sheets.map(sheet => sheet.name);
+                const selected = names.length > 1 ? await (this.options.onSelectSheets || selectSheetsDialog)(file, names) : names;
+                const pos = removePlaceholder(view, id);
+                if (pos !== null && selected.length) {
+                    this.editor!.commands.insertContentAt(pos, spreadsheetToContent(sheets, { sheets: selected }));
+                }
+            })
+            .catch((error: any) => {
+                console.error('Spreadsheet import failed', error);
+                removePlaceholder(view, id);
+                if (this.options.uploaderEvent?.onUploadError) {
+                    this.options.uploaderEvent.onUploadError(file, error);
+                }
+            });
+    },
+
     addProseMirrorPlugins() {
         const editor = this.editor;
         
@@ -0,0 +1,220 @@
+import { LocalDocument } from "./LocalDocsExt";
+import { tokenizeSearchText } from "./LocalDocsSearchIndex";
+
+/**
+ * Convert texts to embedding vectors, one vector per text in the same order.
+ * All vectors must have the same dimensions.
+ */
+export type LocalDocsEmbeddingFunction = (texts: string[]) => Promise<number[][]>;
+
+export interface LocalDocsRetrieveOptions {
+    limit?: number;            // Maximum number of chunks, defaults to 5
+    minScore?: number;         // Only chunks with a cosine similarity above this score, defaults to 0
+    tags?: string[];           // Only documents having all of these tags
+}
+
+export interface LocalDocsRetrievedChunk {
+    document: LocalDocument;
+    text: string;
+    index: number;             // Position of the chunk in the document
+    score: number;
+}
+
+interface EmbeddedChunk {
+    text: string;
+    vector: number[];
+}
+
+interface EmbeddedDocument {
+    document: LocalDocument;
+    chunks: EmbeddedChunk[];
+}
+
+const DEFAULT_CHUNK_SIZE = 800;
+const EMBED_BATCH_SIZE = 64;
+
+const CJK_CHAR = /[一-龥぀-ヿ가-힯]/;
+
+/**
+ * FNV-1a hash of a string
+ */
+const hash = (text: string): number => {
+    let h = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        h ^= text.charCodeAt(i);
+        h = Math.imul(h, 0x01000193);
+    }
+    return h >>> 0;
+}
+
+/**
+ * Create a deterministic embedding function that runs locally without a model.
+ * Words (and pairs of adjacent CJK characters) are hashed into a fixed number of dimensions,
+ * so texts sharing many words get similar vectors. It is meant for tests and offline use,
+ * it does not understand synonyms like a real embedding model.
+ */
+export const createHashEmbedding = (dimensions: number = 512): LocalDocsEmbeddingFunction => {
+    const embedOne = (text: string): number[] => {
+        const vector = new Array(dimensions).fill(0);
+        const terms = tokenizeSearchText(text);
+        const features = [...terms];
+        for (let i = 1; i < terms.length; i++) {
+            if (CJK_CHAR.test(terms[i - 1]) && CJK_CHAR.test(terms[i])) {
+                features.push(terms[i - 1] + terms[i]);
+            }
+        }
+        for (let feature of features) {
+            const h = hash(feature);
+            vector[h % dimensions] += (h & 0x80000000) ? -1 : 1;
+        }
+        return normalize(vector);
+    };
+    return async (texts: string[]) => texts.map(embedOne);
+}
+
+const normalize = (vector: number[]): number[] => {
+    const length = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return length ? vector.map(value => value / length) : vector;
+}
+
+const cosineSimilarity = (a: number[], b: number[]): number => {
+    let dot = 0, lengthA = 0, lengthB = 0;
+    for (let i = 0; i < a.length; i++) {
+        dot += a[i] * b[i];
+        lengthA += a[i] * a[i];
+        lengthB += b[i] * b[i];
+    }
+    return lengthA && lengthB ? dot / Math.sqrt(lengthA * lengthB) : 0;
+}
+
+/**
+ * Split text into chunks of at most chunkSize characters. Paragraphs are kept together when they fit,
+ * longer paragraphs are split at sentence ends.
+ */
+export const splitTextIntoChunks = (text: string, chunkSize: number = DEFAULT_CHUNK_SIZE): string[] => {
+    const pieces: string[] = [];
+    for (let paragraph of text.split(/\n+/).map(p => p.trim()).filter(p => p)) {
+        if (paragraph.length <= chunkSize) {
+            pieces.push(paragraph);
+            continue;
+        }
+        const sentences = paragraph.match(/[^.!?。！？]+[.!?。！？]*\s*/g) || [paragraph];
+        let current = '';
+        for (let sentence of sentences) {
+            if (current && current.length + sentence.length > chunkSize) {
+                pieces.push(current.trim());
+                current = '';
+            }
+            // A single sentence longer than the chunk size is cut hard
+            while (sentence.length > chunkSize) {
+                pieces.push(sentence.substring(0, chunkSize));
+                sentence = sentence.substring(chunkSize);
+            }
+            current += sentence;
+        }
+        if (current.trim()) pieces.push(current.trim());
+    }
+
+    const chunks: string[] = [];
+    for (let piece of pieces) {
+        const last = chunks.length - 1;
+        if (last >= 0 && chunks[last].length + piece.length + 1 <= chunkSize) {
+            chunks[last] += '\n' + piece;
+        } else {
+            chunks.push(piece);
+        }
+    }
+    return chunks;
+}
+
+/**
+ * An in-memory vector index over chunks of local documents, used to find the passages
+ * relevant to a question. Only chunks whose text changed since the last sync are embedded again.
+ */
+export class LocalDocsEmbeddingIndex {
+    private embed: LocalDocsEmbeddingFunction;
+    private chunkSize: number;
+    private documents = new Map<string, EmbeddedDocument>();
+    private syncing: Promise<void> = Promise.resolve();
+
+    constructor(embed: LocalDocsEmbeddingFunction = createHashEmbedding(), chunkSize: number = DEFAULT_CHUNK_SIZE) {
+        this.embed = embed;
+        this.chunkSize = chunkSize;
+    }
+
+    /**
+     * Bring the index up to date with the document list: embed new and changed chunks
+     * and drop the deleted documents. Concurrent calls run one after another.
+     */
+    sync(documents: LocalDocument[], getText: (doc: LocalDocument) => string): Promise<void> {
+        const result = this.syncing.then(() => this.doSync(documents, getText));
+        this.syncing = result.catch(() => undefined);
+        return result;
+    }
+
+    private async doSync(documents: LocalDocument[], getText: (doc: LocalDocument) => string): Promise<void> {
+        const ids = new Set(documents.map(doc => doc.id));
+        for (let id of [...this.documents.keys()]) {
+            if (!ids.has(id)) this.documents.delete(id);
+        }
+
+        // Reuse the vectors of unchanged chunks, e.g. when only the access time of a document changed
+        const known = new Map<string, number[]>();
+        this.documents.forEach(embedded => embedded.chunks.forEach(chunk => known.set(chunk.text, chunk.vector)));
+
+        const updated: { document: LocalDocument, texts: string[] }[] = [];
+        const missing = new Set<string>();
+        for (let doc of documents) {
+            const texts = splitTextIntoChunks(getText(doc), this.chunkSize).map(text => `${doc.title}\n${text}`);
+            updated.push({ document: doc, texts });
+            texts.filter(text => !known.has(text)).forEach(text => missing.add(text));
+        }
+
+        const pending = [...missing];
+        for (let i = 0; i < pending.length; i += EMBED_BATCH_SIZE) {
+            const batch = pending.slice(i, i + EMBED_BATCH_SIZE);
+            const vectors = await this.embed(batch);
+            if (!Array.isArray(vectors) || vectors.length !== batch.length) {
+                throw new Error(`The embedding function returned ${vectors?.length} vectors for ${batch.length} texts`);
+            }
+            batch.forEach((text, index) => known.set(text, vectors[index]));
+        }
+
+        for (let { document, texts } of updated) {
+            this.documents.set(document.id, {
+                document,
+                chunks: texts.map(text => ({ text, vector: known.get(text)! }))
+            });
+        }
+    }
+
+    /**
+     * Find the chunks most similar to the query, best matches first
+     */
+    async search(query: string, options: LocalDocsRetrieveOptions = {}): Promise<LocalDocsRetrievedChunk[]> {
+        await this.syncing;
+        if (!query.trim() || this.documents.size === 0) {
+            return [];
+        }
+
+        const [queryVector] = await this.embed([query]);
+        const minScore = options.minScore ?? 0;
+        const tags = (options.tags || []).map(tag => tag.toLowerCase());
+
+        const results: LocalDocsRetrievedChunk[] = [];
+        this.documents.forEach(({ document, chunks }) => {
+            const docTags = (document.tags || []).map(tag => tag.toLowerCase());
+            if (!tags.every(tag => docTags.includes(tag))) return;
+            chunks.forEach((chunk, index) => {
+                const score = cosineSimilarity(queryVector, chunk.vector);
+                if (score > minScore) {
+                    // The title was only prepended for embedding
+                    results.push({ document, text: chunk.text.substring(document.title.length + 1), index, score });
+                }
+            });
+        });
+
+        results.sort((a, b) => b.score - a.score);
+        return results.slice(0, options.limit ?? 5);
+    }
+}
@@ -1,6 +1,12 @@
-import { Extension } from "@tiptap/core";
+import { Extension, getHTMLFromFragment } from "@tiptap/core";
+import { Node as ProseMirrorNode } from "@tiptap/pm/model";
 import { Plugin, PluginKey } from "@tiptap/pm/state";
-import { AiEditor } from "../core/AiEditor";
+import JSZip from "jszip";
+import { AiEditor, InnerEditor } from "../core/AiEditor";
+import { getDefaultStorage, migrateFromLocalStorage, StorageBackend, StorageQuota } from "../storage/StorageBackend";
+import { htmlToMd } from "../util/mdUtil";
+import { LocalDocsEmbeddingFunction, LocalDocsEmbeddingIndex, LocalDocsRetrievedChunk, LocalDocsRetrieveOptions } from "./LocalDocsEmbeddingIndex";
+import { LocalDocsSearchIndex, LocalDocsSearchOptions, LocalDocsSearchResult } from "./LocalDocsSearchIndex";
 
 export interface LocalDocument {
     id: string;
@@ -10,12 +16,54 @@ export interface LocalDocument {
     updatedAt: number;
     tags?: string[];
     excerpt?: string;
+    branchedFrom?: { docId: string, revisionId: string }; // Set when the document was branched from a revision
+    folderId?: string | null; // The folder containing the document, null or undefined for the root
+    pinned?: boolean; // Pinned documents are listed first and never removed by maxDocuments
+}
+
+export interface LocalDocsFolder {
+    id: string;
+    name: string;
+    parentId: string | null; // null for a top-level folder (a workspace)
+    createdAt: number;
+    updatedAt: number;
+}
+
+export type LocalDocsSortBy = 'updated' | 'created' | 'title';
+
+/**
+ * Sort documents with the pinned ones first, then by the given field
+ */
+export const sortLocalDocuments = (documents: LocalDocument[], sortBy: LocalDocsSortBy = 'updated'): LocalDocument[] => {
+    return [...documents].sort((a, b) => {
+        if (!!a.pinned !== !!b.pinned) return a.pinned ? -1 : 1;
+        if (sortBy === 'title') return (a.title || '').localeCompare(b.title || '');
+        if (sortBy === 'created') return b.createdAt - a.createdAt;
+        return b.updatedAt - a.updatedAt;
+    });
+}
+
+export type LocalDocumentRevisionType = 'manual' | 'auto';
+
+export interface LocalDocumentRevision {
+    id: string;
+    docId: string;
+    title: string;
+    content: any; // Snapshot of the document JSON content
+    createdAt: number;
+    type: LocalDocumentRevisionType;
+    excerpt?: string;
+    restoredFrom?: string; // Set when the snapshot was created by restoring another revision
 }
 
 export interface LocalDocsOptions {
     storagePrefix?: string;
     maxDocuments?: number;
+    maxRevisions?: number; // Revisions kept per document, 0 for disable
     autoSaveInterval?: number; // in milliseconds, 0 for disable
+    storage?: StorageBackend; // Defaults to the editor's storage (IndexedDB when available)
+    embed?: LocalDocsEmbeddingFunction; // Used by retrieve(), defaults to a local hash embedding
+    chunkSize?: number; // Maximum characters of a chunk embedded by retrieve()
     onDocumentSaved?: (doc: LocalDocument) => void;
     onDocumentLoaded?: (doc: LocalDocument) => void;
     onDocumentDeleted?: (docId: string) => void;
@@ -27,12 +75,26 @@ const localDocsPluginKey = new PluginKey('local-docs');
 export class LocalDocsManager {
     private editor: AiEditor;
     private options: LocalDocsOptions;
+    private storage: StorageBackend;
     private autoSaveTimer: any = null;
     private currentDocId: string | null = null;
+    private ready: Promise<void>;
+    private queue: Promise<any>;
+    private searchIndex = new LocalDocsSearchIndex();
+    private embeddingIndex: LocalDocsEmbeddingIndex;
 
     constructor(editor: AiEditor, options: LocalDocsOptions) {
         this.editor = editor;
         this.options = options;
+        this.storage = options.storage || editor.storage || getDefaultStorage();
+        this.embeddingIndex = new LocalDocsEmbeddingIndex(options.embed, options.chunkSize);
+        
+        // Move documents saved by older versions out of localStorage before anything is read
+        const storageKey = this.getStorageKey();
+        this.ready = migrateFromLocalStorage(this.storage, key => key === storageKey || key.startsWith(`${storageKey}-revisions-`))
+            .then(() => undefined)
+            .catch(error => console.error('Error migrating local documents from localStorage:', error));
+        this.queue = this.ready;
         
         // Initialize auto-save if enabled
         if (options.autoSaveInterval && options.autoSaveInterval > 0) {
@@ -50,7 +112,7 @@ export class LocalDocsManager {
         
         this.autoSaveTimer = setInterval(() => {
             if (this.currentDocId && !this.editor.isEmpty()) {
-                this.saveCurrentDocument();
+                this.saveCurrentDocument('auto');
             }
         }, this.options.autoSaveInterval);
     }
@@ -68,22 +130,63 @@ export class LocalDocsManager {
     /**
      * Get all local documents
      */
-    getAllDocuments(): LocalDocument[] {
+    async getAllDocuments(): Promise<LocalDocument[]> {
+        await this.ready;
         try {
-            const storedDocs = localStorage.getItem(this.getStorageKey());
-            if (storedDocs) {
-                return JSON.parse(storedDocs);
-            }
+            return await this.storage.getItem<LocalDocument[]>(this.getStorageKey()) || [];
         } catch (error) {
             console.error('Error retrieving local documents:', error);
         }
         return [];
     }
 
+    /**
+     * Search the title, tags and body text of all documents, best matches first.
+     * The index is updated lazily: only documents saved since the last search are re-indexed.
+     */
+    async search(query: string, options: LocalDocsSearchOptions = {}): Promise<LocalDocsSearchResult[]> {
+        await this.syncSearchIndex();
+        return this.searchIndex.search(query, options);
+    }
+
+    /**
+     * Find the passages of all documents most relevant to a question, using the embedding function.
+     * Chunks are embedded lazily: only text changed since the last call is embedded again.
+     */
+    async retrieve(query: string, options: LocalDocsRetrieveOptions = {}): Promise<LocalDocsRetrievedChunk[]> {
+        const documents = await this.getAllDocuments();
+        await this.embeddingIndex.sync(documents, doc => this.extractTextFromContent(doc.content));
+        return this.embeddingIndex.search(query, options);
+    }
+
+    /**
+     * Get all tags used by the documents, sorted alphabetically
+     */
+    async getAllTags(): Promise<string[]> {
+        await this.syncSearchIndex();
+        return this.searchIndex.getTags();
+    }
+
+    /**
+     * Get the space used by the storage backend, null when the backend can not report it
+     */
+    async getStorageQuota(): Promise<StorageQuota | null> {
+        try {
+            return this.storage.estimate ? await this.storage.estimate() : null;
+        } catch (error) {
+            console.error('Error estimating storage usage:', error);
+            return null;
+        }
+    }
+
     /**
      * Save the current editor content as a new document
      */
-    createNewDocument(title: string, tags: string[] = []): LocalDocument | null {
+    createNewDocument(title: string, tags: string[] = [], folderId: string | null = null): Promise<LocalDocument | null> {
+        return this.enqueue(() => this.doCreateNewDocument(title, tags, folderId));
+    }
+
+    private async doCreateNewDocument(title: string, tags: string[], folderId: string | null): Promise<LocalDocument | null> {
         if (this.editor.isEmpty()) {
             return null;
         }
@@ -99,20 +202,12 @@ export class LocalDocsManager {
             createdAt: Date.now(),
             updatedAt: Date.now(),
             tags,
-            excerpt
+            excerpt,
+            folderId
         };
 
-        const documents = this.getAllDocuments();
-        
-        // Check if we need to remove older documents
-        if (this.options.maxDocuments && documents.length >= this.options.maxDocuments) {
-            // Sort by updatedAt and remove oldest
-            documents.sort((a, b) => b.updatedAt - a.updatedAt);
-            documents.splice(this.options.maxDocuments - 1);
-        }
-        
-        documents.unshift(newDoc);
-        this.saveDocumentsList(documents);
+        await this.insertDocument(newDoc);
+        await this.addRevision(newDoc, 'manual');
         
         this.currentDocId = id;
         
@@ -124,14 +219,19 @@ export class LocalDocsManager {
     }
 
     /**
-     * Save changes to the current document
+     * Save changes to the current document and record a revision snapshot.
+     * Auto saves are skipped when the content has not changed since the last save.
      */
-    saveCurrentDocument(): LocalDocument | null {
+    saveCurrentDocument(type: LocalDocumentRevisionType = 'manual'): Promise<LocalDocument | null> {
+        return this.enqueue(() => this.doSaveCurrentDocument(type));
+    }
+
+    private async doSaveCurrentDocument(type: LocalDocumentRevisionType): Promise<LocalDocument | null> {
         if (!this.currentDocId || this.editor.isEmpty()) {
             return null;
         }
 
-        const documents = this.getAllDocuments();
+        const documents = await this.getAllDocuments();
         const docIndex = documents.findIndex(doc => doc.id === this.currentDocId);
         
         if (docIndex === -1) {
@@ -141,11 +241,16 @@ export class LocalDocsManager {
         const content = this.editor.getJson();
         const excerpt = this.generateExcerpt(this.editor.getText());
         
+        if (type === 'auto' && JSON.stringify(content) === JSON.stringify(documents[docIndex].content)) {
+            return documents[docIndex];
+        }
+        
         documents[docIndex].content = content;
         documents[docIndex].updatedAt = Date.now();
         documents[docIndex].excerpt = excerpt;
         
-        this.saveDocumentsList(documents);
+        await this.saveDocumentsList(documents);
+        await this.addRevision(documents[docIndex], type);
         
         if (this.options.onDocumentSaved) {
             this.options.onDocumentSaved(documents[docIndex]);
@@ -157,8 +262,12 @@ export class LocalDocsManager {
     /**
      * Load a document by ID
      */
-    loadDocument(id: string): LocalDocument | null {
-        const documents = this.getAllDocuments();
+    loadDocument(id: string): Promise<LocalDocument | null> {
+        return this.enqueue(() => this.doLoadDocument(id));
+    }
+
+    private async doLoadDocument(id: string): Promise<LocalDocument | null> {
+        const documents = await this.getAllDocuments();
         const document = documents.find(doc => doc.id === id);
         
         if (!document) {
@@ -175,7 +284,7 @@ export class LocalDocsManager {
             const doc = documents.splice(docIndex, 1)[0];
             doc.updatedAt = Date.now(); // Update access time
             documents.unshift(doc);
-            this.saveDocumentsList(documents);
+            await this.saveDocumentsList(documents);
         }
         
         if (this.options.onDocumentLoaded) {
@@ -188,8 +297,12 @@ export class LocalDocsManager {
     /**
      * Delete a document by ID
      */
-    deleteDocument(id: string): boolean {
-        const documents = this.getAllDocuments();
+    deleteDocument(id: string): Promise<boolean> {
+        return this.enqueue(() => this.doDeleteDocument(id));
+    }
+
+    private async doDeleteDocument(id: string): Promise<boolean> {
+        const documents = await this.getAllDocuments();
         const docIndex = documents.findIndex(doc => doc.id === id);
         
         if (docIndex === -1) {
@@ -197,7 +310,8 @@ export class LocalDocsManager {
         }
         
         documents.splice(docIndex, 1);
-        this.saveDocumentsList(documents);
+        await this.saveDocumentsList(documents);
+        await this.removeRevisions(id);
         
         if (id === this.currentDocId) {
             this.currentDocId = null;
@@ -210,11 +324,120 @@ export class LocalDocsManager {
         return true;
     }
 
+    /**
+     * Get the revisions of a document, newest first
+     */
+    async getRevisions(docId: string): Promise<LocalDocumentRevision[]> {
+        await this.ready;
+        try {
+            return await this.storage.getItem<LocalDocumentRevision[]>(this.getRevisionsStorageKey(docId)) || [];
+        } catch (error) {
+            console.error('Error retrieving document revisions:', error);
+        }
+        return [];
+    }
+
+    /**
+     * Get a single revision of a document
+     */
+    async getRevision(docId: string, revisionId: string): Promise<LocalDocumentRevision | null> {
+        return (await this.getRevisions(docId)).find(revision => revision.id === revisionId) || null;
+    }
+
+    /**
+     * Get the plain text of a revision, used to compare revisions
+     */
+    getRevisionText(revision: LocalDocumentRevision): string {
+        return this.extractTextFromContent(revision.content);
+    }
+
+    /**
+     * Replace the content of a document with a revision.
+     * The content before restoring is kept in the history, so a restore can be undone.
+     */
+    restoreRevision(docId: string, revisionId: string): Promise<LocalDocument | null> {
+        return this.enqueue(() => this.doRestoreRevision(docId, revisionId));
+    }
+
+    private async doRestoreRevision(docId: string, revisionId: string): Promise<LocalDocument | null> {
+        const revision = await this.getRevision(docId, revisionId);
+        if (!revision) {
+            return null;
+        }
+        
+        // Keep the unsaved changes of the current document before it is overwritten
+        if (docId === this.currentDocId && !this.editor.isEmpty()) {
+            await this.doSaveCurrentDocument('auto');
+        }
+        
+        const documents = await this.getAllDocuments();
+        const docIndex = documents.findIndex(doc => doc.id === docId);
+        
+        if (docIndex === -1) {
+            return null;
+        }
+        
+        documents[docIndex].content = revision.content;
+        documents[docIndex].updatedAt = Date.now();
+        documents[docIndex].excerpt = this.generateExcerpt(this.extractTextFromContent(revision.content));
+        
+        await this.saveDocumentsList(documents);
+        await this.addRevision(documents[docIndex], 'manual', revision.id);
+        
+        if (docId === this.currentDocId) {
+            this.editor.innerEditor.commands.setContent(revision.content);
+        }
+        
+        if (this.options.onDocumentSaved) {
+            this.options.onDocumentSaved(documents[docIndex]);
+        }
+        
+        return documents[docIndex];
+    }
+
+    /**
+     * Create a new document from a revision, the original document is left unchanged
+     */
+    branchRevision(docId: string, revisionId: string, title?: string): Promise<LocalDocument | null> {
+        return this.enqueue(() => this.doBranchRevision(docId, revisionId, title));
+    }
+
+    private async doBranchRevision(docId: string, revisionId: string, title?: string): Promise<LocalDocument | null> {
+        const revision = await this.getRevision(docId, revisionId);
+        if (!revision) {
+            return null;
+        }
+        
+        const newDoc: LocalDocument = {
+            id: `doc_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`,
+            title: title || revision.title,
+            content: revision.content,
+            createdAt: Date.now(),
+            updatedAt: Date.now(),
+            excerpt: revision.excerpt,
+            branchedFrom: { docId, revisionId },
+            folderId: (await this.getAllDocuments()).find(doc => doc.id === docId)?.folderId ?? null
+        };
+        
+        await this.insertDocument(newDoc);
+        await this.addRevision(newDoc, 'manual');
+        
+        if (this.options.onDocumentSaved) {
+            this.options.onDocumentSaved(newDoc);
+        }
+        
+        return newDoc;
+    }
+
     /**
      * Update document metadata (title, tags)
      */
-    updateDocumentMetadata(id: string, metadata: { title?: string, tags?: string[] }): LocalDocument | null {
-        const documents = this.getAllDocuments();
+    updateDocumentMetadata(id: string, metadata: { title?: string, tags?: string[] }): Promise<LocalDocument | null> {
+        return this.enqueue(() => this.doUpdateDocumentMetadata(id, metadata));
+    }
+
+    private async doUpdateDocumentMetadata(id: string, metadata: { title?: string, tags?: string[] }): Promise<LocalDocument | null> {
+        const documents = await this.getAllDocuments();
         const docIndex = documents.findIndex(doc => doc.id === id);
         
         if (docIndex === -1) {
@@ -230,16 +453,311 @@ export class LocalDocsManager {
         }
         
         documents[docIndex].updatedAt = Date.now();
-        this.saveDocumentsList(documents);
+        await this.saveDocumentsList(documents);
         
         return documents[docIndex];
     }
 
+    /**
+     * Get all folders
+     */
+    async getFolders(): Promise<LocalDocsFolder[]> {
+        await this.ready;
+        try {
+            return await this.storage.getItem<LocalDocsFolder[]>(this.getFoldersStorageKey()) || [];
+        } catch (error) {
+            console.error('Error retrieving local document folders:', error);
+        }
+        return [];
+    }
+
+    /**
+     * Get a folder and its ancestors, from the top-level folder down to the folder itself
+     */
+    async getFolderPath(folderId: string | null): Promise<LocalDocsFolder[]> {
+        const folders = await this.getFolders();
+        const path: LocalDocsFolder[] = [];
+        let folder = folders.find(f => f.id === folderId);
+        while (folder && !path.includes(folder)) {
+            path.unshift(folder);
+            folder = folders.find(f => f.id === folder!.parentId);
+        }
+        return path;
+    }
+
+    /**
+     * Get the IDs of a folder and all folders nested in it
+     */
+    async getFolderTreeIds(folderId: string): Promise<string[]> {
+        return this.collectFolderTreeIds(await this.getFolders(), folderId);
+    }
+
+    /**
+     * Create a folder, at the top level when parentId is null
+     */
+    createFolder(name: string, parentId: string | null = null): Promise<LocalDocsFolder | null> {
+        return this.enqueue(() => this.doCreateFolder(name, parentId));
+    }
+
+    private async doCreateFolder(name: string, parentId: string | null): Promise<LocalDocsFolder | null> {
+        const folders = await this.getFolders();
+        if (parentId && !folders.some(f => f.id === parentId)) {
+            return null;
+        }
+        
+        const folder: LocalDocsFolder = {
+            id: `folder_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`,
+            name,
+            parentId,
+            createdAt: Date.now(),
+            updatedAt: Date.now()
+        };
+        folders.push(folder);
+        await this.saveFoldersList(folders);
+        
+        return folder;
+    }
+
+    /**
+     * Rename a folder
+     */
+    renameFolder(id: string, name: string): Promise<LocalDocsFolder | null> {
+        return this.enqueue(async () => {
+            const folders = await this.getFolders();
+            const folder = folders.find(f => f.id === id);
+            if (!folder || !name) {
+                return null;
+            }
+            folder.name = name;
+            folder.updatedAt = Date.now();
+            await this.saveFoldersList(folders);
+            return folder;
+        });
+    }
+
+    /**
+     * Move a folder into another folder, or to the top level when parentId is null.
+     * A folder can not be moved into itself or one of its subfolders.
+     */
+    moveFolder(id: string, parentId: string | null): Promise<boolean> {
+        return this.enqueue(async () => {
+            const folders = await this.getFolders();
+            const folder = folders.find(f => f.id === id);
+            if (!folder || (parentId && !folders.some(f => f.id === parentId))) {
+                return false;
+            }
+            if (parentId && this.collectFolderTreeIds(folders, id).includes(parentId)) {
+                return false;
+            }
+            folder.parentId = parentId;
+            folder.updatedAt = Date.now();
+            await this.saveFoldersList(folders);
+            return true;
+        });
+    }
+
+    /**
+     * Delete a folder. Its documents and subfolders are moved to the parent folder,
+     * or deleted together with the folder when deleteContents is true.
+     */
+    deleteFolder(id: string, deleteContents: boolean = false): Promise<boolean> {
+        return this.enqueue(() => this.doDeleteFolder(id, deleteContents));
+    }
+
+    private async doDeleteFolder(id: string, deleteContents: boolean): Promise<boolean> {
+        const folders = await this.getFolders();
+        const folder = folders.find(f => f.id === id);
+        if (!folder) {
+            return false;
+        }
+        
+        const removedIds = deleteContents ? this.collectFolderTreeIds(folders, id) : [id];
+        const documents = await this.getAllDocuments();
+        const remaining: LocalDocument[] = [];
+        for (let doc of documents) {
+            if (doc.folderId && removedIds.includes(doc.folderId)) {
+                if (deleteContents) {
+                    await this.removeRevisions(doc.id);
+                    if (doc.id === this.currentDocId) this.currentDocId = null;
+                    this.options.onDocumentDeleted?.(doc.id);
+                    continue;
+                }
+                doc.folderId = folder.parentId;
+            }
+            remaining.push(doc);
+        }
+        await this.saveDocumentsList(remaining);
+        
+        const remainingFolders = folders.filter(f => !removedIds.includes(f.id));
+        remainingFolders.forEach(f => {
+            if (f.parentId === id) f.parentId = folder.parentId;
+        });
+        await this.saveFoldersList(remainingFolders);
+        
+        return true;
+    }
+
+    /**
+     * Move a document into a folder, or to the root when folderId is null
+     */
+    moveDocument(id: string, folderId: string | null): Promise<LocalDocument | null> {
+        return this.enqueue(async () => {
+            if (folderId && !(await this.getFolders()).some(f => f.id === folderId)) {
+                return null;
+            }
+            return this.updateDocument(id, doc => doc.folderId = folderId);
+        });
+    }
+
+    /**
+     * Pin or unpin a document
+     */
+    setDocumentPinned(id: string, pinned: boolean): Promise<LocalDocument | null> {
+        return this.enqueue(() => this.updateDocument(id, doc => doc.pinned = pinned));
+    }
+
+    /**
+     * Export the documents of a folder and its subfolders as a zip of Markdown files,
+     * with a directory for each subfolder. A null folderId exports all documents.
+     */
+    async exportFolder(folderId: string | null): Promise<Blob> {
+        const folders = await this.getFolders();
+        const documents = await this.getAllDocuments();
+        const zip = new JSZip();
+        
+        const addFolder = (parentId: string | null, dir: JSZip) => {
+            const usedNames = new Set<string>();
+            const uniqueName = (name: string, ext: string) => {
+                let fileName = `${name}${ext}`;
+                for (let i = 2; usedNames.has(fileName.toLowerCase()); i++) {
+                    fileName = `${name} (${i})${ext}`;
+                }
+                usedNames.add(fileName.toLowerCase());
+                return fileName;
+            };
+            
+            folders.filter(f => f.parentId === parentId).forEach(folder => {
+                addFolder(folder.id, dir.folder(uniqueName(this.toFileName(folder.name), ''))!);
+            });
+            documents.filter(doc => (doc.folderId ?? null) === parentId).forEach(doc => {
+                const markdown = `# ${doc.title}\n\n${this.contentToMarkdown(doc.content)}`;
+                dir.file(uniqueName(this.toFileName(doc.title), '.md'), markdown, { date: new Date(doc.updatedAt) });
+            });
+        };
+        addFolder(folderId, zip);
+        
+        return zip.generateAsync({ type: 'blob', compression: 'DEFLATE' });
+    }
+
+    /**
+     * Download a folder as a zip of Markdown files
+     */
+    async downloadFolder(folderId: string | null): Promise<boolean> {
+        try {
+            const folder = (await this.getFolders()).find(f => f.id === folderId);
+            const blob = await this.exportFolder(folderId);
+            const url = URL.createObjectURL(blob);
+            const a = document.createElement('a');
+            a.href = url;
+            a.download = `${this.toFileName(folder?.name || 'documents')}.zip`;
+            a.style.display = 'none';
+            document.body.appendChild(a);
+            a.click();
+            
+            // Clean up
+            setTimeout(() => {
+                document.body.removeChild(a);
+                URL.revokeObjectURL(url);
+            }, 100);
+            
+            return true;
+        } catch (error) {
+            console.error('Error downloading folder:', error);
+            return false;
+        }
+    }
+
+    /**
+     * Import a zip of Markdown, text and JSON files into a folder. Directories in the zip
+     * become folders, merged into existing folders with the same name.
+     * Rejects with a RangeError, without importing anything, when the documents of the zip
+     * do not fit into maxDocuments, so an import never removes existing documents.
+     */
+    importArchive(file: Blob, parentId: string | null = null): Promise<LocalDocument[]> {
+        return this.enqueue(() => this.doImportArchive(file, parentId));
+    }
+
+    private async doImportArchive(file: Blob, parentId: string | null): Promise<LocalDocument[]> {
+        const zip = await JSZip.loadAsync(file);
+        const folders = await this.getFolders();
+        
+        // Find or create the folder of a directory path in the zip
+        const ensureFolder = (path: string[]): string | null => {
+            let folderId = parentId;
+            for (let name of path) {
+                let folder = folders.find(f => f.parentId === folderId && f.name === name);
+                if (!folder) {
+                    folder = {
+                        id: `folder_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`,
+                        name,
+                        parentId: folderId,
+                        createdAt: Date.now(),
+                        updatedAt: Date.now()
+                    };
+                    folders.push(folder);
+                }
+                folderId = folder.id;
+            }
+            return folderId;
+        };
+        
+        const getExtension = (name: string) => name.substring(name.lastIndexOf('.')).toLowerCase();
+        const entries = Object.values(zip.files)
+            .filter(entry => !entry.name.startsWith('__MACOSX/') && !entry.name.split('/').some(part => part.startsWith('.')))
+            .filter(entry => entry.dir || ['.md', '.markdown', '.txt', '.json'].includes(getExtension(entry.name)))
+            .sort((a, b) => a.name.localeCompare(b.name));
+        
+        const maxDocuments = this.options.maxDocuments;
+        if (maxDocuments) {
+            const count = entries.filter(entry => !entry.dir).length;
+            const available = Math.max(maxDocuments - (await this.getAllDocuments()).length, 0);
+            if (count > available) {
+                throw new RangeError(`The zip contains ${count} documents, but only ${available} more can be stored (maxDocuments: ${maxDocuments})`);
+            }
+        }
+        
+        const imported: LocalDocument[] = [];
+        for (let entry of entries) {
+            const path = entry.name.split('/').filter(part => part);
+            if (entry.dir) {
+                ensureFolder(path);
+                continue;
+            }
+            
+            const fileName = path.pop()!;
+            const ext = getExtension(fileName);
+            
+            try {
+                const text = await entry.async('string');
+                const doc = this.createDocumentFromFile(fileName, ext, text);
+                doc.folderId = ensureFolder(path);
+                await this.insertDocument(doc);
+                await this.addRevision(doc, 'manual');
+                imported.push(doc);
+            } catch (error) {
+                console.error(`Error importing "${entry.name}":`, error);
+            }
+        }
+        
+        await this.saveFoldersList(folders);
+        return imported;
+    }
+
     /**
      * Export document as a file (JSON format)
      */
-    exportDocument(id: string, format: 'json' | 'markdown' | 'text' = 'json'): string | null {
-        const documents = this.getAllDocuments();
+    async exportDocument(id: string, format: 'json' | 'markdown' | 'text' = 'json'): Promise<string | null> {
+        const documents = await this.getAllDocuments();
         const document = documents.find(doc => doc.id === id);
         
         if (!document) {
@@ -268,8 +786,8 @@ export class LocalDocsManager {
     /**
      * Download document as a file
      */
-    downloadDocument(id: string, format: 'json' | 'markdown' | 'text' = 'json'): boolean {
-        const document = this.getAllDocuments().find(doc => doc.id === id);
+    async downloadDocument(id: string, format: 'json' | 'markdown' | 'text' = 'json'): Promise<boolean> {
+        const document = (await this.getAllDocuments()).find(doc => doc.id === id);
         
         if (!document) {
             return false;
@@ -277,7 +795,7 @@ export class LocalDocsManager {
         
         try {
             // Get document content in specified format
-            const content = this.exportDocument(id, format);
+            const content = await this.exportDocument(id, format);
             if (!content) return false;
             
             // Create file extension and MIME type based on format
@@ -326,58 +844,22 @@ export class LocalDocsManager {
         return new Promise((resolve, reject) => {
             const reader = new FileReader();
             
-            reader.onload = () => {
+            reader.onload = () => this.enqueue(async () => {
                 try {
                     const content = reader.result as string;
-                    let doc: LocalDocument;
-                    
-                    if (file.name.endsWith('.json')) {
-                        // Import JSON document
-                        doc = JSON.parse(content) as LocalDocument;
-                        
-                        // Validate document structure
-                        if (!doc.id || !doc.title || !doc.content) {
-                            throw new Error('Invalid document format');
-                        }
-                    } else if (file.name.endsWith('.md') || file.name.endsWith('.txt')) {
-                        // Import markdown or text as new document
-                        const title = file.name.split('.').slice(0, -1).join('.');
-                        
-                        // Create content structure based on the text content
-                        const editorContent = this.convertTextToEditorContent(content);
-                        
-                        // Generate a new document
-                        doc = {
-                            id: `doc_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`,
-                            title: title,
-                            content: editorContent,
-                            createdAt: Date.now(),
-                            updatedAt: Date.now(),
-                            excerpt: this.generateExcerpt(content)
-                        };
-                    } else {
-                        throw new Error('Unsupported file format');
-                    }
-                    
-                    // Add to documents list with a new ID to avoid conflicts
-                    const originalId = doc.id;
-                    doc.id = `doc_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
-                    
-                    // Update timestamps
-                    const now = Date.now();
-                    doc.updatedAt = now;
+                    const ext = file.name.substring(file.name.lastIndexOf('.')).toLowerCase();
+                    const doc = this.createDocumentFromFile(file.name, ext, content);
                     
                     // Add to documents list
-                    const documents = this.getAllDocuments();
-                    documents.unshift(doc);
-                    this.saveDocumentsList(documents);
+                    await this.insertDocument(doc);
+                    await this.addRevision(doc, 'manual');
                     
                     resolve(doc);
                 } catch (error) {
                     console.error('Error importing document:', error);
                     reject(error);
                 }
-            };
+            });
             
             reader.onerror = reject;
             reader.readAsText(file);
@@ -500,6 +982,119 @@ export class LocalDocsManager {
         return this.currentDocId;
     }
 
+    /**
+     * Create a new document from the content of an imported file
+     */
+    private createDocumentFromFile(fileName: string, ext: string, text: string): LocalDocument {
+        let doc: LocalDocument;
+        
+        if (ext === '.json') {
+            // Import JSON document
+            doc = JSON.parse(text) as LocalDocument;
+            
+            // Validate document structure
+            if (!doc.id || !doc.title || !doc.content) {
+                throw new Error('Invalid document format');
+            }
+            delete doc.folderId;
+            delete doc.branchedFrom;
+        } else if (ext === '.md' || ext === '.markdown' || ext === '.txt') {
+            // Import markdown or text as new document
+            let title = fileName.split('.').slice(0, -1).join('.');
+            let body = text;
+            
+            // The heading written by exportFolder() is the original title, the file name may have been changed to be safe
+            const heading = ext !== '.txt' ? text.match(/^# (.+)\r?\n/) : null;
+            if (heading) {
+                title = heading[1].trim();
+                body = text.substring(heading[0].length);
+            }
+            
+            doc = {
+                id: '',
+                title: title,
+                content: ext === '.txt' ? this.convertTextToEditorContent(body) : this.markdownToContent(body),
+                createdAt: Date.now(),
+                updatedAt: Date.now(),
+                excerpt: this.generateExcerpt(body.trim())
+            };
+        } else {
+            throw new Error('Unsupported file format');
+        }
+        
+        // Use a new ID to avoid conflicts
+        doc.id = `doc_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+        doc.updatedAt = Date.now();
+        
+        return doc;
+    }
+
+    /**
+     * Convert markdown to document JSON content with the editor schema
+     */
+    private markdownToContent(markdown: string): any {
+        try {
+            const schema = this.editor.innerEditor.schema;
+            return schema.topNodeType.create(null, this.editor.innerEditor.parseMarkdown(markdown)).toJSON();
+        } catch (error) {
+            console.error('Error parsing markdown:', error);
+            return this.convertTextToEditorContent(markdown);
+        }
+    }
+
+    /**
+     * Convert document JSON content to markdown without changing the editor content
+     */
+    private contentToMarkdown(content: any): string {
+        try {
+            const schema = this.editor.innerEditor.schema;
+            return htmlToMd(getHTMLFromFragment(ProseMirrorNode.fromJSON(schema, content).content, schema));
+        } catch (error) {
+            console.error('Error converting content to markdown:', error);
+            return this.extractTextFromContent(content);
+        }
+    }
+
+    /**
+     * A name that is safe to use as a file or directory name
+     */
+    private toFileName(name: string): string {
+        return (name || '').replace(/[\\/:*?"<>|\x00-\x1f]/g, '_').trim().substring(0, 100) || 'untitled';
+    }
+
+    /**
+     * Collect the IDs of a folder and all folders nested in it
+     */
+    private collectFolderTreeIds(folders: LocalDocsFolder[], folderId: string): string[] {
+        const ids = [folderId];
+        for (let i = 0; i < ids.length; i++) {
+            folders.filter(f => f.parentId === ids[i] && !ids.includes(f.id)).forEach(f => ids.push(f.id));
+        }
+        return ids;
+    }
+
+    /**
+     * Change a document without changing its content and updatedAt, e.g. when it is moved or pinned
+     */
+    private async updateDocument(id: string, update: (doc: LocalDocument) => void): Promise<LocalDocument | null> {
+        const documents = await this.getAllDocuments();
+        const doc = documents.find(d => d.id === id);
+        if (!doc) {
+            return null;
+        }
+        update(doc);
+        await this.saveDocumentsList(documents);
+        return doc;
+    }
+
+    /**
+     * Bring the search index up to date with the stored documents
+     */
+    private async syncSearchIndex(): Promise<void> {
+        const documents = await this.getAllDocuments();
+        this.searchIndex.sync(documents, doc => this.extractTextFromContent(doc.content));
+    }
+
     /**
      * Get the storage key with prefix
      */
@@ -508,14 +1103,126 @@ export class LocalDocsManager {
     }
 
     /**
-     * Save the documents list to localStorage
+     * Get the storage key of the folders list
+     */
+    private getFoldersStorageKey(): string {
+        return `${this.getStorageKey()}-folders`;
+    }
+
+    /**
+     * Get the storage key of a document's revisions
+     */
+    private getRevisionsStorageKey(docId: string): string {
+        return `${this.getStorageKey()}-revisions-${docId}`;
+    }
+
+    /**
+     * Add a document to the front of the list, removing the oldest documents when the list is full
      */
-    private saveDocumentsList(documents: LocalDocument[]): void {
+    private async insertDocument(doc: LocalDocument): Promise<void> {
+        const documents = await this.getAllDocuments();
+        
+        // Check if we need to remove older documents, pinned documents are always kept
+        if (this.options.maxDocuments && documents.length >= this.options.maxDocuments) {
+            // Sort by updatedAt and remove oldest
+            documents.sort((a, b) => b.updatedAt - a.updatedAt);
+            while (documents.length >= this.options.maxDocuments) {
+                const index = documents.map(d => !!d.pinned).lastIndexOf(false);
+                if (index < 0) break;
+                const removed = documents.splice(index, 1)[0];
+                await this.removeRevisions(removed.id);
+            }
+        }
+        
+        documents.unshift(doc);
+        await this.saveDocumentsList(documents);
+    }
+
+    /**
+     * Record a snapshot of the document, skipped when the content equals the latest revision.
+     * When the history is full, the oldest auto save is dropped first.
+     */
+    private async addRevision(doc: LocalDocument, type: LocalDocumentRevisionType, restoredFrom?: string): Promise<LocalDocumentRevision | null> {
+        const maxRevisions = this.options.maxRevisions ?? 50;
+        if (maxRevisions <= 0) {
+            return null;
+        }
+        
+        const revisions = await this.getRevisions(doc.id);
+        if (!restoredFrom && revisions.length > 0 && JSON.stringify(revisions[0].content) === JSON.stringify(doc.content)) {
+            return null;
+        }
+        
+        const revision: LocalDocumentRevision = {
+            id: `rev_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`,
+            docId: doc.id,
+            title: doc.title,
+            content: doc.content,
+            createdAt: Date.now(),
+            type,
+            excerpt: doc.excerpt,
+            restoredFrom
+        };
+        revisions.unshift(revision);
+        
+        while (revisions.length > maxRevisions) {
+            let index = revisions.length - 1;
+            while (index > 0 && revisions[index].type !== 'auto') {
+                index--;
+            }
+            revisions.splice(index > 0 ? index : revisions.length - 1, 1);
+        }
+        
         try {
-            localStorage.setItem(this.getStorageKey(), JSON.stringify(documents));
+            await this.storage.setItem(this.getRevisionsStorageKey(doc.id), revisions);
         } catch (error) {
-            console.error('Error saving documents to localStorage:', error);
+            console.error('Error saving document revisions to storage:', error);
         }
+        
+        return revision;
+    }
+
+    /**
+     * Remove all revisions of a document
+     */
+    private async removeRevisions(docId: string): Promise<void> {
+        try {
+            await this.storage.removeItem(this.getRevisionsStorageKey(docId));
+        } catch (error) {
+            console.error('Error removing document revisions from storage:', error);
+        }
+    }
+
+    /**
+     * Save the documents list to the storage backend
+     */
+    private async saveDocumentsList(documents: LocalDocument[]): Promise<void> {
+        try {
+            await this.storage.setItem(this.getStorageKey(), documents);
+        } catch (error) {
+            console.error('Error saving documents to storage:', error);
+        }
+    }
+
+    /**
+     * Save the folders list to the storage backend
+     */
+    private async saveFoldersList(folders: LocalDocsFolder[]): Promise<void> {
+        try {
+            await this.storage.setItem(this.getFoldersStorageKey(), folders);
+        } catch (error) {
+            console.error('Error saving folders to storage:', error);
+        }
+    }
+
+    /**
+     * Run tasks that modify the documents one after another, so that concurrent saves
+     * (e.g. auto-save during a manual save) do not overwrite each other
+     */
+    private enqueue<T>(task: () => Promise<T>): Promise<T> {
+        const result = this.queue.then(task);
+        this.queue = result.catch(() => undefined);
+        return result;
     }
 
     /**
@@ -543,6 +1250,7 @@ export const LocalDocsExt = Extension.create<LocalDocsOptions>({
         return {
             storagePrefix: 'aieditor',
             maxDocuments: 100,
+            maxRevisions: 50,
             autoSaveInterval: 30000, // 30 seconds
         };
     },
@@ -559,7 +1267,7 @@ export const LocalDocsExt = Extension.create<LocalDocsOptions>({
 
     onCreate() {
         // Initialize the manager after the editor is created
-        const editor = this.editor as unknown as AiEditor;
+        const editor = (this.editor as InnerEditor).aiEditor;
         this.storage.manager = new LocalDocsManager(editor, this.options);
     },
 
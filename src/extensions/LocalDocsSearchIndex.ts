@@ -0,0 +1,269 @@
+import { LocalDocument } from "./LocalDocsExt";
+
+export interface LocalDocsSearchOptions {
+    tags?: string[];           // Only documents having all of these tags
+    from?: number;             // Only documents updated at or after this timestamp
+    to?: number;               // Only documents updated at or before this timestamp
+    folderIds?: (string | null)[]; // Only documents in one of these folders, null for the root
+    limit?: number;
+}
+
+export interface LocalDocsSearchSnippet {
+    text: string;
+    highlights: { from: number, to: number }[]; // Offsets of the matched terms in text
+}
+
+export interface LocalDocsSearchResult {
+    document: LocalDocument;
+    score: number;
+    snippet: LocalDocsSearchSnippet;
+}
+
+type Field = 'title' | 'tags' | 'body';
+
+interface IndexedDocument {
+    document: LocalDocument;
+    text: string;
+    length: number;
+    terms: Set<string>;
+}
+
+// Matches in the title weigh more than matches in the tags, which weigh more than the body
+const FIELD_WEIGHTS: Record<Field, number> = { title: 3, tags: 2, body: 1 };
+
+// BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+
+const SNIPPET_LENGTH = 160;
+
+/**
+ * Split text into lower case search terms. Latin words are kept whole,
+ * CJK text is split into single characters since it has no spaces between words.
+ */
+export const tokenizeSearchText = (text: string): string[] => {
+    return (text.toLowerCase().match(/[一-龥぀-ヿ가-힯]|[\p{L}\p{N}_]+/gu) || []);
+}
+
+const WORD_CHAR = /[\p{L}\p{N}_]/u;
+const CJK_CHAR = /[一-龥぀-ヿ가-힯]/;
+
+/**
+ * Whether the term found at index is a whole word, so that "run" is not highlighted inside "brunch"
+ */
+const isWholeWord = (text: string, index: number, term: string): boolean => {
+    if (CJK_CHAR.test(term)) return true;
+    const before = text.charAt(index - 1);
+    const after = text.charAt(index + term.length);
+    return !(before && WORD_CHAR.test(before) && !CJK_CHAR.test(before))
+        && !(after && WORD_CHAR.test(after) && !CJK_CHAR.test(after));
+}
+
+/**
+ * An in-memory inverted index over the title, tags and body text of local documents.
+ * Documents are only re-indexed when their updatedAt changes.
+ */
+export class LocalDocsSearchIndex {
+    // term -> docId -> term frequency per field
+    private postings = new Map<string, Map<string, Record<Field, number>>>();
+    private documents = new Map<string, IndexedDocument>();
+    private totalLength = 0;
+
+    /**
+     * Bring the index up to date with the document list: index new and changed documents
+     * and drop the deleted ones
+     */
+    sync(documents: LocalDocument[], getText: (doc: LocalDocument) => string): void {
+        const ids = new Set(documents.map(doc => doc.id));
+        for (let id of [...this.documents.keys()]) {
+            if (!ids.has(id)) this.remove(id);
+        }
+        for (let doc of documents) {
+            const indexed = this.documents.get(doc.id);
+            if (!indexed || indexed.document.updatedAt !== doc.updatedAt || indexed.document.title !== doc.title
+                || (indexed.document.tags || []).join() !== (doc.tags || []).join()) {
+                this.add(doc, getText(doc));
+            } else {
+                indexed.document = doc;
+            }
+        }
+    }
+
+    /**
+     * Index a document, replacing the previous version of it
+     */
+    add(doc: LocalDocument, text: string): void {
+        this.remove(doc.id);
+
+        const terms = new Set<string>();
+        let length = 0;
+        const fields: Record<Field, string> = { title: doc.title || '', tags: (doc.tags || []).join(' '), body: text };
+        (Object.keys(fields) as Field[]).forEach(field => {
+            for (let term of tokenizeSearchText(fields[field])) {
+                let docs = this.postings.get(term);
+                if (!docs) {
+                    docs = new Map();
+                    this.postings.set(term, docs);
+                }
+                let frequency = docs.get(doc.id);
+                if (!frequency) {
+                    frequency = { title: 0, tags: 0, body: 0 };
+                    docs.set(doc.id, frequency);
+                }
+                frequency[field]++;
+                terms.add(term);
+                length++;
+            }
+        });
+
+        this.documents.set(doc.id, { document: doc, text, length, terms });
+        this.totalLength += length;
+    }
+
+    /**
+     * Remove a document from the index
+     */
+    remove(id: string): void {
+        const indexed = this.documents.get(id);
+        if (!indexed) return;
+
+        for (let term of indexed.terms) {
+            const docs = this.postings.get(term);
+            docs?.delete(id);
+            if (docs && docs.size === 0) this.postings.delete(term);
+        }
+        this.documents.delete(id);
+        this.totalLength -= indexed.length;
+    }
+
+    /**
+     * Find the documents containing every term of the query, best matches first.
+     * The last term also matches longer terms, so results update while typing.
+     * An empty query returns all documents matching the filters, most recently updated first.
+     */
+    search(query: string, options: LocalDocsSearchOptions = {}): LocalDocsSearchResult[] {
+        const queryTerms = [...new Set(tokenizeSearchText(query))];
+        const candidates = [...this.documents.values()].filter(indexed => this.matchesFilters(indexed.document, options));
+
+        if (queryTerms.length === 0) {
+            return candidates
+                .sort((a, b) => b.document.updatedAt - a.document.updatedAt)
+                .slice(0, options.limit)
+                .map(indexed => ({ document: indexed.document, score: 0, snippet: this.createSnippet(indexed.text, []) }));
+        }
+
+        // Each query term expands to the indexed terms it matches
+        const expanded = queryTerms.map((term, index) => {
+            if (index < queryTerms.length - 1) {
+                return this.postings.has(term) ? [term] : [];
+            }
+            return [...this.postings.keys()].filter(indexedTerm => indexedTerm.startsWith(term));
+        });
+
+        const averageLength = this.documents.size ? this.totalLength / this.documents.size : 0;
+        const results: LocalDocsSearchResult[] = [];
+        for (let indexed of candidates) {
+            let score = 0;
+            const matched: string[] = [];
+            for (let terms of expanded) {
+                const termScore = terms.reduce((sum, term) => sum + this.scoreTerm(term, indexed, averageLength), 0);
+                if (termScore === 0) {
+                    score = 0;
+                    break;
+                }
+                score += termScore;
+                matched.push(...terms.filter(term => indexed.terms.has(term)));
+            }
+            if (score > 0) {
+                results.push({ document: indexed.document, score, snippet: this.createSnippet(indexed.text, matched) });
+            }
+        }
+
+        results.sort((a, b) => b.score - a.score || b.document.updatedAt - a.document.updatedAt);
+        return results.slice(0, options.limit);
+    }
+
+    /**
+     * Get all tags used by the indexed documents, sorted alphabetically
+     */
+    getTags(): string[] {
+        const tags = new Set<string>();
+        this.documents.forEach(indexed => indexed.document.tags?.forEach(tag => tags.add(tag)));
+        return [...tags].sort((a, b) => a.localeCompare(b));
+    }
+
+    private matchesFilters(doc: LocalDocument, options: LocalDocsSearchOptions): boolean {
+        if (options.tags?.length) {
+            const tags = (doc.tags || []).map(tag => tag.toLowerCase());
+            if (!options.tags.every(tag => tags.includes(tag.toLowerCase()))) return false;
+        }
+        if (options.folderIds && !options.folderIds.includes(doc.folderId ?? null)) return false;
+        if (options.from !== undefined && doc.updatedAt < options.from) return false;
+        if (options.to !== undefined && doc.updatedAt > options.to) return false;
+        return true;
+    }
+
+    /**
+     * BM25 score of a term in a document, with the term frequency weighted by field
+     */
+    private scoreTerm(term: string, indexed: IndexedDocument, averageLength: number): number {
+        const docs = this.postings.get(term);
+        const frequency = docs?.get(indexed.document.id);
+        if (!docs || !frequency) return 0;
+
+        const tf = frequency.title * FIELD_WEIGHTS.title + frequency.tags * FIELD_WEIGHTS.tags + frequency.body * FIELD_WEIGHTS.body;
+        const idf = Math.log(1 + (this.documents.size - docs.size + 0.5) / (docs.size + 0.5));
+        const norm = K1 * (1 - B + B * (averageLength ? indexed.length / averageLength : 1));
+        return idf * (tf * (K1 + 1)) / (tf + norm);
+    }
+
+    /**
+     * Cut a window of the body text around the first matched term and mark every matched term in it
+     */
+    private createSnippet(text: string, terms: string[]): LocalDocsSearchSnippet {
+        const body = text.replace(/\s+/g, ' ').trim();
+        const lower = body.toLowerCase();
+
+        let first = -1;
+        for (let term of terms) {
+            let index = lower.indexOf(term);
+            while (index >= 0 && !isWholeWord(lower, index, term)) {
+                index = lower.indexOf(term, index + 1);
+            }
+            if (index >= 0 && (first < 0 || index < first)) first = index;
+        }
+
+        const start = first > SNIPPET_LENGTH / 3 ? first - Math.floor(SNIPPET_LENGTH / 3) : 0;
+        const end = Math.min(body.length, start + SNIPPET_LENGTH);
+        const prefix = start > 0 ? '...' : '';
+        const snippet = prefix + body.substring(start, end) + (end < body.length ? '...' : '');
+
+        // Mark the longest terms first so that overlapping shorter terms are skipped
+        const highlights: { from: number, to: number }[] = [];
+        for (let term of [...terms].sort((a, b) => b.length - a.length)) {
+            let index = lower.indexOf(term, start);
+            while (index >= 0 && index + term.length <= end) {
+                const from = index - start + prefix.length;
+                const to = from + term.length;
+                if (isWholeWord(lower, index, term) && !highlights.some(h => from < h.to && to > h.from)) {
+                    highlights.push({ from, to });
+                }
+                index = lower.indexOf(term, index + 1);
+            }
+        }
+        highlights.sort((a, b) => a.from - b.from);
+
+        // Join adjacent highlights, e.g. the characters of a CJK word
+        const merged: { from: number, to: number }[] = [];
+        for (let highlight of highlights) {
+            const last = merged[merged.length - 1];
+            if (last && last.to === highlight.from) {
+                last.to = highlight.to;
+            } else {
+                merged.push(highlight);
+            }
+        }
+
+        return { text: snippet, highlights: merged };
+    }
+}
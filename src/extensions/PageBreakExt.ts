@@ -0,0 +1,44 @@
+import {Node, mergeAttributes} from '@tiptap/core';
+
+declare module '@tiptap/core' {
+    interface Commands<ReturnType> {
+        pageBreak: {
+            setPageBreak: () => ReturnType,
+        };
+    }
+}
+
+/**
+ * 分页符，打印以及导出 PDF 时从分页符处开始新的一页
+ */
+export const PageBreakExt = Node.create({
+    name: 'pageBreak',
+    group: 'block',
+    atom: true,
+    selectable: true,
+
+    addOptions() {
+        return {
+            HTMLAttributes: {
+                class: 'aie-page-break',
+            },
+        };
+    },
+
+    parseHTML() {
+        return [{tag: 'div[data-type="page-break"]'}];
+    },
+
+    renderHTML({HTMLAttributes}) {
+        return ['div', mergeAttributes(this.options.HTMLAttributes, HTMLAttributes, {
+            'data-type': 'page-break',
+            style: 'page-break-after: always; break-after: page;',
+        })];
+    },
+
+    addCommands() {
+        return {
+            setPageBreak: () => ({chain}) => chain().insertContent({type: this.name}).run(),
+        };
+    },
+});
@@ -1,6 +1,7 @@
 import { Extension, RawCommands } from '@tiptap/core';
 import { Plugin, PluginKey, TextSelection, Transaction } from '@tiptap/pm/state';
 import { debouncedAiCorrect, validateOpenRouterConfig } from '../util/aiAutoCorrect.ts';
+import { diffWords } from '../util/textDiff.ts';
 
 // Declare global for TypeScript
 declare global {
@@ -434,36 +435,19 @@ export const SmartAutoCorrectExt = Extension.create<SmartAutoCorrectOptions>({
         }
       },
       
-      // Simple text diff to highlight changes
+      // Word level text diff to highlight changes
       generateTextDiff(original: string, corrected: string): string {
-        // Very basic diff implementation - in a real app you'd use a proper diff library
         if (original === corrected) return corrected;
-        
-        const originalWords = original.split(/\s+/);
-        const correctedWords = corrected.split(/\s+/);
-        let result = '';
-        
-        // Find the longest common subsequence
-        // For simplicity, we'll just do word-by-word comparison
-        for (let i = 0; i < Math.max(originalWords.length, correctedWords.length); i++) {
-          const originalWord = i < originalWords.length ? originalWords[i] : null;
-          const correctedWord = i < correctedWords.length ? correctedWords[i] : null;
-          
-          if (originalWord === correctedWord) {
-            // Words are the same
-            result += originalWord + ' ';
-          } else {
-            // Words differ
-            if (originalWord) {
-              result += `<span class="diff-removed">${originalWord}</span> `;
-            }
-            if (correctedWord) {
-              result += `<span class="diff-added">${correctedWord}</span> `;
-            }
+
+        return diffWords(original, corrected).map(part => {
+          if (part.type === 'delete') {
+            return `<span class="diff-removed">${part.text}</span>`;
           }
-        }
-        
-        return result.trim();
+          if (part.type === 'insert') {
+            return `<span class="diff-added">${part.text}</span>`;
+          }
+          return part.text;
+        }).join('');
       },
       
       // Retry the correction with user-provided context
@@ -0,0 +1,289 @@
+import {Extension, Mark, mergeAttributes} from "@tiptap/core";
+import {Fragment, Mark as PMMark, MarkType, Node, Slice} from "@tiptap/pm/model";
+import {Plugin, PluginKey, TextSelection, Transaction} from "@tiptap/pm/state";
+import {Mapping, ReplaceStep} from "@tiptap/pm/transform";
+import {uuid} from "../util/uuid.ts";
+
+declare module '@tiptap/core' {
+    interface Commands<ReturnType> {
+        suggestion: {
+            setSuggestionMode: (enabled: boolean) => ReturnType,
+            toggleSuggestionMode: () => ReturnType,
+            /**
+             * 接受修订，不传 id 时接受全部修订
+             */
+            acceptSuggestion: (id?: string) => ReturnType,
+            /**
+             * 拒绝修订，不传 id 时拒绝全部修订
+             */
+            rejectSuggestion: (id?: string) => ReturnType,
+        }
+    }
+}
+
+export interface SuggestionOptions {
+    //修订人，记录在每一处修改中
+    author: string,
+    //是否默认开启修订模式
+    enabled: boolean,
+}
+
+export interface Suggestion {
+    id: string,
+    type: "insertion" | "deletion",
+    author: string,
+    time: number,
+    text: string,
+    from: number,
+    to: number,
+}
+
+export const suggestionPluginKey = new PluginKey("aie-suggestion");
+
+// 修订相关的 transaction 标记，带有该标记的修改不再记录为修订
+const suggestionMeta = "suggestion";
+
+const createSuggestionMark = (name: "insertion" | "deletion", tag: "ins" | "del") => Mark.create({
+    name,
+    inclusive: false,
+    excludes: "insertion deletion",
+
+    addAttributes() {
+        return {
+            id: {
+                default: null,
+                parseHTML: element => element.getAttribute("data-suggestion-id"),
+                renderHTML: attributes => ({"data-suggestion-id": attributes.id}),
+            },
+            author: {
+                default: "",
+                parseHTML: element => element.getAttribute("data-author") || "",
+                renderHTML: attributes => ({"data-author": attributes.author}),
+            },
+            time: {
+                default: 0,
+                parseHTML: element => Number(element.getAttribute("data-time")) || 0,
+                renderHTML: attributes => ({"data-time": attributes.time}),
+            },
+        }
+    },
+
+    parseHTML() {
+        // 优先于 Strike 解析 del 标签
+        return [{tag: `${tag}[data-suggestion-id]`, priority: 100}]
+    },
+
+    renderHTML({HTMLAttributes}) {
+        return [tag, mergeAttributes({class: `aie-suggestion-${name}`}, HTMLAttributes), 0]
+    },
+});
+
+export const InsertionMark = createSuggestionMark("insertion", "ins");
+export const DeletionMark = createSuggestionMark("deletion", "del");
+
+/**
+ * 获取文档中的全部修订，相邻且 id 相同的内容合并为一条
+ */
+export const getSuggestions = (doc: Node): Suggestion[] => {
+    const suggestions: Suggestion[] = [];
+    doc.descendants((node, pos) => {
+        if (!node.isText) return true;
+        const mark = node.marks.find(mark => mark.type.name === "insertion" || mark.type.name === "deletion");
+        if (!mark) return false;
+        const last = suggestions[suggestions.length - 1];
+        // 跨段落的同一条修订之间只有段落边界，合并后接受删除时会同时合并段落
+        if (last && last.id === mark.attrs.id && last.type === mark.type.name
+            && (last.to === pos || doc.textBetween(last.to, pos) === "")) {
+            last.text += (last.to === pos ? "" : "\n") + node.text;
+            last.to = pos + node.nodeSize;
+        } else {
+            suggestions.push({
+                id: mark.attrs.id,
+                type: mark.type.name as Suggestion["type"],
+                author: mark.attrs.author,
+                time: mark.attrs.time,
+                text: node.text!,
+                from: pos,
+                to: pos + node.nodeSize,
+            });
+        }
+        return false;
+    });
+    return suggestions;
+}
+
+/**
+ * 接受或者拒绝修订：接受时删除 deletion 的内容并保留 insertion 的内容，拒绝时相反
+ * @param tr
+ * @param accept
+ * @param id 不传时处理全部修订
+ */
+export const resolveSuggestions = (tr: Transaction, accept: boolean, id?: string) => {
+    const suggestions = getSuggestions(tr.doc).filter(suggestion => !id || suggestion.id === id);
+    // 从后往前处理，前面的位置不受影响
+    for (let suggestion of suggestions.reverse()) {
+        const markType = tr.doc.type.schema.marks[suggestion.type];
+        const remove = suggestion.type === "insertion" ? !accept : accept;
+        if (remove) {
+            tr.delete(suggestion.from, suggestion.to);
+        } else {
+            tr.removeMark(suggestion.from, suggestion.to, markType);
+        }
+    }
+    tr.setMeta(suggestionMeta, true);
+    return suggestions.length > 0;
+}
+
+/**
+ * 查找与 pos 相邻的同一修订人的修订 id，连续输入或者删除时合并为同一条修订
+ */
+const findAdjacentId = (doc: Node, pos: number, markType: MarkType, author: string) => {
+    const $pos = doc.resolve(Math.min(pos, doc.content.size));
+    for (let node of [$pos.nodeBefore, $pos.nodeAfter]) {
+        const mark = node?.marks.find(mark => mark.type === markType);
+        if (mark && mark.attrs.author === author) {
+            return mark.attrs.id;
+        }
+    }
+    return null;
+}
+
+/**
+ * 把删除的内容标记为 deletion，已经是 insertion 的内容直接删除
+ */
+const markDeleted = (fragment: Fragment, mark: PMMark, insertionType: MarkType): Fragment => {
+    const nodes: Node[] = [];
+    fragment.forEach(node => {
+        if (node.isText) {
+            if (insertionType.isInSet(node.marks)) return;
+            nodes.push(node.mark(mark.type.isInSet(node.marks) ? node.marks : mark.addToSet(node.marks)));
+        } else {
+            nodes.push(node.copy(markDeleted(node.content, mark, insertionType)));
+        }
+    });
+    return Fragment.from(nodes);
+}
+
+/**
+ * 把 transaction 中的插入和删除转换为修订
+ */
+const trackChanges = (transactions: readonly Transaction[], newDoc: Node, tr: Transaction, options: SuggestionOptions, backspace: boolean) => {
+    const schema = newDoc.type.schema;
+    const insertionType = schema.marks.insertion;
+    const deletionType = schema.marks.deletion;
+    const time = Date.now();
+    const inserted: { from: number, to: number }[] = [];
+    const deleted: { pos: number, slice: Slice }[] = [];
+
+    // 所有 step 合并为一个 mapping，用于把每个 step 的位置映射到最终的文档
+    const steps = transactions.flatMap(transaction => transaction.steps.map((step, index) => ({
+        step,
+        doc: transaction.docs[index],
+    })));
+    const mapping = new Mapping();
+    transactions.forEach(transaction => mapping.appendMapping(transaction.mapping));
+
+    steps.forEach(({step, doc}, index) => {
+        if (!(step instanceof ReplaceStep)) return;
+        const {from, to, slice} = step as any as { from: number, to: number, slice: Slice };
+        const rest = mapping.slice(index + 1);
+        if (slice.size > 0) {
+            inserted.push({from: rest.map(from, 1), to: rest.map(from + slice.size, -1)});
+        }
+        // 只删除段落结构（例如合并段落）时不记录为修订
+        if (from < to && doc.textBetween(from, to).length > 0) {
+            deleted.push({pos: rest.map(from, -1), slice: doc.slice(from, to)});
+        }
+    });
+
+    for (let {from, to} of inserted) {
+        if (from >= to) continue;
+        tr.removeMark(from, to, deletionType);
+        const id = findAdjacentId(tr.doc, from, insertionType, options.author)
+            || findAdjacentId(tr.doc, to, insertionType, options.author) || uuid();
+        tr.addMark(from, to, insertionType.create({id, author: options.author, time}));
+    }
+
+    for (let {pos, slice} of deleted.reverse()) {
+        const id = findAdjacentId(tr.doc, tr.mapping.map(pos, -1), deletionType, options.author) || uuid();
+        const mark = deletionType.create({id, author: options.author, time});
+        const content = markDeleted(slice.content, mark, insertionType);
+        if (!content.textBetween(0, content.size)) continue;
+        const insertPos = tr.mapping.map(pos, -1);
+        tr.replace(insertPos, insertPos, new Slice(content, slice.openStart, slice.openEnd));
+        // 退格删除时光标停留在删除内容的前面
+        if (backspace && tr.selection.empty) {
+            tr.setSelection(TextSelection.create(tr.doc, insertPos));
+        }
+    }
+
+    return inserted.length > 0 || deleted.length > 0;
+}
+
+export const SuggestionExt = Extension.create<SuggestionOptions, { enabled: boolean }>({
+    name: "suggestion",
+
+    addOptions() {
+        return {
+            author: "",
+            enabled: false,
+        }
+    },
+
+    addStorage() {
+        return {
+            enabled: this.options.enabled,
+        }
+    },
+
+    addExtensions() {
+        return [InsertionMark, DeletionMark]
+    },
+
+    addCommands() {
+        return {
+            setSuggestionMode: (enabled) => ({tr, dispatch}) => {
+                if (dispatch) {
+                    this.storage.enabled = enabled;
+                    // 触发 transaction，以便工具栏更新状态
+                    tr.setMeta(suggestionMeta, true);
+                }
+                return true;
+            },
+            toggleSuggestionMode: () => ({commands}) => {
+                return commands.setSuggestionMode(!this.storage.enabled);
+            },
+            acceptSuggestion: (id) => ({tr, dispatch}) => {
+                return dispatch ? resolveSuggestions(tr, true, id) : getSuggestions(tr.doc).some(s => !id || s.id === id);
+            },
+            rejectSuggestion: (id) => ({tr, dispatch}) => {
+                return dispatch ? resolveSuggestions(tr, false, id) : getSuggestions(tr.doc).some(s => !id || s.id === id);
+            },
+        }
+    },
+
+    addProseMirrorPlugins() {
+        const extension = this;
+        return [
+            new Plugin({
+                key: suggestionPluginKey,
+                appendTransaction(transactions, oldState, newState) {
+                    if (!extension.storage.enabled) return null;
+                    const changes = transactions.filter(tr => tr.docChanged);
+                    // 撤销、重做、接受或拒绝修订，以及协同编辑中其他用户的修改不记录
+                    if (changes.length === 0 || transactions.some(tr => tr.getMeta(suggestionMeta) || tr.getMeta("history$")
+                        || tr.getMeta("y-sync$")?.isChangeOrigin)) {
+                        return null;
+                    }
+                    const {selection} = oldState;
+                    const backspace = selection.empty && transactions.some(tr => tr.selection.from < selection.from);
+                    const tr = newState.tr;
+                    if (!trackChanges(changes, newState.doc, tr, extension.options, backspace)) {
+                        return null;
+                    }
+                    return tr.setMeta(suggestionMeta, true);
+                },
+            })
+        ]
+    },
+})
@@ -1,8 +1,13 @@
 // Add exports for all extensions
 export * from './AgentZeroExt';
+export * from './AiDiffExt';
 export * from './FileAPIExt';
 export * from './FileUploadExt';
 export * from './IFrameExt';
 export * from './LocalDocsExt';
+export * from './LocalDocsSearchIndex';
+export * from './LocalDocsEmbeddingIndex';
 export * from './SmartAutoCorrectExt';
+export * from './SuggestionExt';
+export * from './CommentMarkExt';
 
@@ -41,6 +41,7 @@ export const en: Resource = {
         "indent-decrease": "Decrease indent",
         "indent-increase": "Increase indent",
         "break": "Force line break",
+        "page-break": "Page break",
         "image": "Image",
         "video": "video",
         "attachment": "Attachment",
@@ -48,6 +49,9 @@ export const en: Resource = {
         "code-block": "Code block",
         "table": "Table",
         "printer": "Print",
+        "suggestion": "Suggestion mode",
+        "suggestion-panel": "Changes",
+        "comment": "Comments",
         "fullscreen": "Full screen",
         "ai": "AI",
         "menu-group": "Menu Group",
@@ -88,6 +92,9 @@ export const en: Resource = {
         "split-cells-horizontal":"Split cells",
         "split-cells-vertical":"Split cells",
         "delete-table":"Delete table",
+        "export-table-csv":"Export as CSV",
+        "export-table-xlsx":"Export as Excel",
+        "select-sheets":"Select the sheets to import",
 
         ///link
         "edit-link":"Edit link",
@@ -126,6 +133,45 @@ export const en: Resource = {
         "ai-append":"Append",
         "ai-replace":"Replace",
         "ai-cancel":"Cancel",
+        "ai-review":"Review changes",
+        "ai-diff-accept":"Accept",
+        "ai-diff-reject":"Reject",
+        "ai-diff-accept-all":"Accept all",
+        "ai-diff-reject-all":"Reject all",
+        "suggestion-insertion":"Inserted",
+        "suggestion-deletion":"Deleted",
+        "suggestion-empty":"No changes",
+        "comment-placeholder":"Select the content and write a comment",
+        "comment-add":"Comment",
+        "comment-reply":"Reply",
+        "comment-resolve":"Resolve",
+        "comment-reopen":"Reopen",
+        "comment-delete":"Delete",
+        "comment-empty":"No comments",
+        "comment-no-selection":"Please select the content to comment on",
+        "ai-review-document":"AI review",
+        "ai-review-running":"AI is reviewing...",
+        "ai-review-stop":"Stop",
+        "ai-review-unclear":"Unclear",
+        "ai-review-unsupported":"Unsupported claim",
+        "ai-review-terminology":"Terminology",
+        "ai-review-other":"Other",
+        "ai-fallback-tip":"{{model}} is unavailable, answered by {{fallbackModel}}",
+        "ai-ask-documents":"Ask my documents",
+        "ai-ask-documents-sources":"Sources: ",
+        "ai-ask-documents-no-sources":"No relevant local documents found",
+        "ai-ask-documents-error":"Cannot search the local documents",
+        "placeholder-ask-documents":"Ask a question about your local documents",
+        "ai-error-auth":"{{model}} rejected the request, please check the apiKey in the AI config",
+        "ai-error-quota":"{{model}} quota is exhausted, please top up the account or switch to another model",
+        "ai-error-rate-limit":"Too many requests to {{model}}, please try again later",
+        "ai-error-timeout":"{{model}} did not respond in time, please check the network and try again",
+        "ai-error-content-filter":"The content was blocked by the safety policy of {{model}}, please rephrase and try again",
+        "ai-error-malformed-stream":"{{model}} returned data that cannot be parsed, please check the endpoint and protocol config",
+        "ai-error-network":"Cannot connect to {{model}}, please check the network or the endpoint config",
+        "ai-error-server":"{{model}} service error ({{status}}), please try again later",
+        "ai-error-budget":"The token budget of {{model}} is used up, please raise the budget in the AI config",
+        "ai-error-unknown":"{{model}} request failed",
 
         ///ai menus
         "ai-continuation":"Continuation",
@@ -147,7 +193,45 @@ export const en: Resource = {
             emptyState: "No documents found",
             importError: "Failed to import document. The file may be invalid or corrupted.",
             connectionError: "Could not connect to document storage. Please try again.",
-            loadError: "Error loading documents. Please try again."
+            loadError: "Error loading documents. Please try again.",
+            historyButton: "History",
+            historyTitle: "History",
+            backButton: "Back",
+            noRevisions: "No revisions yet",
+            compareHint: "Select two revisions to compare",
+            noChanges: "No differences between the selected revisions",
+            revisionManual: "Saved",
+            revisionAuto: "Auto-saved",
+            revisionRestored: "Restored",
+            restoreButton: "Restore",
+            restoreConfirm: "Restore this revision? The current content will be kept in the history.",
+            branchButton: "Branch",
+            branchTitle: "{{title}} (branch)",
+            storageUsage: "Storage used: {{usage}} of {{quota}}",
+            tagFilter: "Filter by tag",
+            allTags: "All tags",
+            dateFilter: "Filter by date",
+            anyTime: "Any time",
+            pastDay: "Past 24 hours",
+            pastWeek: "Past week",
+            pastMonth: "Past month",
+            pastYear: "Past year",
+            sortBy: "Sort by",
+            sortUpdated: "Last updated",
+            sortCreated: "Date created",
+            sortTitle: "Title",
+            allDocuments: "All documents",
+            newFolderButton: "New folder",
+            folderNamePrompt: "Folder name",
+            renameFolderButton: "Rename folder",
+            deleteFolderButton: "Delete folder",
+            deleteFolderConfirm: "Delete this folder? Its documents and subfolders will be moved to the parent folder.",
+            exportFolderButton: "Export as zip",
+            moveFolderError: "A folder cannot be moved into itself or its subfolders",
+            pinButton: "Pin",
+            unpinButton: "Unpin",
+            importedCount: "Imported {{count}} documents",
+            importLimitError: "The zip contains more documents than can be stored. Delete some documents or increase maxDocuments, then import again."
         }
     }
 };
@@ -37,6 +37,7 @@ export const zh  =  {
     "indent-decrease": "减少缩进",
     "indent-increase": "增加缩进",
     "break": "强制换行",
+    "page-break": "分页符",
     "image": "图片",
     "video": "视频",
     "attachment": "附件",
@@ -44,6 +45,9 @@ export const zh  =  {
     "code-block": "代码块",
     "table": "表格",
     "printer": "打印",
+    "suggestion": "修订模式",
+    "suggestion-panel": "修订列表",
+    "comment": "评论",
     "fullscreen": "全屏",
     "ai": "人工智能",
     "menu-group": "菜单组",
@@ -84,6 +88,9 @@ export const zh  =  {
     "split-cells-horizontal":"解除合并单元格",
     "split-cells-vertical":"解除合并单元格",
     "delete-table":"删除表格",
+    "export-table-csv":"导出为 CSV",
+    "export-table-xlsx":"导出为 Excel",
+    "select-sheets":"选择要导入的工作表",
 
     ////link
     "edit-link":"编辑链接",
@@ -120,6 +127,45 @@ export const zh  =  {
     "ai-append":"追加",
     "ai-replace":"替换",
     "ai-cancel":"舍弃",
+    "ai-review":"查看修改",
+    "ai-diff-accept":"接受",
+    "ai-diff-reject":"拒绝",
+    "ai-diff-accept-all":"全部接受",
+    "ai-diff-reject-all":"全部拒绝",
+    "suggestion-insertion":"插入",
+    "suggestion-deletion":"删除",
+    "suggestion-empty":"暂无修订",
+    "comment-placeholder":"选中内容后输入评论",
+    "comment-add":"评论",
+    "comment-reply":"回复",
+    "comment-resolve":"解决",
+    "comment-reopen":"重新打开",
+    "comment-delete":"删除",
+    "comment-empty":"暂无评论",
+    "comment-no-selection":"请先选中需要评论的内容",
+    "ai-review-document":"AI 审阅",
+    "ai-review-running":"AI 审阅中...",
+    "ai-review-stop":"停止",
+    "ai-review-unclear":"表述不清",
+    "ai-review-unsupported":"缺少依据",
+    "ai-review-terminology":"术语不一致",
+    "ai-review-other":"其他",
+    "ai-fallback-tip":"{{model}} 暂不可用，已由 {{fallbackModel}} 回答",
+    "ai-ask-documents":"问我的文档",
+    "ai-ask-documents-sources":"来源：",
+    "ai-ask-documents-no-sources":"没有找到相关的本地文档",
+    "ai-ask-documents-error":"无法检索本地文档",
+    "placeholder-ask-documents":"针对本地文档提问",
+    "ai-error-auth":"{{model}} 鉴权失败，请检查 AI 配置中的 apiKey",
+    "ai-error-quota":"{{model}} 额度已用完，请充值或切换其他模型",
+    "ai-error-rate-limit":"{{model}} 请求过于频繁，请稍后再试",
+    "ai-error-timeout":"{{model}} 响应超时，请检查网络后重试",
+    "ai-error-content-filter":"内容被 {{model}} 的安全策略拦截，请修改内容后重试",
+    "ai-error-malformed-stream":"{{model}} 返回的数据无法解析，请检查接口地址和协议配置",
+    "ai-error-network":"无法连接 {{model}}，请检查网络或接口地址配置",
+    "ai-error-server":"{{model}} 服务异常（{{status}}），请稍后再试",
+    "ai-error-budget":"{{model}} 的 token 预算已用完，请在 AI 配置中调整预算",
+    "ai-error-unknown":"{{model}} 请求失败",
 
     ///ai menus
     "ai-continuation":"AI 续写",
@@ -127,4 +173,58 @@ export const zh  =  {
     "ai-proofreading":"AI 校对",
     "ai-translation":"AI 翻译",
 
+    localDocs: {
+        buttonText: "本地文档",
+        searchPlaceholder: "搜索文档...",
+        documentTitle: "文档标题",
+        saveButton: "保存",
+        newButton: "新建文档",
+        importButton: "导入",
+        exportButton: "导出",
+        deleteButton: "删除",
+        deleteConfirm: "确定要删除这个文档吗？",
+        untitled: "未命名文档",
+        emptyState: "没有找到文档",
+        importError: "导入文档失败，文件可能无效或已损坏。",
+        connectionError: "无法连接到文档存储，请重试。",
+        loadError: "加载文档出错，请重试。",
+        historyButton: "历史版本",
+        historyTitle: "历史版本",
+        backButton: "返回",
+        noRevisions: "暂无历史版本",
+        compareHint: "选择两个版本进行对比",
+        noChanges: "所选版本之间没有差异",
+        revisionManual: "手动保存",
+        revisionAuto: "自动保存",
+        revisionRestored: "恢复",
+        restoreButton: "恢复",
+        restoreConfirm: "确定恢复到这个版本吗？当前内容会保留在历史版本中。",
+        branchButton: "另存为新文档",
+        branchTitle: "{{title}}（副本）",
+        storageUsage: "已使用存储空间：{{usage}} / {{quota}}",
+        tagFilter: "按标签筛选",
+        allTags: "全部标签",
+        dateFilter: "按时间筛选",
+        anyTime: "全部时间",
+        pastDay: "最近 24 小时",
+        pastWeek: "最近一周",
+        pastMonth: "最近一个月",
+        pastYear: "最近一年",
+        sortBy: "排序方式",
+        sortUpdated: "最近修改",
+        sortCreated: "创建时间",
+        sortTitle: "标题",
+        allDocuments: "全部文档",
+        newFolderButton: "新建文件夹",
+        folderNamePrompt: "文件夹名称",
+        renameFolderButton: "重命名文件夹",
+        deleteFolderButton: "删除文件夹",
+        deleteFolderConfirm: "确定要删除此文件夹吗？其中的文档和子文件夹将移动到上级文件夹。",
+        exportFolderButton: "导出为 zip",
+        moveFolderError: "不能把文件夹移动到它自身或它的子文件夹中",
+        pinButton: "置顶",
+        unpinButton: "取消置顶",
+        importedCount: "已导入 {{count}} 个文档",
+        importLimitError: "压缩包中的文档数量超过了可存储的数量，请删除部分文档或调大 maxDocuments 后重新导入"
+    }
 }
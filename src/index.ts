@@ -1,20 +1,48 @@
 export * from './ai/AiGlobalConfig.ts';
 export * from './ai/AiModelFactory.ts';
 export * from './ai/AiModelManager.ts';
+export * from './ai/AiConversationManager.ts';
+export * from './ai/AiUsageManager.ts';
+export * from './ai/AiToolManager.ts';
+export * from './ai/review/AiReviewService.ts';
+export * from './ai/documents/AskDocumentsService.ts';
+export * from './ai/core/AiChatMessage.ts';
+export * from './ai/core/AiChatOptions.ts';
 export * from './ai/core/AiClient.ts';
 export * from './ai/core/AiClientListener.ts';
+export * from './ai/core/AiError.ts';
+export * from './ai/core/AiConversation.ts';
 export * from './ai/core/AiMessage.ts';
 export * from './ai/core/AiMessageListener.ts';
+export * from './ai/core/AiTool.ts';
+export * from './ai/core/AiUsage.ts';
+export * from './ai/tools/EditorTools.ts';
 export * from './ai/custom/CustomAiModel.ts';
 export * from './ai/custom/CustomAiModelConfig.ts';
 export * from './ai/openai/OpenaiAiModel.ts';
 export * from './ai/openai/OpenaiModelConfig.ts';
+export * from './ai/anthropic/AnthropicAiModel.ts';
+export * from './ai/anthropic/AnthropicModelConfig.ts';
+export * from './ai/local/LocalAiModel.ts';
+export * from './ai/local/LocalModelConfig.ts';
 export * from './ai/spark/SparkAiModel.ts';
 export * from './ai/spark/SparkAiModelConfig.ts';
 export * from './ai/wenxin/WenXinAiModel.ts';
 export * from './ai/wenxin/WenXinAiModelConfig.ts';
+export * from './collaboration/CollaborationProvider.ts';
 export * from './components/bubbles/types.ts';
 export * from './core/AiEditor.ts';
+export * from './extensions/SuggestionExt.ts';
+export * from './extensions/CommentMarkExt.ts';
+export * from './extensions/LocalDocsEmbeddingIndex.ts';
+export * from './storage/StorageBackend.ts';
+export * from './storage/LocalStorageBackend.ts';
+export * from './storage/IndexedDBStorageBackend.ts';
+export * from './util/docxExporter.ts';
+export * from './util/docxImporter.ts';
+export * from './util/pdfExporter.ts';
+export * from './util/epubExporter.ts';
+export * from './util/spreadsheet.ts';
 // Import our new components registration
 import "./components/registerCustomElements.ts";
 
@@ -145,7 +145,7 @@ setTimeout(() => {
             },
             "divider", "undo", "redo", "brush", "eraser", "divider", "heading", "font-family", "font-size", "divider", "bold", "italic", "underline"
             , "strike", "link", "code", "subscript", "superscript", "hr", "todo", "emoji", "divider", "highlight", "font-color", "divider"
-            , "align", "line-height", "divider", "bullet-list", "ordered-list", "indent-decrease", "indent-increase", "break", "divider"
+            , "align", "line-height", "divider", "bullet-list", "ordered-list", "indent-decrease", "indent-increase", "break", "page-break", "divider"
             , "image", "video", "attachment", "quote", "container", "code-block", "table", "divider", "source-code", "printer", "fullscreen", "smart-auto-correct", "local-docs-menu", "smart-paper-fill", "ai", "ai-provider-selector"
             // Add Agent Zero toolbar button
             , {
@@ -0,0 +1,79 @@
+import {StorageBackend, StorageQuota} from "./StorageBackend.ts";
+
+const STORE_NAME = "kv";
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+});
+
+//请求成功时事务还没有提交，空间不足等错误会在之后以事务中止的方式报告，所以写入要等事务完成
+const complete = (transaction: IDBTransaction): Promise<void> => new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onabort = () => reject(transaction.error || new Error("The transaction was aborted"));
+    transaction.onerror = (event) => reject((event.target as IDBRequest).error || transaction.error);
+});
+
+/**
+ * 基于 IndexedDB 的存储后端，数据以结构化克隆的方式保存，没有 localStorage 的 5MB 限制，
+ * 可以保存包含 base64 图片的大文档
+ */
+export class IndexedDBStorageBackend implements StorageBackend {
+    private dbName: string;
+    private db?: Promise<IDBDatabase>;
+
+    constructor(dbName: string = "aieditor") {
+        this.dbName = dbName;
+    }
+
+    private open(): Promise<IDBDatabase> {
+        if (!this.db) {
+            const request = indexedDB.open(this.dbName, 1);
+            request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME);
+            this.db = promisify(request).catch((error) => {
+                // 下次调用时重新打开
+                this.db = undefined;
+                throw error;
+            });
+        }
+        return this.db;
+    }
+
+    private async store(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+        const db = await this.open();
+        return db.transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+    }
+
+    async getItem<T = any>(key: string): Promise<T | null> {
+        const value = await promisify((await this.store("readonly")).get(key));
+        return value === undefined ? null : value;
+    }
+
+    private async write(operation: (store: IDBObjectStore) => void): Promise<void> {
+        const store = await this.store("readwrite");
+        const completed = complete(store.transaction);
+        operation(store);
+        await completed;
+    }
+
+    async setItem(key: string, value: any): Promise<void> {
+        await this.write(store => store.put(value, key));
+    }
+
+    async removeItem(key: string): Promise<void> {
+        await this.write(store => store.delete(key));
+    }
+
+    async keys(prefix: string = ""): Promise<string[]> {
+        const keys = await promisify((await this.store("readonly")).getAllKeys());
+        return keys.map(key => String(key)).filter(key => key.startsWith(prefix));
+    }
+
+    async estimate(): Promise<StorageQuota | null> {
+        if (typeof navigator === "undefined" || !navigator.storage?.estimate) {
+            return null;
+        }
+        const {usage, quota} = await navigator.storage.estimate();
+        return usage !== undefined && quota !== undefined ? {usage, quota} : null;
+    }
+}
@@ -0,0 +1,41 @@
+import {StorageBackend, StorageQuota} from "./StorageBackend.ts";
+
+// 大部分浏览器中 localStorage 最多可以保存约 5M 个 UTF-16 字符
+const LOCAL_STORAGE_QUOTA = 5 * 1024 * 1024;
+
+/**
+ * 基于 localStorage 的存储后端，用于不支持 IndexedDB 的环境
+ */
+export class LocalStorageBackend implements StorageBackend {
+
+    async getItem<T = any>(key: string): Promise<T | null> {
+        const value = localStorage.getItem(key);
+        return value === null ? null : JSON.parse(value);
+    }
+
+    async setItem(key: string, value: any): Promise<void> {
+        localStorage.setItem(key, JSON.stringify(value));
+    }
+
+    async removeItem(key: string): Promise<void> {
+        localStorage.removeItem(key);
+    }
+
+    async keys(prefix: string = ""): Promise<string[]> {
+        const keys: string[] = [];
+        for (let i = 0; i < localStorage.length; i++) {
+            const key = localStorage.key(i);
+            if (key && key.startsWith(prefix)) keys.push(key);
+        }
+        return keys;
+    }
+
+    async estimate(): Promise<StorageQuota | null> {
+        let usage = 0;
+        for (let i = 0; i < localStorage.length; i++) {
+            const key = localStorage.key(i)!;
+            usage += (key.length + (localStorage.getItem(key)?.length || 0)) * 2;
+        }
+        return {usage, quota: LOCAL_STORAGE_QUOTA * 2};
+    }
+}
@@ -0,0 +1,79 @@
+import {IndexedDBStorageBackend} from "./IndexedDBStorageBackend.ts";
+import {LocalStorageBackend} from "./LocalStorageBackend.ts";
+
+export interface StorageQuota {
+    //已使用的字节数
+    usage: number,
+    //可使用的总字节数
+    quota: number,
+}
+
+/**
+ * 本地文档、内容缓存以及 AgentZero 记忆等数据的存储后端，value 为可以被 JSON 序列化的数据
+ * 可以通过 AiEditorOptions.storage 配置自定义的后端，例如保存到服务器或者 OPFS
+ */
+export interface StorageBackend {
+    getItem: <T = any>(key: string) => Promise<T | null>,
+    setItem: (key: string, value: any) => Promise<void>,
+    removeItem: (key: string) => Promise<void>,
+    //返回以 prefix 开头的全部 key
+    keys: (prefix?: string) => Promise<string[]>,
+    //获取存储空间的使用情况，无法获取时返回 null
+    estimate?: () => Promise<StorageQuota | null>,
+}
+
+let defaultStorage: StorageBackend | null = null;
+
+/**
+ * 获取默认的存储后端，浏览器支持 IndexedDB 时使用 IndexedDB，否则使用 localStorage
+ */
+export const getDefaultStorage = (): StorageBackend => {
+    if (!defaultStorage) {
+        defaultStorage = typeof indexedDB !== "undefined" ? new IndexedDBStorageBackend() : new LocalStorageBackend();
+    }
+    return defaultStorage;
+}
+
+/**
+ * 把 localStorage 中的数据迁移到 storage，迁移成功后删除 localStorage 中的数据
+ * storage 中已经存在的 key 不会被覆盖
+ * @param storage
+ * @param match 需要迁移的 key，或者判断 key 是否需要迁移的函数
+ * @return 迁移的数量
+ */
+export const migrateFromLocalStorage = async (storage: StorageBackend, match: string[] | ((key: string) => boolean)): Promise<number> => {
+    if (storage instanceof LocalStorageBackend || typeof localStorage === "undefined") {
+        return 0;
+    }
+    const keys: string[] = [];
+    for (let i = 0; i < localStorage.length; i++) {
+        const key = localStorage.key(i);
+        if (key && (Array.isArray(match) ? match.includes(key) : match(key))) {
+            keys.push(key);
+        }
+    }
+
+    let count = 0;
+    for (let key of keys) {
+        const value = localStorage.getItem(key);
+        if (value === null) continue;
+        try {
+            if (await storage.getItem(key) === null) {
+                await storage.setItem(key, parseValue(value));
+            }
+            localStorage.removeItem(key);
+            count++;
+        } catch (e) {
+            console.error(`Can not migrate "${key}" from localStorage.`, e);
+        }
+    }
+    return count;
+}
+
+const parseValue = (value: string) => {
+    try {
+        return JSON.parse(value);
+    } catch (e) {
+        return value;
+    }
+}
@@ -4,6 +4,7 @@
  */
 import * as pdfjsLib from 'pdfjs-dist';
 import { OPS } from 'pdfjs-dist';
+import { readSpreadsheet, SpreadsheetSheet } from './spreadsheet';
 
 // Worker configuration is handled by FileUploadExt
 // Do not set pdfjsLib.GlobalWorkerOptions.workerSrc here
@@ -291,53 +292,58 @@ export const extractHtmlFile = async (file: File): Promise<string> => {
     });
 };
 
+/**
+ * Format the rows of a sheet as a markdown table
+ */
+const sheetToMarkdown = (sheet: SpreadsheetSheet): string => {
+    if (sheet.rows.length === 0) {
+        return '*Empty sheet*\n';
+    }
+    const escape = (value: string) => value.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ').trim();
+    const [headers, ...rows] = sheet.rows;
+
+    let markdown = '| ' + headers.map(escape).join(' | ') + ' |\n';
+    markdown += '| ' + headers.map(() => '---').join(' | ') + ' |\n';
+
+    // Add data rows (up to 20 rows to avoid extremely large tables)
+    for (let row of rows.slice(0, 20)) {
+        markdown += '| ' + row.map(escape).join(' | ') + ' |\n';
+    }
+
+    // Add note if truncated
+    if (rows.length > 20) {
+        markdown += `\n*Table truncated. Full sheet has ${rows.length} rows.*\n`;
+    }
+    return markdown;
+};
+
 /**
  * Extract content from CSV file
  */
 export const extractCsvFile = async (file: File): Promise<string> => {
-    return new Promise((resolve, reject) => {
-        const reader = new FileReader();
-        reader.onload = () => {
-            try {
-                const csv = reader.result as string;
-                const lines = csv.split('\n');
-                
-                // Format as markdown table if possible
-                if (lines.length > 0) {
-                    const headers = lines[0].split(',').map(h => h.trim());
-                    let markdown = `# ${file.name}\n\n`;
-                    
-                    // Add table headers
-                    markdown += '| ' + headers.join(' | ') + ' |\n';
-                    // Add separator row
-                    markdown += '| ' + headers.map(() => '---').join(' | ') + ' |\n';
-                    
-                    // Add data rows (up to 20 rows to avoid extremely large tables)
-                    const maxRows = Math.min(lines.length, 21);
-                    for (let i = 1; i < maxRows; i++) {
-                        if (lines[i].trim()) {
-                            const cells = lines[i].split(',').map(c => c.trim());
-                            markdown += '| ' + cells.join(' | ') + ' |\n';
-                        }
-                    }
-                    
-                    // Add note if truncated
-                    if (lines.length > 21) {
-                        markdown += `\n*Table truncated. Full CSV has ${lines.length - 1} rows.*\n`;
-                    }
-                    
-                    resolve(markdown);
-                } else {
-                    resolve(`# ${file.name}\n\n*Empty or invalid CSV file*`);
-                }
-            } catch (error) {
-                console.error('CSV extraction error:', error);
-                resolve(`# ${file.name}\n\n*Error parsing CSV file*`);
-            }
-        };
-        reader.onerror = reject;
-        reader.readAsText(file);
-    });
+    try {
+        const [sheet] = readSpreadsheet(await file.text(), { csv: true });
+        if (!sheet || sheet.rows.length === 0) {
+            return `# ${file.name}\n\n*Empty or invalid CSV file*`;
+        }
+        return `# ${file.name}\n\n${sheetToMarkdown(sheet)}`;
+    } catch (error) {
+        console.error('CSV extraction error:', error);
+        return `# ${file.name}\n\n*Error parsing CSV file*`;
+    }
+};
+
+/**
+ * Extract content from an Excel workbook, one table per sheet
+ */
+export const extractExcelFile = async (file: File): Promise<string> => {
+    try {
+        const sheets = readSpreadsheet(await file.arrayBuffer());
+        return `# ${file.name}\n\n` + sheets.map(sheet => `## ${sheet.name}\n\n${sheetToMarkdown(sheet)}`).join('\n');
+    } catch (error) {
+        console.error('Excel extraction error:', error);
+        return `# ${file.name}\n\n*Error parsing Excel file*`;
+    }
 };
 
 /**
@@ -397,6 +403,10 @@ export const extractFileContent = async (
                 const csvContent = await extractCsvFile(file);
                 return { text: csvContent, images: [] };
                 
+            case 'excel':
+                const excelContent = await extractExcelFile(file);
+                return { text: excelContent, images: [] };
+                
             default:
                 return { 
                     text: `Unsupported file type for extraction: ${fileType}. File: ${file.name}`, 
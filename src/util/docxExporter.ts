@@ -0,0 +1,479 @@
+/**
+ * DOCX Exporter Utility
+ * Converts the editor document (ProseMirror JSON) into a Word document
+ */
+import { JSONContent } from '@tiptap/core';
+import {
+    AlignmentType,
+    BorderStyle,
+    Document,
+    ExternalHyperlink,
+    HeadingLevel,
+    ILevelsOptions,
+    ImageRun,
+    IParagraphOptions,
+    IRunOptions,
+    LevelFormat,
+    Packer,
+    PageBreak,
+    Paragraph,
+    ParagraphChild,
+    ShadingType,
+    Table,
+    TableCell,
+    TableRow,
+    TextRun,
+    WidthType,
+} from 'docx';
+import { LoadedImage, loadImage } from './imageLoader';
+
+export interface DocxExportOptions {
+    title?: string;             // Document title saved in the file properties
+    creator?: string;           // Author saved in the file properties
+}
+
+type Block = Paragraph | Table;
+
+type Mark = { type: string, attrs?: Record<string, any> };
+
+interface BlockContext {
+    level: number;              // Nesting level of the current list, -1 outside of lists
+    numbering?: { reference: string, instance: number };
+    checked?: boolean;          // Set for the first paragraph of a task item
+    quote?: boolean;
+    container?: string;         // Type of the enclosing ContainerExt callout
+}
+
+// Text width of an A4 page with the default margins, in pixels
+const MAX_IMAGE_WIDTH = 600;
+
+// The width of one indent level of IndentExt (2em of a 12pt font), in twips
+const INDENT_TWIPS = 480;
+
+const LIST_INDENT_TWIPS = 720;
+
+const HEADING_LEVELS = [
+    HeadingLevel.HEADING_1,
+    HeadingLevel.HEADING_2,
+    HeadingLevel.HEADING_3,
+    HeadingLevel.HEADING_4,
+    HeadingLevel.HEADING_5,
+    HeadingLevel.HEADING_6,
+];
+
+const ALIGNMENTS: Record<string, typeof AlignmentType[keyof typeof AlignmentType]> = {
+    left: AlignmentType.LEFT,
+    center: AlignmentType.CENTER,
+    right: AlignmentType.RIGHT,
+    justify: AlignmentType.JUSTIFIED,
+};
+
+// Background and border colors of the ContainerExt callouts
+const CONTAINER_COLORS: Record<string, { fill: string, border: string }> = {
+    info: { fill: 'E8F4FD', border: '1677FF' },
+    warning: { fill: 'FFF7E6', border: 'FA8C16' },
+    danger: { fill: 'FFF1F0', border: 'F5222D' },
+};
+
+const CODE_FONT = 'Courier New';
+const CODE_FILL = 'F5F5F5';
+
+const BULLET_REFERENCE = 'aie-bullet';
+const ORDERED_REFERENCE = 'aie-ordered';
+
+/**
+ * Convert a CSS color (#rgb, #rrggbb or rgb()) to the hex format of Word, named colors are not supported
+ */
+const toHexColor = (color?: string | null): string | undefined => {
+    if (!color) return undefined;
+    const value = color.trim();
+    const hex = value.match(/^#([0-9a-f]{3}|[0-9a-f]{6})$/i);
+    if (hex) {
+        const digits = hex[1].length === 3 ? hex[1].split('').map(c => c + c).join('') : hex[1];
+        return digits.toUpperCase();
+    }
+    const rgb = value.match(/^rgba?\(\s*(\d+)\s*,\s*(\d+)\s*,\s*(\d+)/i);
+    if (rgb) {
+        return rgb.slice(1, 4).map(c => Math.min(255, Number(c)).toString(16).padStart(2, '0')).join('').toUpperCase();
+    }
+    return undefined;
+};
+
+/**
+ * Convert a CSS font size (px, pt or em) to half-points
+ */
+const toHalfPoints = (fontSize?: string | null): number | undefined => {
+    if (!fontSize) return undefined;
+    const match = String(fontSize).trim().match(/^([\d.]+)\s*(px|pt|em|rem)?$/i);
+    if (!match) return undefined;
+    const value = parseFloat(match[1]);
+    const unit = (match[2] || 'px').toLowerCase();
+    const points = unit === 'pt' ? value : unit === 'px' ? value * 0.75 : value * 12;
+    return Math.round(points * 2);
+};
+
+/**
+ * Convert a line height of LineHeightExt ("1.5" or "150%") to the line spacing of Word, in 240ths of a line
+ */
+const toLineSpacing = (lineHeight?: string | number | null): number | undefined => {
+    if (lineHeight === null || lineHeight === undefined || lineHeight === '') return undefined;
+    const value = parseFloat(String(lineHeight));
+    if (isNaN(value) || value <= 0) return undefined;
+    return Math.round((String(lineHeight).trim().endsWith('%') ? value / 100 : value) * 240);
+};
+
+/**
+ * Walks the document and creates the docx paragraphs and tables
+ */
+class DocxConverter {
+    private images = new Map<string, Promise<LoadedImage | null>>();
+    private listInstance = 0;
+    private orderedStarts = new Set<number>();
+
+    async convert(doc: JSONContent, options: DocxExportOptions): Promise<Blob> {
+        const children = await this.blocks(doc.content || [], { level: -1 });
+        const document = new Document({
+            title: options.title,
+            creator: options.creator,
+            numbering: {
+                config: [
+                    { reference: BULLET_REFERENCE, levels: this.listLevels(null) },
+                    ...[...this.orderedStarts].map(start => ({
+                        reference: `${ORDERED_REFERENCE}-${start}`,
+                        levels: this.listLevels(start),
+                    })),
+                ],
+            },
+            sections: [{ children: children.length ? children : [new Paragraph({})] }],
+        });
+        return Packer.toBlob(document);
+    }
+
+    /**
+     * Bullets or numbers of the 9 list levels of Word, start is null for bullet lists
+     */
+    private listLevels(start: number | null): ILevelsOptions[] {
+        const bullets = ['•', '◦', '▪'];
+        const formats = [LevelFormat.DECIMAL, LevelFormat.LOWER_LETTER, LevelFormat.LOWER_ROMAN];
+        return Array.from({ length: 9 }, (_, level) => ({
+            level,
+            format: start === null ? LevelFormat.BULLET : formats[level % 3],
+            text: start === null ? bullets[level % 3] : `%${level + 1}.`,
+            start: start === null || level > 0 ? 1 : start,
+            alignment: AlignmentType.LEFT,
+            style: { paragraph: { indent: { left: LIST_INDENT_TWIPS * (level + 1), hanging: 360 } } },
+        }));
+    }
+
+    private async blocks(nodes: JSONContent[], context: BlockContext): Promise<Block[]> {
+        const result: Block[] = [];
+        for (let node of nodes) {
+            result.push(...await this.block(node, context));
+            // Only the first paragraph of a list item shows the bullet or the checkbox
+            if (result.length > 0) context = { ...context, numbering: undefined, checked: undefined };
+        }
+        return result;
+    }
+
+    private async block(node: JSONContent, context: BlockContext): Promise<Block[]> {
+        const attrs = node.attrs || {};
+        switch (node.type) {
+            case 'paragraph':
+                return [await this.paragraph(node, context)];
+
+            case 'heading':
+                return [await this.paragraph(node, context, {
+                    heading: HEADING_LEVELS[Math.min(Math.max((attrs.level || 1) - 1, 0), 5)],
+                })];
+
+            case 'blockquote':
+                return this.blocks(node.content || [], { ...context, quote: true });
+
+            case 'container':
+                return this.blocks(node.content || [], { ...context, container: attrs.containerClass || 'warning' });
+
+            case 'bulletList':
+            case 'orderedList':
+            case 'taskList':
+                return this.list(node, context);
+
+            case 'codeBlock':
+                return [this.codeBlock(node, context)];
+
+            case 'horizontalRule':
+                return [new Paragraph({
+                    border: { bottom: { style: BorderStyle.SINGLE, size: 6, color: 'BFBFBF', space: 1 } },
+                })];
+
+            case 'pageBreak':
+                return [new Paragraph({ children: [new PageBreak()] })];
+
+            case 'table':
+                return [await this.table(node)];
+
+            case 'image': {
+                const alignment = ALIGNMENTS[attrs.align] || AlignmentType.LEFT;
+                return [new Paragraph({ ...this.paragraphOptions(node, context), alignment, children: [await this.image(node)] })];
+            }
+
+            case 'figure':
+                return this.blocks(node.content || [], context);
+
+            case 'figcaption':
+                return [await this.paragraph(node, context, { alignment: AlignmentType.CENTER }, { italics: true, color: '666666' })];
+
+            case 'video':
+            case 'iframe':
+                return attrs.src ? [new Paragraph({
+                    ...this.paragraphOptions(node, context),
+                    children: [this.link(attrs.src, [new TextRun({ text: attrs.src })])],
+                })] : [];
+
+            default:
+                // Unknown blocks keep their text and their child blocks
+                if (node.content?.some(child => child.type === 'text')) {
+                    return [await this.paragraph(node, context)];
+                }
+                return this.blocks(node.content || [], context);
+        }
+    }
+
+    private async list(node: JSONContent, context: BlockContext): Promise<Block[]> {
+        const level = Math.min(context.level + 1, 8);
+        let numbering: BlockContext['numbering'];
+        if (node.type === 'bulletList') {
+            numbering = { reference: BULLET_REFERENCE, instance: 0 };
+        } else if (node.type === 'orderedList') {
+            // Each ordered list is a new numbering instance, so that it starts again from its start number
+            const start = Number(node.attrs?.start) || 1;
+            this.orderedStarts.add(start);
+            numbering = { reference: `${ORDERED_REFERENCE}-${start}`, instance: ++this.listInstance };
+        }
+
+        const result: Block[] = [];
+        for (let item of node.content || []) {
+            result.push(...await this.blocks(item.content || [], {
+                ...context,
+                level,
+                numbering,
+                checked: node.type === 'taskList' ? !!item.attrs?.checked : undefined,
+            }));
+        }
+        return result;
+    }
+
+    private codeBlock(node: JSONContent, context: BlockContext): Paragraph {
+        const lines = (node.content || []).map(child => child.text || '').join('').split('\n');
+        return new Paragraph({
+            ...this.paragraphOptions(node, context),
+            shading: { type: ShadingType.CLEAR, color: 'auto', fill: CODE_FILL },
+            border: {
+                top: { style: BorderStyle.SINGLE, size: 4, color: 'D9D9D9', space: 4 },
+                bottom: { style: BorderStyle.SINGLE, size: 4, color: 'D9D9D9', space: 4 },
+                left: { style: BorderStyle.SINGLE, size: 4, color: 'D9D9D9', space: 4 },
+                right: { style: BorderStyle.SINGLE, size: 4, color: 'D9D9D9', space: 4 },
+            },
+            children: lines.map((line, index) => new TextRun({
+                text: line,
+                font: CODE_FONT,
+                size: 20,
+                break: index > 0 ? 1 : undefined,
+            })),
+        });
+    }
+
+    private async table(node: JSONContent): Promise<Table> {
+        const rows = await Promise.all((node.content || []).map(async row => new TableRow({
+            children: await Promise.all((row.content || []).map(async cell => {
+                const attrs = cell.attrs || {};
+                const children = await this.blocks(cell.content || [], { level: -1 });
+                return new TableCell({
+                    columnSpan: attrs.colspan > 1 ? attrs.colspan : undefined,
+                    rowSpan: attrs.rowspan > 1 ? attrs.rowspan : undefined,
+                    shading: cell.type === 'tableHeader' ? { type: ShadingType.CLEAR, color: 'auto', fill: 'F2F2F2' } : undefined,
+                    children: children.length ? children : [new Paragraph({})],
+                });
+            })),
+            tableHeader: (row.content || []).every(cell => cell.type === 'tableHeader') || undefined,
+        })));
+        return new Table({ rows, width: { size: 100, type: WidthType.PERCENTAGE } });
+    }
+
+    private async paragraph(node: JSONContent, context: BlockContext, options: IParagraphOptions = {}, runOptions: IRunOptions = {}): Promise<Paragraph> {
+        const children: ParagraphChild[] = [];
+        if (context.checked !== undefined) {
+            children.push(new TextRun({ text: context.checked ? '☑ ' : '☐ ' }));
+        }
+        children.push(...await this.inlines(node.content || [], runOptions));
+        return new Paragraph({ ...this.paragraphOptions(node, context), ...options, children });
+    }
+
+    /**
+     * Alignment, line height, indent, list numbering, quote and callout styles of a block
+     */
+    private paragraphOptions(node: JSONContent, context: BlockContext): IParagraphOptions {
+        const attrs = node.attrs || {};
+        const options: Record<string, any> = {};
+
+        if (ALIGNMENTS[attrs.textAlign]) options.alignment = ALIGNMENTS[attrs.textAlign];
+
+        const line = toLineSpacing(attrs.lineHeight);
+        if (line) options.spacing = { line };
+
+        // Paragraphs of a list item which do not show the bullet are aligned with its text
+        let left = 0;
+        if (context.level >= 0) {
+            if (context.numbering && context.checked === undefined) {
+                options.numbering = { ...context.numbering, level: context.level };
+            } else {
+                left = LIST_INDENT_TWIPS * (context.level + 1);
+            }
+        }
+        if (context.quote) left += LIST_INDENT_TWIPS;
+        const firstLine = attrs.indent > 0 ? attrs.indent * INDENT_TWIPS : 0;
+        if (left || firstLine) options.indent = { left: left || undefined, firstLine: firstLine || undefined };
+
+        if (context.container) {
+            const colors = CONTAINER_COLORS[context.container] || CONTAINER_COLORS.warning;
+            options.shading = { type: ShadingType.CLEAR, color: 'auto', fill: colors.fill };
+            options.border = { left: { style: BorderStyle.SINGLE, size: 24, color: colors.border, space: 8 } };
+        } else if (context.quote) {
+            options.border = { left: { style: BorderStyle.SINGLE, size: 18, color: 'D9D9D9', space: 8 } };
+        }
+        return options;
+    }
+
+    private async inlines(nodes: JSONContent[], runOptions: IRunOptions): Promise<ParagraphChild[]> {
+        const result: ParagraphChild[] = [];
+        for (let node of nodes) {
+            const marks: Mark[] = node.marks || [];
+            let child: ParagraphChild;
+            if (node.type === 'text') {
+                child = new TextRun({ ...runOptions, ...this.runOptions(marks), text: node.text || '' });
+            } else if (node.type === 'hardBreak') {
+                child = new TextRun({ break: 1 });
+            } else if (node.type === 'image') {
+                child = await this.image(node);
+            } else if (node.content) {
+                result.push(...await this.inlines(node.content, runOptions));
+                continue;
+            } else {
+                continue;
+            }
+
+            const link = marks.find(mark => mark.type === 'link');
+            result.push(link?.attrs?.href ? this.link(link.attrs.href, [child]) : child);
+        }
+        return result;
+    }
+
+    /**
+     * Text formatting of the marks: bold, italic, underline, strike, sub/sup, code, textStyle and highlight
+     */
+    private runOptions(marks: Mark[]): Record<string, any> {
+        const options: Record<string, any> = {};
+        for (let mark of marks) {
+            const attrs = mark.attrs || {};
+            switch (mark.type) {
+                case 'bold':
+                    options.bold = true;
+                    break;
+                case 'italic':
+                    options.italics = true;
+                    break;
+                case 'underline':
+                    options.underline = {};
+                    break;
+                case 'strike':
+                    options.strike = true;
+                    break;
+                case 'subscript':
+                    options.subScript = true;
+                    break;
+                case 'superscript':
+                    options.superScript = true;
+                    break;
+                case 'code':
+                    options.font = CODE_FONT;
+                    options.shading = { type: ShadingType.CLEAR, color: 'auto', fill: CODE_FILL };
+                    break;
+                case 'textStyle': {
+                    const color = toHexColor(attrs.color);
+                    const size = toHalfPoints(attrs.fontSize);
+                    if (color) options.color = color;
+                    if (size) options.size = size;
+                    if (attrs.fontFamily) options.font = String(attrs.fontFamily).split(',')[0].replace(/['"]/g, '').trim();
+                    break;
+                }
+                case 'highlight':
+                    options.shading = { type: ShadingType.CLEAR, color: 'auto', fill: toHexColor(attrs.color) || 'FFFF00' };
+                    break;
+                case 'link':
+                    options.color = options.color || '0563C1';
+                    options.underline = options.underline || {};
+                    break;
+                // Suggestions are kept like tracked changes look in Word
+                case 'insertion':
+                    options.underline = { color: '1677FF' };
+                    options.color = '1677FF';
+                    break;
+                case 'deletion':
+                    options.strike = true;
+                    options.color = 'F5222D';
+                    break;
+            }
+        }
+        return options;
+    }
+
+    private link(href: string, children: ParagraphChild[]): ExternalHyperlink {
+        return new ExternalHyperlink({ link: href, children });
+    }
+
+    /**
+     * Embed an image with the size it has in the editor, images which can not be loaded are exported as a link
+     */
+    private async image(node: JSONContent): Promise<ParagraphChild> {
+        const attrs = node.attrs || {};
+        const src: string = attrs.src || '';
+        if (!this.images.has(src)) {
+            this.images.set(src, src ? loadImage(src).catch(() => null) : Promise.resolve(null));
+        }
+        const image = await this.images.get(src)!;
+        if (!image) {
+            const text = attrs.alt || attrs.title || src;
+            return /^https?:/.test(src) ? this.link(src, [new TextRun({ text })]) : new TextRun({ text });
+        }
+
+        let width = image.width;
+        const attrWidth = String(attrs.width ?? '').trim();
+        if (attrWidth.endsWith('%')) {
+            width = MAX_IMAGE_WIDTH * parseFloat(attrWidth) / 100;
+        } else if (parseFloat(attrWidth) > 0) {
+            width = parseFloat(attrWidth);
+        }
+        const cappedWidth = Math.min(width, MAX_IMAGE_WIDTH);
+
+        // an explicit height is scaled by the same factor as the width, so capped images keep their aspect ratio
+        const attrHeight = parseFloat(String(attrs.height ?? ''));
+        const height = attrHeight > 0 && !String(attrs.height).endsWith('%')
+            ? (width > 0 ? attrHeight * cappedWidth / width : attrHeight)
+            : cappedWidth * image.height / image.width;
+
+        return new ImageRun({
+            type: image.type,
+            data: image.data,
+            transformation: { width: Math.round(cappedWidth), height: Math.round(height) },
+            altText: attrs.alt ? { name: attrs.alt, description: attrs.alt, title: attrs.title || attrs.alt } : undefined,
+        });
+    }
+}
+
+/**
+ * Export the editor document to a .docx file
+ * @param doc The document JSON, e.g. the result of aiEditor.getJson()
+ * @param options
+ */
+export const exportToDocx = (doc: JSONContent, options: DocxExportOptions = {}): Promise<Blob> => {
+    return new DocxConverter().convert(doc, options);
+};
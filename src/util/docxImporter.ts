@@ -0,0 +1,434 @@
+/**
+ * DOCX Importer Utility
+ * Converts a Word document into HTML that keeps the structure and the direct formatting the editor supports
+ */
+import JSZip from 'jszip';
+import mammoth from 'mammoth';
+
+export interface DocxImportMessage {
+    type: 'warning' | 'error';
+    message: string;
+}
+
+export interface DocxImportResult {
+    html: string;
+    messages: DocxImportMessage[];  // Everything that could not be mapped to the editor
+}
+
+export interface DocxImportOptions {
+    styleMap?: string[];            // Extra mammoth style mappings, checked before the default ones
+    uploadImage?: (dataUrl: string) => Promise<string>; // Upload the embedded images instead of keeping them as data URLs
+}
+
+interface ParagraphFormat {
+    textAlign?: string;
+    lineHeight?: string;
+    indent?: number;
+}
+
+interface RunFormat {
+    fontSize?: string;
+    color?: string;
+    fontFamily?: string;
+    highlight?: string;
+}
+
+interface DocxRun {
+    from: number;
+    to: number;
+    format: RunFormat;
+}
+
+interface DocxParagraph {
+    text: string;
+    format: ParagraphFormat;
+    runs: DocxRun[];
+}
+
+// Maps the named styles of Word onto the nodes of the editor, mammoth maps the headings and lists by default
+const DEFAULT_STYLE_MAP = [
+    "p[style-name='Title'] => h1:fresh",
+    "p[style-name='Subtitle'] => h2:fresh",
+    "p[style-name='Caption'] => figcaption:fresh",
+    "p.Caption => figcaption:fresh",
+    "p[style-name='Quote'] => blockquote > p:fresh",
+    "p[style-name='Intense Quote'] => blockquote > p:fresh",
+    "p[style-name='Code'] => pre:separator('\\n')",
+    "p[style-name='HTML Preformatted'] => pre:separator('\\n')",
+    "r[style-name='HTML Code'] => code",
+    "r[style-name='Emphasis'] => em",
+    "u => u",
+    "comment-reference => !",
+];
+
+const ALIGNMENTS: Record<string, string> = {
+    center: 'center',
+    right: 'right',
+    end: 'right',
+    both: 'justify',
+    distribute: 'justify',
+};
+
+const HIGHLIGHT_COLORS: Record<string, string> = {
+    yellow: '#ffff00',
+    green: '#00ff00',
+    cyan: '#00ffff',
+    magenta: '#ff00ff',
+    blue: '#0000ff',
+    red: '#ff0000',
+    darkBlue: '#000080',
+    darkCyan: '#008080',
+    darkGreen: '#008000',
+    darkMagenta: '#800080',
+    darkRed: '#800000',
+    darkYellow: '#808000',
+    darkGray: '#808080',
+    lightGray: '#c0c0c0',
+    black: '#000000',
+    white: '#ffffff',
+};
+
+// One indent level of IndentExt is 2em, about 24pt in Word
+const INDENT_TWIPS = 480;
+
+// How many Word paragraphs are looked ahead to find the one an HTML block came from
+const MATCH_WINDOW = 20;
+
+const BLOCK_SELECTOR = 'p, h1, h2, h3, h4, h5, h6, li, figcaption';
+const NESTED_BLOCK_TAGS = ['UL', 'OL', 'P', 'TABLE', 'BLOCKQUOTE', 'PRE', 'DIV', 'FIGURE'];
+const NOTE_REFERENCE_SELECTOR = 'a[id^="footnote-ref-"], a[id^="endnote-ref-"]';
+
+const normalizeText = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+/**
+ * Direct children of an XML element with the given tag name, e.g. w:pPr of a w:p
+ */
+const child = (element: Element | null | undefined, tagName: string): Element | null => {
+    return childElements(element).find(childElement => childElement.tagName === tagName) || null;
+};
+
+const childElements = (element: Element | null | undefined): Element[] => {
+    if (!element) return [];
+    return Array.from(element.childNodes).filter(node => node.nodeType === Node.ELEMENT_NODE) as Element[];
+};
+
+/**
+ * The closest ancestor of an XML element with the given tag name, the prefixed names can not be used as CSS selectors
+ */
+const ancestor = (element: Element, tagName: string): Element | null => {
+    let parent = element.parentNode as Element | null;
+    while (parent && parent.tagName !== tagName) parent = parent.parentNode as Element | null;
+    return parent;
+};
+
+const attribute = (element: Element | null | undefined, name: string): string | null => element?.getAttribute(name) ?? null;
+
+/**
+ * Read the text of the runs the way mammoth does: tabs become "\t", deleted text and field codes are skipped
+ */
+const readRunText = (run: Element): string => {
+    let text = '';
+    for (let element of childElements(run)) {
+        if (element.tagName === 'w:t') text += element.textContent || '';
+        else if (element.tagName === 'w:tab') text += '\t';
+    }
+    return text;
+};
+
+const readRunFormat = (run: Element, defaults: RunFormat): RunFormat => {
+    const properties = child(run, 'w:rPr');
+    const format: RunFormat = {};
+    if (!properties) return format;
+
+    const size = Number(attribute(child(properties, 'w:sz'), 'w:val'));
+    if (size > 0) {
+        const fontSize = `${Math.round(size / 2 * 4 / 3)}px`;
+        if (fontSize !== defaults.fontSize) format.fontSize = fontSize;
+    }
+
+    const color = attribute(child(properties, 'w:color'), 'w:val');
+    if (color && /^[0-9a-f]{6}$/i.test(color) && color !== '000000') format.color = `#${color.toLowerCase()}`;
+
+    const font = child(properties, 'w:rFonts');
+    const fontFamily = attribute(font, 'w:ascii') || attribute(font, 'w:hAnsi') || attribute(font, 'w:eastAsia');
+    if (fontFamily && fontFamily !== defaults.fontFamily) format.fontFamily = fontFamily;
+
+    const highlight = attribute(child(properties, 'w:highlight'), 'w:val');
+    const shading = attribute(child(properties, 'w:shd'), 'w:fill');
+    if (highlight && HIGHLIGHT_COLORS[highlight]) {
+        format.highlight = HIGHLIGHT_COLORS[highlight];
+    } else if (shading && /^[0-9a-f]{6}$/i.test(shading) && shading.toUpperCase() !== 'FFFFFF') {
+        format.highlight = `#${shading.toLowerCase()}`;
+    }
+    return format;
+};
+
+const readParagraphFormat = (paragraph: Element): ParagraphFormat => {
+    const properties = child(paragraph, 'w:pPr');
+    const format: ParagraphFormat = {};
+    if (!properties) return format;
+
+    const alignment = ALIGNMENTS[attribute(child(properties, 'w:jc'), 'w:val') || ''];
+    if (alignment) format.textAlign = alignment;
+
+    const spacing = child(properties, 'w:spacing');
+    const line = Number(attribute(spacing, 'w:line'));
+    const lineRule = attribute(spacing, 'w:lineRule');
+    // Exact and minimum line heights are in twips and have no equivalent in the editor
+    if (line > 0 && (!lineRule || lineRule === 'auto') && line !== 240) {
+        format.lineHeight = String(Math.round(line / 240 * 100) / 100);
+    }
+
+    // List items are indented by their level, other paragraphs by the first line or the left indent
+    const indent = child(properties, 'w:ind');
+    if (indent && !child(properties, 'w:numPr')) {
+        const twips = Number(attribute(indent, 'w:firstLine')) || Number(attribute(indent, 'w:left')) || Number(attribute(indent, 'w:start'));
+        const level = Math.min(8, Math.round(twips / INDENT_TWIPS));
+        if (level > 0) format.indent = level;
+    }
+    return format;
+};
+
+/**
+ * Read the paragraphs of word/document.xml in document order with their direct formatting.
+ * mammoth drops alignment, line height, indent, font size, color, font family and highlight colors,
+ * so they are read from the XML and applied to the HTML afterwards.
+ */
+const readDocxParagraphs = async (arrayBuffer: ArrayBuffer): Promise<DocxParagraph[]> => {
+    const zip = await JSZip.loadAsync(arrayBuffer);
+    const documentXml = await zip.file('word/document.xml')?.async('string');
+    if (!documentXml) return [];
+    const stylesXml = await zip.file('word/styles.xml')?.async('string');
+
+    const parser = new DOMParser();
+    const document = parser.parseFromString(documentXml, 'application/xml');
+
+    // Runs with the default size or font of the document are not marked
+    const defaults: RunFormat = {};
+    if (stylesXml) {
+        const styles = parser.parseFromString(stylesXml, 'application/xml');
+        const runDefaults = styles.getElementsByTagName('w:rPrDefault')[0];
+        const properties = runDefaults?.getElementsByTagName('w:rPr')[0];
+        const size = Number(attribute(properties?.getElementsByTagName('w:sz')[0], 'w:val'));
+        if (size > 0) defaults.fontSize = `${Math.round(size / 2 * 4 / 3)}px`;
+        defaults.fontFamily = attribute(properties?.getElementsByTagName('w:rFonts')[0], 'w:ascii') || undefined;
+    }
+
+    const paragraphs: DocxParagraph[] = [];
+    const elements = document.getElementsByTagName('w:p');
+    for (let i = 0; i < elements.length; i++) {
+        const paragraph = elements[i];
+        let text = '';
+        const runs: DocxRun[] = [];
+        const runElements = paragraph.getElementsByTagName('w:r');
+        for (let j = 0; j < runElements.length; j++) {
+            const run = runElements[j];
+            // Skip the runs of nested paragraphs (text boxes) and deleted text
+            if (ancestor(run, 'w:p') !== paragraph || ancestor(run, 'w:del')) continue;
+            const runText = readRunText(run);
+            if (!runText) continue;
+            runs.push({ from: text.length, to: text.length + runText.length, format: readRunFormat(run, defaults) });
+            text += runText;
+        }
+        paragraphs.push({ text, format: readParagraphFormat(paragraph), runs });
+    }
+    return paragraphs;
+};
+
+/**
+ * The text nodes of a block, without its nested blocks and the note references mammoth adds
+ */
+const collectTextNodes = (block: Element): Text[] => {
+    const nodes: Text[] = [];
+    const walk = (node: Node) => {
+        node.childNodes.forEach(childNode => {
+            if (childNode.nodeType === Node.TEXT_NODE) {
+                nodes.push(childNode as Text);
+            } else if (childNode.nodeType === Node.ELEMENT_NODE) {
+                const element = childNode as Element;
+                if (NESTED_BLOCK_TAGS.includes(element.tagName) || element.matches(NOTE_REFERENCE_SELECTOR)) return;
+                walk(element);
+            }
+        });
+    };
+    walk(block);
+    return nodes;
+};
+
+const isSameFormat = (a: RunFormat, b: RunFormat) =>
+    a.fontSize === b.fontSize && a.color === b.color && a.fontFamily === b.fontFamily && a.highlight === b.highlight;
+
+/**
+ * Wrap the text between from and to (offsets in the text of the block) with the run formatting
+ */
+const applyRunFormat = (block: Element, from: number, to: number, format: RunFormat) => {
+    const document = block.ownerDocument;
+    let offset = 0;
+    for (let node of collectTextNodes(block)) {
+        const start = offset;
+        const end = start + node.data.length;
+        offset = end;
+        if (end <= from || start >= to) continue;
+
+        let target = node;
+        if (to < end) target.splitText(to - start);
+        if (from > start) target = target.splitText(from - start);
+
+        let wrapped: Node = target;
+        if (format.fontSize || format.color || format.fontFamily) {
+            const span = document.createElement('span');
+            if (format.fontSize) span.style.fontSize = format.fontSize;
+            if (format.color) span.style.color = format.color;
+            if (format.fontFamily) span.style.fontFamily = format.fontFamily;
+            target.parentNode!.insertBefore(span, target);
+            span.appendChild(target);
+            wrapped = span;
+        }
+        if (format.highlight) {
+            const mark = document.createElement('mark');
+            mark.setAttribute('data-color', format.highlight);
+            mark.style.backgroundColor = format.highlight;
+            wrapped.parentNode!.insertBefore(mark, wrapped);
+            mark.appendChild(wrapped);
+        }
+    }
+};
+
+const applyParagraphFormat = (block: Element, format: ParagraphFormat) => {
+    let target = block as HTMLElement;
+    if (block.tagName === 'LI') {
+        // The editor keeps the alignment on the paragraph of a list item
+        const paragraph = block.ownerDocument.createElement('p');
+        while (block.firstChild && !(block.firstChild.nodeType === Node.ELEMENT_NODE && NESTED_BLOCK_TAGS.includes((block.firstChild as Element).tagName))) {
+            paragraph.appendChild(block.firstChild);
+        }
+        block.insertBefore(paragraph, block.firstChild);
+        target = paragraph;
+    }
+    if (format.textAlign) target.style.textAlign = format.textAlign;
+    if (format.lineHeight) target.style.lineHeight = format.lineHeight;
+    if (format.indent) target.setAttribute('data-indent', String(format.indent));
+};
+
+/**
+ * Match the HTML blocks of mammoth with the Word paragraphs by their text and copy the direct formatting.
+ * Returns how many blocks could not be matched.
+ */
+const applyDirectFormatting = (body: HTMLElement, paragraphs: DocxParagraph[]): number => {
+    let unmatched = 0;
+    let next = 0;
+    body.querySelectorAll(BLOCK_SELECTOR).forEach(block => {
+        const text = collectTextNodes(block).map(node => node.data).join('');
+        const normalized = normalizeText(text);
+        if (!normalized) return;
+
+        let index = -1;
+        for (let i = next; i < Math.min(paragraphs.length, next + MATCH_WINDOW); i++) {
+            if (normalizeText(paragraphs[i].text) === normalized) {
+                index = i;
+                break;
+            }
+        }
+        if (index < 0) {
+            // Footnotes are not in document.xml, they do not count as lost formatting
+            if (!block.closest('li[id^="footnote-"], li[id^="endnote-"]')) unmatched++;
+            return;
+        }
+        next = index + 1;
+
+        const paragraph = paragraphs[index];
+        // Runs can only be mapped by offset when the text is exactly the same
+        if (paragraph.text === text) {
+            const runs: DocxRun[] = [];
+            for (let run of paragraph.runs) {
+                const last = runs[runs.length - 1];
+                if (last && last.to === run.from && isSameFormat(last.format, run.format)) {
+                    last.to = run.to;
+                } else {
+                    runs.push({ ...run });
+                }
+            }
+            runs.filter(run => Object.keys(run.format).length > 0)
+                .forEach(run => applyRunFormat(block, run.from, run.to, run.format));
+        }
+        applyParagraphFormat(block, paragraph.format);
+    });
+    return unmatched;
+};
+
+const isImageParagraph = (element: Element | null): element is HTMLElement =>
+    !!element && element.tagName === 'P' && !!element.querySelector('img') && !normalizeText(element.textContent || '');
+
+/**
+ * Put the captions together with the image before or after them into a figure,
+ * captions without an image become normal paragraphs
+ */
+const createFigures = (body: HTMLElement) => {
+    body.querySelectorAll('figcaption').forEach(caption => {
+        const document = caption.ownerDocument;
+        const previous = caption.previousElementSibling;
+        const next = caption.nextElementSibling;
+        const image = isImageParagraph(previous) ? previous : isImageParagraph(next) ? next : null;
+        if (!image) {
+            const paragraph = document.createElement('p');
+            paragraph.innerHTML = caption.innerHTML;
+            const style = caption.getAttribute('style');
+            if (style) paragraph.setAttribute('style', style);
+            caption.replaceWith(paragraph);
+            return;
+        }
+        const figure = document.createElement('figure');
+        caption.parentNode!.insertBefore(figure, image === previous ? image : caption);
+        const img = image.querySelector('img')!;
+        figure.appendChild(image === previous ? img : caption);
+        figure.appendChild(image === previous ? caption : img);
+        image.remove();
+    });
+};
+
+/**
+ * mammoth links the note references and the notes to each other by id, the editor does not keep the ids,
+ * so the references become plain superscript numbers and the notes a list below a separator
+ */
+const simplifyNotes = (body: HTMLElement) => {
+    body.querySelectorAll(NOTE_REFERENCE_SELECTOR).forEach(link => link.replaceWith(link.textContent || ''));
+    body.querySelectorAll('a[href^="#footnote-ref-"], a[href^="#endnote-ref-"]').forEach(link => link.remove());
+    const lists = new Set<Element>();
+    body.querySelectorAll('li[id^="footnote-"], li[id^="endnote-"]').forEach(item => item.parentElement && lists.add(item.parentElement));
+    lists.forEach(list => list.parentNode!.insertBefore(list.ownerDocument.createElement('hr'), list));
+};
+
+/**
+ * Import a .docx file as HTML for the editor.
+ * Headings, lists, tables with merged cells, images, captions, quotes, code, links and footnotes come from
+ * mammoth's style map, alignment, line height, indent, font size, color, font family and highlight colors
+ * from the direct formatting of the paragraphs and runs.
+ * @param arrayBuffer The content of the .docx file
+ * @param options
+ */
+export const importDocx = async (arrayBuffer: ArrayBuffer, options: DocxImportOptions = {}): Promise<DocxImportResult> => {
+    const convertImage = mammoth.images.imgElement(async image => {
+        const dataUrl = `data:${image.contentType};base64,${await image.read('base64')}`;
+        return { src: options.uploadImage ? await options.uploadImage(dataUrl) : dataUrl };
+    });
+
+    const [result, paragraphs] = await Promise.all([
+        mammoth.convertToHtml({ arrayBuffer }, {
+            styleMap: [...(options.styleMap || []), ...DEFAULT_STYLE_MAP],
+            convertImage,
+        }),
+        readDocxParagraphs(arrayBuffer),
+    ]);
+
+    const messages: DocxImportMessage[] = result.messages.map(message => ({ type: message.type, message: message.message }));
+
+    const body = new DOMParser().parseFromString(result.value, 'text/html').body;
+    const unmatched = applyDirectFormatting(body, paragraphs);
+    if (unmatched > 0) {
+        messages.push({ type: 'warning', message: `The formatting of ${unmatched} paragraphs could not be matched and was not imported` });
+    }
+    createFigures(body);
+    simplifyNotes(body);
+
+    return { html: body.innerHTML, messages };
+};
@@ -0,0 +1,325 @@
+/**
+ * EPUB Exporter Utility
+ * Splits the editor HTML into chapters and packages them with their images as an EPUB 3 book
+ */
+import JSZip from 'jszip';
+import { LoadedImage, loadImage } from './imageLoader';
+import { uuid } from './uuid';
+
+export interface EpubOutlineItem {
+    id?: string;                // The id attribute of the heading, as returned by aiEditor.getOutline()
+    text: string;
+    level: number;
+}
+
+export interface EpubExportOptions {
+    title?: string;             // Book title, defaults to the first heading
+    author?: string;
+    lang?: string;              // Language of the content, e.g. "en" or "zh", defaults to "en"
+    identifier?: string;        // Unique identifier of the book, a random urn:uuid by default
+    chapterLevel?: number;      // Headings of this level and above start a new chapter, defaults to 1
+    outline?: EpubOutlineItem[]; // Headings listed in the table of contents, defaults to all headings
+    tocTitle?: string;          // Title of the table of contents, defaults to "Contents"
+    css?: string;               // Stylesheet appended to the default one
+    modified?: Date;            // Last modification date saved in the metadata, defaults to now
+}
+
+interface Chapter {
+    file: string;
+    title: string;
+    body: HTMLElement;
+}
+
+interface TocEntry {
+    text: string;
+    href: string;
+    children: TocEntry[];
+}
+
+const IMAGE_MEDIA_TYPES: Record<string, string> = {
+    png: 'image/png',
+    jpg: 'image/jpeg',
+    gif: 'image/gif',
+};
+
+const VOID_ELEMENTS = new Set(['area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr']);
+
+const CONTAINER_XML = `<?xml version="1.0" encoding="UTF-8"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+  <rootfiles>
+    <rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/>
+  </rootfiles>
+</container>`;
+
+const DEFAULT_CSS = `body { line-height: 1.6; }
+h1, h2, h3, h4, h5, h6 { line-height: 1.3; page-break-after: avoid; }
+img { max-width: 100%; height: auto; }
+table { border-collapse: collapse; margin: 1em 0; }
+th, td { border: 1px solid #999; padding: 0.25em 0.5em; vertical-align: top; }
+th { background: #f2f2f2; }
+blockquote { margin: 1em 0; padding-left: 1em; border-left: 3px solid #ccc; color: #555; }
+pre { white-space: pre-wrap; font-family: monospace; background: #f5f5f5; padding: 0.5em; }
+code { font-family: monospace; }
+nav ol { list-style: none; }
+`;
+
+const escapeXml = (text: string): string => {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+};
+
+/**
+ * Serialize HTML nodes as XHTML: void elements are self-closed and all text is escaped
+ */
+const serializeXhtml = (node: Node): string => {
+    if (node.nodeType === 3) {
+        return escapeXml(node.textContent || '');
+    }
+    if (node.nodeType !== 1) {
+        return '';
+    }
+    const element = node as Element;
+    const tag = element.tagName.toLowerCase();
+    const attributes = Array.from(element.attributes)
+        .filter(attribute => /^[a-z_][\w.-]*$/i.test(attribute.name))
+        .map(attribute => ` ${attribute.name.toLowerCase()}="${escapeXml(attribute.value)}"`)
+        .join('');
+    if (VOID_ELEMENTS.has(tag)) {
+        return `<${tag}${attributes}/>`;
+    }
+    return `<${tag}${attributes}>${Array.from(element.childNodes).map(serializeXhtml).join('')}</${tag}>`;
+};
+
+const xhtmlDocument = (title: string, lang: string, body: string): string => {
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" lang="${escapeXml(lang)}" xml:lang="${escapeXml(lang)}">
+<head>
+  <title>${escapeXml(title)}</title>
+  <link rel="stylesheet" type="text/css" href="style.css"/>
+</head>
+<body>
+${body}
+</body>
+</html>`;
+};
+
+const headingLevel = (node: Node): number => {
+    const match = node.nodeType === 1 && /^H([1-6])$/i.exec((node as Element).tagName);
+    return match ? Number(match[1]) : 0;
+};
+
+/**
+ * Nest the flat list of headings by level, a heading may skip levels
+ */
+const nestToc = (items: { text: string, href: string, level: number }[]): TocEntry[] => {
+    const root: TocEntry[] = [];
+    const stack: { level: number, children: TocEntry[] }[] = [{ level: 0, children: root }];
+    for (let item of items) {
+        while (stack.length > 1 && stack[stack.length - 1].level >= item.level) stack.pop();
+        const entry = { text: item.text, href: item.href, children: [] };
+        stack[stack.length - 1].children.push(entry);
+        stack.push({ level: item.level, children: entry.children });
+    }
+    return root;
+};
+
+const navList = (entries: TocEntry[], indent: string): string => {
+    const items = entries.map(entry => {
+        const children = entry.children.length ? `\n${navList(entry.children, indent + '    ')}\n${indent}  ` : '';
+        return `${indent}  <li><a href="${escapeXml(entry.href)}">${escapeXml(entry.text)}</a>${children}</li>`;
+    });
+    return `${indent}<ol>\n${items.join('\n')}\n${indent}</ol>`;
+};
+
+const ncxPoints = (entries: TocEntry[], counter: { value: number }, indent: string): string => {
+    return entries.map(entry => {
+        const order = ++counter.value;
+        return `${indent}<navPoint id="navpoint-${order}" playOrder="${order}">
+${indent}  <navLabel><text>${escapeXml(entry.text)}</text></navLabel>
+${indent}  <content src="${escapeXml(entry.href)}"/>
+${ncxPoints(entry.children, counter, indent + '  ')}${indent}</navPoint>
+`;
+    }).join('');
+};
+
+const tocDepth = (entries: TocEntry[]): number => {
+    return entries.reduce((depth, entry) => Math.max(depth, 1 + tocDepth(entry.children)), 0);
+};
+
+/**
+ * Replace embedded media an EPUB can not load (videos, iframes) by a link to their source
+ */
+const replaceMedia = (body: HTMLElement) => {
+    body.querySelectorAll('video, audio, iframe').forEach(media => {
+        const src = media.getAttribute('src') || media.querySelector('source')?.getAttribute('src') || '';
+        const paragraph = body.ownerDocument.createElement('p');
+        if (src && !src.startsWith('data:') && !src.startsWith('blob:')) {
+            const link = body.ownerDocument.createElement('a');
+            link.setAttribute('href', src);
+            link.textContent = media.getAttribute('title') || src;
+            paragraph.appendChild(link);
+        }
+        media.replaceWith(paragraph);
+    });
+};
+
+/**
+ * Export the editor HTML as an EPUB 3 book. The content is split into chapters at the headings of
+ * options.chapterLevel and above, the table of contents is written both as navigation document and
+ * as NCX for older readers. Images, including data URLs, are packaged into the book; images that can
+ * not be loaded are replaced by their alt text.
+ * @param html The editor HTML, e.g. aiEditor.getHtml()
+ * @param options
+ */
+export const exportToEpub = async (html: string, options: EpubExportOptions = {}): Promise<Blob> => {
+    const doc = new DOMParser().parseFromString(html, 'text/html');
+    const lang = options.lang || 'en';
+    const chapterLevel = options.chapterLevel || 1;
+    replaceMedia(doc.body);
+
+    // Headings without id are linked as heading-N, by their order in the document
+    const headings = Array.from(doc.body.querySelectorAll('h1, h2, h3, h4, h5, h6'));
+    headings.forEach((heading, index) => {
+        if (!heading.id) heading.id = `heading-${index + 1}`;
+    });
+    const title = options.title || headings[0]?.textContent?.trim() || 'Untitled';
+
+    // Every heading of the chapter level starts a chapter, content before the first one becomes a chapter of its own
+    const chapters: Chapter[] = [];
+    for (let node of Array.from(doc.body.childNodes)) {
+        if (node.nodeType === 3 && !node.textContent?.trim()) continue;
+        const level = headingLevel(node);
+        const startsChapter = level > 0 && level <= chapterLevel;
+        if (!chapters.length || startsChapter) {
+            chapters.push({
+                file: `chapter-${chapters.length + 1}.xhtml`,
+                title: startsChapter ? node.textContent?.trim() || title : title,
+                body: doc.createElement('div'),
+            });
+        }
+        chapters[chapters.length - 1].body.appendChild(node);
+    }
+    if (!chapters.length) {
+        chapters.push({ file: 'chapter-1.xhtml', title, body: doc.createElement('div') });
+    }
+
+    // Links to an id point to the chapter that holds it
+    const files = new Map<string, string>();
+    for (let chapter of chapters) {
+        chapter.body.querySelectorAll('[id]').forEach(element => files.set(element.id, chapter.file));
+    }
+    for (let chapter of chapters) {
+        chapter.body.querySelectorAll('a[href^="#"]').forEach(link => {
+            const id = decodeURIComponent(link.getAttribute('href')!.substring(1));
+            const file = files.get(id);
+            if (file && file !== chapter.file) link.setAttribute('href', `${file}#${id}`);
+        });
+    }
+
+    const zip = new JSZip();
+    // The mimetype must be the first entry and must not be compressed
+    zip.file('mimetype', 'application/epub+zip', { compression: 'STORE' });
+    zip.file('META-INF/container.xml', CONTAINER_XML);
+
+    // Images are loaded once per source and named by their order
+    const images = new Map<string, Promise<{ file: string, image: LoadedImage } | null>>();
+    const imageElements = chapters.flatMap(chapter => Array.from(chapter.body.querySelectorAll('img')));
+    for (let img of imageElements) {
+        const src = img.getAttribute('src') || '';
+        if (!images.has(src)) {
+            const index = images.size + 1;
+            images.set(src, src ? loadImage(src, ['png', 'jpg', 'gif'])
+                .then(image => image ? { file: `images/image-${index}.${image.type}`, image } : null)
+                .catch(() => null) : Promise.resolve(null));
+        }
+    }
+    const manifestImages = new Map<string, string>();
+    for (let img of imageElements) {
+        const loaded = await images.get(img.getAttribute('src') || '');
+        if (!loaded) {
+            const alt = img.getAttribute('alt');
+            if (alt) img.replaceWith(doc.createTextNode(alt));
+            else img.remove();
+            continue;
+        }
+        img.setAttribute('src', loaded.file);
+        img.setAttribute('alt', img.getAttribute('alt') || '');
+        // Sizes like "350px" are not valid width attributes in XHTML
+        const width = img.getAttribute('width');
+        if (width && !/^\d+$/.test(width)) {
+            img.removeAttribute('width');
+            if (width !== 'auto') img.setAttribute('style', `width: ${width};${img.getAttribute('style') || ''}`);
+        }
+        const height = img.getAttribute('height');
+        if (height && !/^\d+$/.test(height)) img.removeAttribute('height');
+        img.removeAttribute('loading');
+        img.removeAttribute('data-src');
+
+        if (!manifestImages.has(loaded.file)) {
+            zip.file(`OEBPS/${loaded.file}`, loaded.image.data);
+            manifestImages.set(loaded.file, IMAGE_MEDIA_TYPES[loaded.image.type]);
+        }
+    }
+
+    for (let chapter of chapters) {
+        const body = Array.from(chapter.body.childNodes).map(serializeXhtml).join('\n');
+        zip.file(`OEBPS/${chapter.file}`, xhtmlDocument(chapter.title, lang, body));
+    }
+
+    // The table of contents lists the outline, or the chapters when the document has no headings
+    const outline = options.outline || headings.map(heading => ({
+        id: heading.id,
+        text: heading.textContent?.trim() || '',
+        level: headingLevel(heading),
+    }));
+    const tocItems = outline.map((item, index) => {
+        const id = item.id || headings[index]?.id;
+        return id && files.has(id) ? { text: item.text, href: `${files.get(id)}#${id}`, level: item.level } : null;
+    }).filter(item => item !== null) as { text: string, href: string, level: number }[];
+    const toc = nestToc(tocItems.length ? tocItems : chapters.map(chapter => ({ text: chapter.title, href: chapter.file, level: 1 })));
+    const tocTitle = options.tocTitle || 'Contents';
+    zip.file('OEBPS/nav.xhtml', xhtmlDocument(tocTitle, lang,
+        `<nav epub:type="toc" id="toc">\n<h1>${escapeXml(tocTitle)}</h1>\n${navList(toc, '')}\n</nav>`));
+
+    const identifier = options.identifier || `urn:uuid:${uuid()}`;
+    zip.file('OEBPS/toc.ncx', `<?xml version="1.0" encoding="UTF-8"?>
+<ncx xmlns="http://www.daisy.org/z3986/2005/ncx/" version="2005-1" xml:lang="${escapeXml(lang)}">
+  <head>
+    <meta name="dtb:uid" content="${escapeXml(identifier)}"/>
+    <meta name="dtb:depth" content="${Math.max(tocDepth(toc), 1)}"/>
+    <meta name="dtb:totalPageCount" content="0"/>
+    <meta name="dtb:maxPageNumber" content="0"/>
+  </head>
+  <docTitle><text>${escapeXml(title)}</text></docTitle>
+  <navMap>
+${ncxPoints(toc, { value: 0 }, '    ')}  </navMap>
+</ncx>`);
+
+    zip.file('OEBPS/style.css', DEFAULT_CSS + (options.css || ''));
+
+    // dcterms:modified requires a UTC date without milliseconds
+    const modified = (options.modified || new Date()).toISOString().replace(/\.\d{3}Z$/, 'Z');
+    zip.file('OEBPS/content.opf', `<?xml version="1.0" encoding="UTF-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="book-id" xml:lang="${escapeXml(lang)}">
+  <metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+    <dc:identifier id="book-id">${escapeXml(identifier)}</dc:identifier>
+    <dc:title>${escapeXml(title)}</dc:title>
+    <dc:language>${escapeXml(lang)}</dc:language>
+${options.author ? `    <dc:creator>${escapeXml(options.author)}</dc:creator>\n` : ''}    <meta property="dcterms:modified">${modified}</meta>
+  </metadata>
+  <manifest>
+    <item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>
+    <item id="ncx" href="toc.ncx" media-type="application/x-dtbncx+xml"/>
+    <item id="style" href="style.css" media-type="text/css"/>
+${[
+        ...chapters.map((chapter, index) => `    <item id="chapter-${index + 1}" href="${chapter.file}" media-type="application/xhtml+xml"/>`),
+        ...Array.from(manifestImages, ([file, mediaType], index) => `    <item id="image-${index + 1}" href="${file}" media-type="${mediaType}"/>`),
+    ].join('\n')}
+  </manifest>
+  <spine toc="ncx">
+${chapters.map((_, index) => `    <itemref idref="chapter-${index + 1}"/>`).join('\n')}
+  </spine>
+</package>`);
+
+    return zip.generateAsync({ type: 'blob', mimeType: 'application/epub+zip', compression: 'DEFLATE' });
+};
@@ -0,0 +1,9 @@
+/**
+ * 粗略估算文本的 token 数量：中日韩字符按 1 个 token 计算，其他字符按 4 个字符 1 个 token 计算
+ * @param text
+ */
+export const estimateTokens = (text: string) => {
+    if (!text) return 0;
+    const cjkCount = (text.match(/[\u3000-\u9fff\uac00-\ud7af\uff00-\uffef]/g) || []).length;
+    return cjkCount + Math.ceil((text.length - cjkCount) / 4);
+}
@@ -0,0 +1,15 @@
+import {t} from "i18next";
+import {AiError} from "../ai/core/AiError.ts";
+
+/**
+ * 根据错误类型生成可以直接展示给用户的提示信息
+ * @param error
+ */
+export const getAiErrorMessage = (error: AiError) => {
+    const model = error.model || "AI";
+    const tip = t(`ai-error-${error.type.replace("_", "-")}`, {model, status: error.status});
+    if (error.type === "unknown" && error.message) {
+        return `${tip} (${error.message.length > 200 ? error.message.substring(0, 200) + "..." : error.message})`;
+    }
+    return tip;
+}
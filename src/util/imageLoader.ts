@@ -0,0 +1,95 @@
+/**
+ * Image Loader Utility
+ * Loads the images of the document for the file exporters
+ */
+
+export type LoadedImageType = 'png' | 'jpg' | 'gif' | 'bmp';
+
+export interface LoadedImage {
+    data: Uint8Array;
+    type: LoadedImageType;
+    width: number;
+    height: number;
+}
+
+const decodeBase64 = (base64: string): Uint8Array => {
+    const binary = atob(base64);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+        bytes[i] = binary.charCodeAt(i);
+    }
+    return bytes;
+};
+
+/**
+ * Read the format and the pixel size from the header of a PNG, JPEG, GIF or BMP image
+ */
+const readImageInfo = (data: Uint8Array): Omit<LoadedImage, 'data'> | null => {
+    const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+    if (data.length > 24 && data[0] === 0x89 && data[1] === 0x50 && data[2] === 0x4e && data[3] === 0x47) {
+        return { type: 'png', width: view.getUint32(16), height: view.getUint32(20) };
+    }
+    if (data.length > 10 && data[0] === 0x47 && data[1] === 0x49 && data[2] === 0x46) {
+        return { type: 'gif', width: view.getUint16(6, true), height: view.getUint16(8, true) };
+    }
+    if (data.length > 26 && data[0] === 0x42 && data[1] === 0x4d) {
+        return { type: 'bmp', width: view.getInt32(18, true), height: Math.abs(view.getInt32(22, true)) };
+    }
+    if (data.length > 4 && data[0] === 0xff && data[1] === 0xd8) {
+        // Walk the segments until a start of frame marker, which holds the size
+        let offset = 2;
+        while (offset + 9 < data.length) {
+            if (data[offset] !== 0xff) return null;
+            const marker = data[offset + 1];
+            if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+                return { type: 'jpg', width: view.getUint16(offset + 7), height: view.getUint16(offset + 5) };
+            }
+            offset += 2 + view.getUint16(offset + 2);
+        }
+    }
+    return null;
+};
+
+/**
+ * Draw an image the target format can not embed (e.g. webp or svg) on a canvas and save it as PNG
+ */
+const convertToPng = async (blob: Blob): Promise<Uint8Array | null> => {
+    if (typeof createImageBitmap !== 'function' || typeof document === 'undefined') return null;
+    const bitmap = await createImageBitmap(blob);
+    const canvas = document.createElement('canvas');
+    canvas.width = bitmap.width;
+    canvas.height = bitmap.height;
+    canvas.getContext('2d')?.drawImage(bitmap, 0, 0);
+    const png = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+    return png ? new Uint8Array(await png.arrayBuffer()) : null;
+};
+
+/**
+ * Load an image from a data URL or a remote URL. Images in other formats than the supported types
+ * are converted to PNG, which only works in browsers.
+ * @param src
+ * @param types The image formats the caller can embed
+ */
+export const loadImage = async (src: string, types: LoadedImageType[] = ['png', 'jpg', 'gif', 'bmp']): Promise<LoadedImage | null> => {
+    let data: Uint8Array;
+    let mimeType = '';
+    const dataUrl = src.match(/^data:([^;,]*)(;base64)?,(.*)$/s);
+    if (dataUrl) {
+        mimeType = dataUrl[1];
+        data = dataUrl[2] ? decodeBase64(dataUrl[3]) : new TextEncoder().encode(decodeURIComponent(dataUrl[3]));
+    } else {
+        const response = await fetch(src);
+        if (!response.ok) return null;
+        mimeType = response.headers.get('content-type') || '';
+        data = new Uint8Array(await response.arrayBuffer());
+    }
+
+    let info = readImageInfo(data);
+    if (!info || !types.includes(info.type)) {
+        const png = await convertToPng(new Blob([data as BlobPart], { type: mimeType }));
+        info = png ? readImageInfo(png) : null;
+        if (!png || !info) return null;
+        data = png;
+    }
+    return { data, ...info };
+};
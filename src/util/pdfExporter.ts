@@ -0,0 +1,1217 @@
+/**
+ * PDF Exporter Utility
+ * Lays out the editor document (ProseMirror JSON) on pages and writes a PDF file,
+ * independent of the browser's print engine
+ */
+import { JSONContent } from '@tiptap/core';
+import fontkit from '@pdf-lib/fontkit';
+import { PDFDocument, PDFFont, PDFImage, PDFPage, PDFString, PageSizes, RGB, StandardFonts, rgb } from 'pdf-lib';
+import { loadImage } from './imageLoader';
+
+/**
+ * The bytes of a TrueType or OpenType font, or the URL to load them from
+ */
+export type PdfFontSource = ArrayBuffer | Uint8Array | string;
+
+export interface PdfFonts {
+    regular?: PdfFontSource;
+    bold?: PdfFontSource;       // Defaults to the regular font
+    italic?: PdfFontSource;     // Defaults to the regular font
+    boldItalic?: PdfFontSource; // Defaults to the bold font
+    monospace?: PdfFontSource;  // Used for code, defaults to Courier
+}
+
+export interface PdfMargins {
+    top?: number;
+    right?: number;
+    bottom?: number;
+    left?: number;
+}
+
+export interface PdfOutlineItem {
+    id?: string;                // The id attribute of the heading, as returned by aiEditor.getOutline()
+    text: string;
+    level: number;
+}
+
+export interface PdfExportOptions {
+    title?: string;             // Document title saved in the file properties and shown for {title}
+    author?: string;            // Author saved in the file properties
+    pageSize?: keyof typeof PageSizes | [number, number]; // A page format name or [width, height] in points, defaults to A4
+    landscape?: boolean;
+    margin?: number | PdfMargins; // In points, defaults to 56 (about 2cm)
+    fontSize?: number;          // Size of the body text in points, defaults to 11
+    header?: string;            // Text at the top of every page, {page}, {pages} and {title} are replaced
+    footer?: string;            // Text at the bottom of every page, defaults to "{page} / {pages}", empty for none
+    outline?: PdfOutlineItem[]; // Headings listed in a table of contents before the content
+    tocTitle?: string;          // Title of the table of contents, defaults to "Contents"
+    fonts?: PdfFonts;           // Fonts to embed, the standard Helvetica and Courier only cover Western European text
+}
+
+type Mark = { type: string, attrs?: Record<string, any> };
+
+type FontName = keyof PdfFonts;
+
+interface TextStyle {
+    font: PDFFont;
+    size: number;
+    color: RGB;
+    background?: RGB;
+    underline?: boolean;
+    strike?: boolean;
+    rise?: number;              // Baseline shift of sub- and superscript
+    link?: string;
+}
+
+/**
+ * Style of the text of a block, before the marks are applied
+ */
+interface BaseStyle {
+    size: number;
+    color: RGB;
+    bold?: boolean;
+    italic?: boolean;
+}
+
+interface Fragment {
+    text: string;               // A word, a run of spaces, a CJK character or "\n" for a hard break
+    style: TextStyle;
+    width: number;
+    space: boolean;
+}
+
+interface Line {
+    fragments: Fragment[];
+    width: number;
+    height: number;
+    ascent: number;             // Distance from the top of the line to the baseline
+    indent: number;
+    last: boolean;              // Ends the paragraph or a hard break, so it is not justified
+}
+
+/**
+ * A filled column behind the blocks of a callout, a quote or a code block, relative to the left of the flow
+ */
+interface Decoration {
+    x: number;
+    width: number;
+    color: RGB;
+}
+
+/**
+ * The smallest unit of the layout: a line of text, a table row or an image.
+ * Boxes are never split across pages.
+ */
+interface Box {
+    height: number;
+    spaceBefore: number;        // Dropped at the top of a page
+    decorations: Decoration[];
+    keepWithNext?: boolean;     // Moved to the next page together with the following box, e.g. a heading
+    header?: Box;               // Table header rows repeated when the box starts a new page
+    pageBreak?: boolean;
+    anchors?: string[];         // Ids of the heading starting with this box
+    draw: (canvas: PDFPage, left: number, top: number) => void;
+}
+
+interface Placement {
+    box: Box;
+    top: number;
+}
+
+interface Marker {
+    number?: string;            // Number of an ordered list item
+    bullet?: number;            // Nesting level of a bullet list item
+    checked?: boolean;          // State of a task item
+}
+
+interface FlowContext {
+    left: number;               // Offset of the blocks from the left of the flow
+    width: number;
+    level: number;              // Nesting level of the current list, -1 outside of lists
+    decorations: Decoration[];
+    marker?: Marker;            // Drawn before the first line of a list item
+    align?: string;
+}
+
+interface TableCellLayout {
+    node: JSONContent;
+    row: number;
+    column: number;
+    rowSpan: number;
+    colSpan: number;
+    boxes: Placement[];
+    height: number;
+}
+
+const DEFAULT_MARGIN = 56;
+const DEFAULT_FONT_SIZE = 11;
+const DEFAULT_LINE_HEIGHT = 1.5;
+
+const HEADING_SCALES = [2, 1.6, 1.35, 1.2, 1.1, 1];
+
+const LIST_INDENT = 20;
+const QUOTE_INDENT = 14;
+const BLOCK_PADDING = 6;
+const CELL_PADDING = 5;
+
+const TEXT_COLOR = rgb(0.13, 0.13, 0.13);
+const MUTED_COLOR = rgb(0.4, 0.4, 0.4);
+const LINK_COLOR = rgb(0.02, 0.39, 0.76);
+const BORDER_COLOR = rgb(0.75, 0.75, 0.75);
+const CODE_FILL = rgb(0.96, 0.96, 0.96);
+const HEADER_FILL = rgb(0.95, 0.95, 0.95);
+const INSERTION_COLOR = rgb(0.09, 0.47, 1);
+const DELETION_COLOR = rgb(0.96, 0.13, 0.18);
+
+// Background and border colors of the ContainerExt callouts
+const CONTAINER_COLORS: Record<string, { fill: RGB, border: RGB }> = {
+    info: { fill: rgb(0.91, 0.96, 0.99), border: rgb(0.09, 0.47, 1) },
+    warning: { fill: rgb(1, 0.97, 0.9), border: rgb(0.98, 0.55, 0.09) },
+    danger: { fill: rgb(1, 0.95, 0.94), border: rgb(0.96, 0.13, 0.18) },
+};
+
+const STANDARD_FONTS: Record<FontName, StandardFonts> = {
+    regular: StandardFonts.Helvetica,
+    bold: StandardFonts.HelveticaBold,
+    italic: StandardFonts.HelveticaOblique,
+    boldItalic: StandardFonts.HelveticaBoldOblique,
+    monospace: StandardFonts.Courier,
+};
+
+// Characters which may be wrapped on their own, since CJK text has no spaces between words
+const CJK_CHAR = /[⺀-鿿가-힯豈-﫿＀-￯]/;
+const WORD_SPLIT = /(\s+|[⺀-鿿가-힯豈-﫿＀-￯])/;
+
+/**
+ * Convert a CSS color (#rgb, #rrggbb or rgb()) to a PDF color, named colors are not supported
+ */
+const toColor = (color?: string | null): RGB | undefined => {
+    if (!color) return undefined;
+    const value = color.trim();
+    const hex = value.match(/^#([0-9a-f]{3}|[0-9a-f]{6})$/i);
+    if (hex) {
+        const digits = hex[1].length === 3 ? hex[1].split('').map(c => c + c).join('') : hex[1];
+        return rgb(parseInt(digits.substring(0, 2), 16) / 255, parseInt(digits.substring(2, 4), 16) / 255, parseInt(digits.substring(4, 6), 16) / 255);
+    }
+    const channels = value.match(/^rgba?\(\s*(\d+)\s*,\s*(\d+)\s*,\s*(\d+)/i);
+    if (channels) {
+        const [r, g, b] = channels.slice(1, 4).map(c => Math.min(255, Number(c)) / 255);
+        return rgb(r, g, b);
+    }
+    return undefined;
+};
+
+/**
+ * Convert a CSS font size (px, pt or em) to points
+ */
+const toPoints = (fontSize: string | null | undefined, baseSize: number): number | undefined => {
+    if (!fontSize) return undefined;
+    const match = String(fontSize).trim().match(/^([\d.]+)\s*(px|pt|em|rem)?$/i);
+    if (!match) return undefined;
+    const value = parseFloat(match[1]);
+    const unit = (match[2] || 'px').toLowerCase();
+    return unit === 'pt' ? value : unit === 'px' ? value * 0.75 : value * baseSize;
+};
+
+/**
+ * Convert a line height of LineHeightExt ("1.5" or "150%") to a factor of the font size
+ */
+const toLineHeight = (lineHeight?: string | number | null): number | undefined => {
+    if (lineHeight === null || lineHeight === undefined || lineHeight === '') return undefined;
+    const value = parseFloat(String(lineHeight));
+    if (isNaN(value) || value <= 0) return undefined;
+    return String(lineHeight).trim().endsWith('%') ? value / 100 : value;
+};
+
+const toRoman = (value: number): string => {
+    const numerals: [number, string][] = [[1000, 'm'], [900, 'cm'], [500, 'd'], [400, 'cd'], [100, 'c'], [90, 'xc'],
+        [50, 'l'], [40, 'xl'], [10, 'x'], [9, 'ix'], [5, 'v'], [4, 'iv'], [1, 'i']];
+    let result = '';
+    for (let [number, numeral] of numerals) {
+        while (value >= number) {
+            result += numeral;
+            value -= number;
+        }
+    }
+    return result;
+};
+
+const toLetters = (value: number): string => {
+    let result = '';
+    while (value > 0) {
+        result = String.fromCharCode(97 + (value - 1) % 26) + result;
+        value = Math.floor((value - 1) / 26);
+    }
+    return result;
+};
+
+/**
+ * Number of an ordered list item, nested lists use letters and roman numerals like the editor
+ */
+const formatListNumber = (value: number, level: number): string => {
+    const formats = [String, toLetters, toRoman];
+    return `${formats[level % 3](value)}.`;
+};
+
+const loadFont = async (source: PdfFontSource): Promise<ArrayBuffer | Uint8Array> => {
+    if (typeof source !== 'string') return source;
+    const response = await fetch(source);
+    if (!response.ok) throw new Error(`Failed to load the font ${source}: ${response.status}`);
+    return response.arrayBuffer();
+};
+
+/**
+ * Lays out the document in boxes, distributes the boxes on pages and draws them
+ */
+class PdfConverter {
+    private pdf!: PDFDocument;
+    private fonts!: Record<FontName, PDFFont>;
+    private characterSets = new Map<PDFFont, Set<number>>();
+    private images = new Map<string, Promise<PDFImage | null>>();
+    private anchors = new Map<string, { page: number, top: number }>();
+    private headingCount = 0;
+
+    private pageWidth: number;
+    private pageHeight: number;
+    private margin: Required<PdfMargins>;
+    private baseSize: number;
+
+    constructor(private options: PdfExportOptions) {
+        let [width, height] = Array.isArray(options.pageSize) ? options.pageSize : PageSizes[options.pageSize || 'A4'] || PageSizes.A4;
+        if (options.landscape !== undefined && options.landscape !== width > height) [width, height] = [height, width];
+        this.pageWidth = width;
+        this.pageHeight = height;
+
+        const margin = typeof options.margin === 'number' ? { top: options.margin, right: options.margin, bottom: options.margin, left: options.margin } : options.margin || {};
+        this.margin = {
+            top: margin.top ?? DEFAULT_MARGIN,
+            right: margin.right ?? DEFAULT_MARGIN,
+            bottom: margin.bottom ?? DEFAULT_MARGIN,
+            left: margin.left ?? DEFAULT_MARGIN,
+        };
+        this.baseSize = options.fontSize || DEFAULT_FONT_SIZE;
+    }
+
+    private get contentWidth() {
+        return this.pageWidth - this.margin.left - this.margin.right;
+    }
+
+    private get contentHeight() {
+        return this.pageHeight - this.margin.top - this.margin.bottom;
+    }
+
+    async convert(doc: JSONContent): Promise<Blob> {
+        // Without updating the metadata the output does not depend on the time, so the same document gives the same file
+        this.pdf = await PDFDocument.create({ updateMetadata: false });
+        if (this.options.title) this.pdf.setTitle(this.options.title);
+        if (this.options.author) this.pdf.setAuthor(this.options.author);
+        await this.embedFonts();
+
+        const context: FlowContext = { left: 0, width: this.contentWidth, level: -1, decorations: [] };
+        const boxes = await this.blocks(doc.content || [], context);
+        if (this.options.outline?.length) {
+            boxes.unshift(...this.tableOfContents(this.options.outline), this.pageBreak());
+        }
+
+        const pages = this.paginate(boxes).map(placements => ({ page: this.pdf.addPage([this.pageWidth, this.pageHeight]), placements }));
+        pages.forEach(({ page, placements }, index) => {
+            this.drawFlow(page, placements, this.margin.left);
+            this.drawHeaderAndFooter(page, index + 1, pages.length);
+        });
+
+        const bytes = await this.pdf.save();
+        return new Blob([bytes as BlobPart], { type: 'application/pdf' });
+    }
+
+    /**
+     * Embed the configured fonts, the missing styles fall back to a configured font of the family
+     * before the standard fonts, so that a CJK font is still used for bold text
+     */
+    private async embedFonts() {
+        const sources = this.options.fonts || {};
+        const fallbacks: Record<FontName, FontName[]> = {
+            regular: ['regular'],
+            bold: ['bold', 'regular'],
+            italic: ['italic', 'regular'],
+            boldItalic: ['boldItalic', 'bold', 'italic', 'regular'],
+            monospace: ['monospace'],
+        };
+        if (Object.values(sources).some(source => source)) {
+            this.pdf.registerFontkit(fontkit);
+        }
+
+        const embedded = new Map<PdfFontSource, Promise<PDFFont>>();
+        const fonts = {} as Record<FontName, PDFFont>;
+        for (let name of Object.keys(fallbacks) as FontName[]) {
+            const source = fallbacks[name].map(fallback => sources[fallback]).find(source => source);
+            if (!source) {
+                fonts[name] = await this.pdf.embedFont(STANDARD_FONTS[name]);
+                continue;
+            }
+            if (!embedded.has(source)) {
+                embedded.set(source, loadFont(source).then(data => this.pdf.embedFont(data, { subset: true })));
+            }
+            fonts[name] = await embedded.get(source)!;
+        }
+        this.fonts = fonts;
+    }
+
+    /**
+     * Place the boxes on pages, keeping headings with the text after them and repeating the table headers
+     */
+    private paginate(boxes: Box[]): Placement[][] {
+        const pages: Placement[][] = [[]];
+        let y = 0;
+        const newPage = () => {
+            if (pages[pages.length - 1].length === 0) return;
+            pages.push([]);
+            y = 0;
+        };
+        const place = (box: Box, spacing: number) => {
+            const top = this.margin.top + y + spacing;
+            pages[pages.length - 1].push({ box, top });
+            box.anchors?.forEach(anchor => this.anchors.set(anchor, { page: pages.length - 1, top }));
+            y += spacing + box.height;
+        };
+
+        boxes.forEach((box, index) => {
+            if (box.pageBreak) {
+                newPage();
+                return;
+            }
+
+            let needed = box.height;
+            for (let next = index; boxes[next].keepWithNext && next + 1 < boxes.length && !boxes[next + 1].pageBreak; next++) {
+                needed += boxes[next + 1].spaceBefore + boxes[next + 1].height;
+            }
+            // A chain which does not fit on an empty page is split anyway
+            if (needed > this.contentHeight) needed = box.height;
+
+            if (y > 0 && y + box.spaceBefore + needed > this.contentHeight) {
+                newPage();
+            }
+            if (y === 0 && box.header && box.header !== box) {
+                place(box.header, 0);
+            }
+            place(box, y > 0 ? box.spaceBefore : 0);
+        });
+        // A page break at the end of the document does not add an empty page
+        if (pages.length > 1 && pages[pages.length - 1].length === 0) pages.pop();
+        return pages;
+    }
+
+    /**
+     * Stack boxes without page breaks, e.g. the content of a table cell
+     */
+    private stack(boxes: Box[]): { placements: Placement[], height: number } {
+        let y = 0;
+        const placements = boxes.map((box, index) => {
+            const top = y + (index > 0 ? box.spaceBefore : 0);
+            y = top + box.height;
+            return { box, top };
+        });
+        return { placements, height: y };
+    }
+
+    /**
+     * Draw the placed boxes. Decorations shared with the previous box also fill the space between them,
+     * so that a callout or a code block has one continuous background.
+     */
+    private drawFlow(page: PDFPage, placements: Placement[], left: number, offset: number = 0) {
+        placements.forEach((placement, index) => {
+            const previous = placements[index - 1];
+            const bottom = offset + placement.top + placement.box.height;
+            for (let decoration of placement.box.decorations) {
+                const top = offset + (previous?.box.decorations.includes(decoration) ? previous.top + previous.box.height : placement.top);
+                this.fillRect(page, left + decoration.x, top, decoration.width, bottom - top, decoration.color);
+            }
+            placement.box.draw(page, left, offset + placement.top);
+        });
+    }
+
+    private drawHeaderAndFooter(page: PDFPage, pageNumber: number, pages: number) {
+        const replace = (template: string) => template
+            .split('{page}').join(String(pageNumber))
+            .split('{pages}').join(String(pages))
+            .split('{title}').join(this.options.title || '');
+        const font = this.fonts.regular;
+        const size = this.baseSize * 0.8;
+        const drawCentered = (template: string, top: number) => {
+            const text = this.encodable(replace(template), font);
+            if (!text) return;
+            const width = font.widthOfTextAtSize(text, size);
+            page.drawText(text, { x: (this.pageWidth - width) / 2, y: this.pageHeight - top - size, size, font, color: MUTED_COLOR });
+        };
+        if (this.options.header) {
+            drawCentered(this.options.header, (this.margin.top - size) / 2);
+        }
+        drawCentered(this.options.footer ?? '{page} / {pages}', this.pageHeight - (this.margin.bottom + size) / 2);
+    }
+
+    private tableOfContents(outline: PdfOutlineItem[]): Box[] {
+        const titleStyle: BaseStyle = { size: this.baseSize * HEADING_SCALES[1], color: TEXT_COLOR, bold: true };
+        const title = this.textLines([{ type: 'text', text: this.options.tocTitle || 'Contents' }], titleStyle, this.contentWidth, 0, 1.2);
+        const boxes = title.map(line => this.lineBox(line, { left: 0, width: this.contentWidth, level: -1, decorations: [] }, 0));
+
+        const minLevel = Math.min(...outline.map(item => item.level || 1));
+        const size = this.baseSize;
+        const height = size * 1.8;
+        outline.forEach((item, index) => {
+            const font = (item.level || 1) === minLevel ? this.fonts.bold : this.fonts.regular;
+            const indent = ((item.level || 1) - minLevel) * LIST_INDENT;
+            boxes.push({
+                height,
+                spaceBefore: index === 0 ? size : 0,
+                decorations: [],
+                draw: (page, left, top) => {
+                    const anchor = (item.id && this.anchors.get(item.id)) || this.anchors.get(`heading-${index}`);
+                    const number = anchor ? String(anchor.page + 1) : '';
+                    const numberWidth = font.widthOfTextAtSize(number, size);
+                    const baseline = this.pageHeight - top - (height + size * 0.7) / 2;
+
+                    // Long titles are cut, so that every entry stays on one line
+                    let text = this.encodable(item.text, font);
+                    const available = this.contentWidth - indent - numberWidth - size * 2;
+                    if (font.widthOfTextAtSize(text, size) > available) {
+                        while (text && font.widthOfTextAtSize(text + '...', size) > available) text = text.slice(0, -1);
+                        text += '...';
+                    }
+                    const textWidth = font.widthOfTextAtSize(text, size);
+                    page.drawText(text, { x: left + indent, y: baseline, size, font, color: TEXT_COLOR });
+
+                    const dotWidth = this.fonts.regular.widthOfTextAtSize('.', size);
+                    const dots = Math.floor((this.contentWidth - indent - textWidth - numberWidth - size) / dotWidth);
+                    if (dots > 0 && number) {
+                        const leader = '.'.repeat(dots);
+                        page.drawText(leader, {
+                            x: left + this.contentWidth - numberWidth - size * 0.5 - dots * dotWidth,
+                            y: baseline, size, font: this.fonts.regular, color: BORDER_COLOR,
+                        });
+                    }
+                    page.drawText(number, { x: left + this.contentWidth - numberWidth, y: baseline, size, font, color: TEXT_COLOR });
+                    if (anchor) {
+                        this.addLink(page, left + indent, this.pageHeight - top - height, this.contentWidth - indent, height, anchor);
+                    }
+                },
+            });
+        });
+        return boxes;
+    }
+
+    private pageBreak(): Box {
+        return { height: 0, spaceBefore: 0, decorations: [], pageBreak: true, draw: () => undefined };
+    }
+
+    private async blocks(nodes: JSONContent[], context: FlowContext): Promise<Box[]> {
+        const result: Box[] = [];
+        for (let node of nodes) {
+            const boxes = await this.block(node, context);
+            result.push(...boxes);
+            // Only the first paragraph of a list item shows the bullet or the checkbox
+            if (boxes.length > 0) context = { ...context, marker: undefined };
+        }
+        return result;
+    }
+
+    private async block(node: JSONContent, context: FlowContext): Promise<Box[]> {
+        const attrs = node.attrs || {};
+        const base: BaseStyle = { size: this.baseSize, color: TEXT_COLOR };
+        const spacing = this.baseSize * (context.level >= 0 ? 0.25 : 0.6);
+        switch (node.type) {
+            case 'paragraph':
+                return this.paragraph(node, context, base, spacing);
+
+            case 'heading': {
+                const level = Math.min(Math.max(attrs.level || 1, 1), 6);
+                const size = this.baseSize * HEADING_SCALES[level - 1];
+                const boxes = await this.paragraph(node, context, { ...base, size, bold: true }, size * 0.8, 1.3);
+                boxes.forEach(box => box.keepWithNext = true);
+                if (boxes.length) {
+                    boxes[0].anchors = [`heading-${this.headingCount++}`, ...(attrs.id ? [attrs.id] : [])];
+                }
+                return boxes;
+            }
+
+            case 'blockquote': {
+                const decoration: Decoration = { x: context.left, width: 3, color: BORDER_COLOR };
+                return this.blocks(node.content || [], {
+                    ...context,
+                    left: context.left + QUOTE_INDENT,
+                    width: context.width - QUOTE_INDENT,
+                    decorations: [...context.decorations, decoration],
+                });
+            }
+
+            case 'container': {
+                const colors = CONTAINER_COLORS[attrs.containerClass] || CONTAINER_COLORS.warning;
+                const fill: Decoration = { x: context.left, width: context.width, color: colors.fill };
+                const border: Decoration = { x: context.left, width: 3, color: colors.border };
+                const boxes = await this.blocks(node.content || [], {
+                    ...context,
+                    left: context.left + QUOTE_INDENT,
+                    width: context.width - QUOTE_INDENT - BLOCK_PADDING,
+                    decorations: [...context.decorations, fill, border],
+                });
+                return this.pad(boxes, BLOCK_PADDING, spacing);
+            }
+
+            case 'bulletList':
+            case 'orderedList':
+            case 'taskList':
+                return this.list(node, context);
+
+            case 'codeBlock':
+                return this.codeBlock(node, context, spacing);
+
+            case 'horizontalRule': {
+                const height = this.baseSize;
+                return [{
+                    height,
+                    spaceBefore: spacing,
+                    decorations: context.decorations,
+                    draw: (page, left, top) => {
+                        const y = this.pageHeight - top - height / 2;
+                        page.drawLine({
+                            start: { x: left + context.left, y },
+                            end: { x: left + context.left + context.width, y },
+                            thickness: 0.75,
+                            color: BORDER_COLOR,
+                        });
+                    },
+                }];
+            }
+
+            case 'pageBreak':
+                return [this.pageBreak()];
+
+            case 'table':
+                return this.table(node, context, spacing);
+
+            case 'image':
+                return this.image(node, { ...context, align: attrs.align }, spacing);
+
+            case 'figure':
+                return this.blocks(node.content || [], context);
+
+            case 'figcaption':
+                return this.paragraph(node, { ...context, align: 'center' }, { ...base, size: this.baseSize * 0.9, color: MUTED_COLOR, italic: true }, this.baseSize * 0.3);
+
+            case 'video':
+            case 'iframe':
+                return attrs.src ? this.paragraph({
+                    type: 'paragraph',
+                    content: [{ type: 'text', text: attrs.src, marks: [{ type: 'link', attrs: { href: attrs.src } }] }],
+                }, context, base, spacing) : [];
+
+            default:
+                // Unknown blocks keep their text and their child blocks
+                if (node.content?.some(child => child.type === 'text')) {
+                    return this.paragraph(node, context, base, spacing);
+                }
+                return this.blocks(node.content || [], context);
+        }
+    }
+
+    /**
+     * Increase the height of the first and the last box, e.g. for the padding of a callout
+     */
+    private pad(boxes: Box[], padding: number, spacing: number): Box[] {
+        if (boxes.length === 0) return boxes;
+        const result = [...boxes];
+        const first = result[0];
+        result[0] = { ...first, height: first.height + padding, spaceBefore: spacing, draw: (page, left, top) => first.draw(page, left, top + padding) };
+        const last = result[result.length - 1];
+        result[result.length - 1] = { ...last, height: last.height + padding };
+        return result;
+    }
+
+    private async list(node: JSONContent, context: FlowContext): Promise<Box[]> {
+        const level = context.level + 1;
+        const start = Number(node.attrs?.start) || 1;
+        const result: Box[] = [];
+        for (let [index, item] of (node.content || []).entries()) {
+            let marker: Marker;
+            if (node.type === 'taskList') {
+                marker = { checked: !!item.attrs?.checked };
+            } else if (node.type === 'orderedList') {
+                marker = { number: formatListNumber(start + index, level) };
+            } else {
+                marker = { bullet: level };
+            }
+            result.push(...await this.blocks(item.content || [], {
+                ...context,
+                left: context.left + LIST_INDENT,
+                width: context.width - LIST_INDENT,
+                level,
+                marker,
+            }));
+        }
+        return result;
+    }
+
+    private codeBlock(node: JSONContent, context: FlowContext, spacing: number): Box[] {
+        const font = this.fonts.monospace;
+        const size = this.baseSize * 0.9;
+        const style: TextStyle = { font, size, color: TEXT_COLOR };
+        const width = context.width - BLOCK_PADDING * 2;
+        const decorations = [...context.decorations, { x: context.left, width: context.width, color: CODE_FILL }];
+
+        // Whitespace is kept and long lines are wrapped at any character
+        const lines: Line[] = [];
+        const text = this.encodable((node.content || []).map(child => child.text || '').join('').replace(/\t/g, '    '), font);
+        for (let source of text.split('\n')) {
+            let current = '';
+            for (let char of source) {
+                if (current && font.widthOfTextAtSize(current + char, size) > width) {
+                    lines.push(this.createLine([{ text: current, style, width: font.widthOfTextAtSize(current, size), space: false }], 0, 1.4, size, true));
+                    current = '';
+                }
+                current += char;
+            }
+            const fragments = current ? [{ text: current, style, width: font.widthOfTextAtSize(current, size), space: false }] : [];
+            lines.push(this.createLine(fragments, 0, 1.4, size, true));
+        }
+
+        const boxes = lines.map((line, index) => this.lineBox(line, {
+            ...context,
+            left: context.left + BLOCK_PADDING,
+            width,
+            decorations,
+            marker: index === 0 ? context.marker : undefined,
+        }, 0));
+        return this.pad(boxes, BLOCK_PADDING, spacing);
+    }
+
+    /**
+     * Lay out a text block, the images in it are placed between its lines
+     */
+    private async paragraph(node: JSONContent, context: FlowContext, base: BaseStyle, spacing: number, defaultLineHeight = DEFAULT_LINE_HEIGHT): Promise<Box[]> {
+        const attrs = node.attrs || {};
+        const lineHeight = toLineHeight(attrs.lineHeight) || defaultLineHeight;
+        const indent = attrs.indent > 0 ? attrs.indent * this.baseSize * 2 : 0;
+        let blockContext: FlowContext = { ...context, align: attrs.textAlign || context.align };
+
+        const groups: JSONContent[][] = [[]];
+        for (let child of node.content || []) {
+            if (child.type === 'image') {
+                groups.push([child], []);
+            } else {
+                groups[groups.length - 1].push(child);
+            }
+        }
+
+        const boxes: Box[] = [];
+        for (let group of groups) {
+            if (group[0]?.type === 'image') {
+                boxes.push(...await this.image(group[0], { ...blockContext, align: group[0].attrs?.align || blockContext.align }, 0));
+            } else if (group.length > 0 || groups.length === 1) {
+                const lines = this.textLines(group, base, context.width, boxes.length ? 0 : indent, lineHeight);
+                boxes.push(...lines.map((line, index) => this.lineBox(line, index === 0 ? blockContext : { ...blockContext, marker: undefined }, 0)));
+            }
+            if (boxes.length) blockContext = { ...blockContext, marker: undefined };
+        }
+        if (boxes.length) boxes[0].spaceBefore = spacing;
+        return boxes;
+    }
+
+    private lineBox(line: Line, context: FlowContext, spaceBefore: number): Box {
+        return {
+            height: line.height,
+            spaceBefore,
+            decorations: context.decorations,
+            draw: (page, left, top) => {
+                this.drawLine(page, line, left + context.left, top, context.width, context.align);
+                if (context.marker) this.drawMarker(page, context.marker, line, left + context.left, top);
+            },
+        };
+    }
+
+    /**
+     * Break the inline content into lines which fit the width
+     */
+    private textLines(nodes: JSONContent[], base: BaseStyle, width: number, firstIndent: number, lineHeight: number): Line[] {
+        // Words are the units of wrapping, a word may consist of fragments of several styles
+        const words: Fragment[][] = [];
+        let joinNext = false;
+        for (let fragment of this.fragments(nodes, base)) {
+            const breakable = fragment.space || fragment.text === '\n' || CJK_CHAR.test(fragment.text);
+            if (joinNext && !breakable) {
+                words[words.length - 1].push(fragment);
+            } else {
+                words.push([fragment]);
+            }
+            joinNext = !breakable;
+        }
+
+        const lines: Line[] = [];
+        let current: Fragment[] = [];
+        let currentWidth = 0;
+        let spaces: Fragment[] = [];
+        const available = () => width - (lines.length === 0 ? firstIndent : 0);
+        const pushLine = (last: boolean) => {
+            lines.push(this.createLine(current, lines.length === 0 ? firstIndent : 0, lineHeight, base.size, last));
+            current = [];
+            currentWidth = 0;
+            spaces = [];
+        };
+        const append = (fragment: Fragment) => {
+            current.push(fragment);
+            currentWidth += fragment.width;
+        };
+
+        for (let word of words) {
+            if (word[0].text === '\n') {
+                pushLine(true);
+                continue;
+            }
+            if (word[0].space) {
+                // Spaces at the start of a line are dropped, the ones at the end are not drawn
+                if (current.length) spaces.push(...word);
+                continue;
+            }
+
+            const spaceWidth = spaces.reduce((sum, fragment) => sum + fragment.width, 0);
+            const wordWidth = word.reduce((sum, fragment) => sum + fragment.width, 0);
+            if (current.length && currentWidth + spaceWidth + wordWidth > available()) {
+                pushLine(false);
+            } else {
+                spaces.forEach(append);
+                spaces = [];
+            }
+
+            if (wordWidth <= available()) {
+                word.forEach(append);
+                continue;
+            }
+            // A word longer than the line, e.g. a URL, is broken at any character
+            for (let fragment of word) {
+                for (let char of fragment.text) {
+                    const charWidth = fragment.style.font.widthOfTextAtSize(char, fragment.style.size);
+                    if (current.length && currentWidth + charWidth > available()) pushLine(false);
+                    const previous = current[current.length - 1];
+                    if (previous && previous.style === fragment.style && !previous.space) {
+                        previous.text += char;
+                        previous.width += charWidth;
+                        currentWidth += charWidth;
+                    } else {
+                        append({ text: char, style: fragment.style, width: charWidth, space: false });
+                    }
+                }
+            }
+        }
+        pushLine(true);
+        return lines;
+    }
+
+    /**
+     * Split the text nodes in words, spaces and CJK characters with the style of their marks
+     */
+    private fragments(nodes: JSONContent[], base: BaseStyle): Fragment[] {
+        const result: Fragment[] = [];
+        for (let node of nodes) {
+            if (node.type === 'hardBreak') {
+                result.push({ text: '\n', style: this.textStyle([], base), width: 0, space: false });
+                continue;
+            }
+            if (node.type !== 'text') {
+                if (node.content) result.push(...this.fragments(node.content, base));
+                continue;
+            }
+
+            const style = this.textStyle(node.marks || [], base);
+            const text = this.encodable((node.text || '').replace(/\t/g, ' '), style.font);
+            for (let part of text.split(WORD_SPLIT)) {
+                if (!part) continue;
+                const space = /^\s+$/.test(part);
+                const value = space ? ' ' : part;
+                result.push({ text: value, style, width: style.font.widthOfTextAtSize(value, style.size), space });
+            }
+        }
+        return result;
+    }
+
+    /**
+     * Text formatting of the marks: bold, italic, underline, strike, sub/sup, code, textStyle, highlight and links
+     */
+    private textStyle(marks: Mark[], base: BaseStyle): TextStyle {
+        let bold = base.bold, italic = base.italic, code = false;
+        const style: Omit<TextStyle, 'font'> = { size: base.size, color: base.color };
+        for (let mark of marks) {
+            const attrs = mark.attrs || {};
+            switch (mark.type) {
+                case 'bold':
+                    bold = true;
+                    break;
+                case 'italic':
+                    italic = true;
+                    break;
+                case 'underline':
+                    style.underline = true;
+                    break;
+                case 'strike':
+                    style.strike = true;
+                    break;
+                case 'code':
+                    code = true;
+                    style.background = CODE_FILL;
+                    break;
+                case 'textStyle': {
+                    const color = toColor(attrs.color);
+                    const size = toPoints(attrs.fontSize, this.baseSize);
+                    if (color) style.color = color;
+                    if (size) style.size = size;
+                    break;
+                }
+                case 'highlight':
+                    style.background = toColor(attrs.color) || rgb(1, 1, 0);
+                    break;
+                case 'link':
+                    if (style.color === base.color) style.color = LINK_COLOR;
+                    style.underline = true;
+                    style.link = attrs.href;
+                    break;
+                // Suggestions look like tracked changes
+                case 'insertion':
+                    style.color = INSERTION_COLOR;
+                    style.underline = true;
+                    break;
+                case 'deletion':
+                    style.color = DELETION_COLOR;
+                    style.strike = true;
+                    break;
+            }
+        }
+
+        // Sub- and superscript are applied last, since they depend on the final size
+        if (marks.some(mark => mark.type === 'subscript')) {
+            style.rise = -style.size * 0.15;
+            style.size *= 0.7;
+        } else if (marks.some(mark => mark.type === 'superscript')) {
+            style.rise = style.size * 0.35;
+            style.size *= 0.7;
+        }
+
+        const font = code ? this.fonts.monospace
+            : bold && italic ? this.fonts.boldItalic
+                : bold ? this.fonts.bold
+                    : italic ? this.fonts.italic
+                        : this.fonts.regular;
+        return { ...style, font };
+    }
+
+    /**
+     * Replace the characters the font has no glyph for, the standard fonts would fail to encode them
+     */
+    private encodable(text: string, font: PDFFont): string {
+        let characterSet = this.characterSets.get(font);
+        if (!characterSet) {
+            characterSet = new Set(font.getCharacterSet());
+            this.characterSets.set(font, characterSet);
+        }
+        let result = '';
+        for (let char of text.replace(/\r/g, '')) {
+            result += char === '\n' || characterSet.has(char.codePointAt(0)!) ? char : '?';
+        }
+        return result;
+    }
+
+    private createLine(fragments: Fragment[], indent: number, lineHeight: number, baseSize: number, last: boolean): Line {
+        let ascent = 0, descent = 0, size = 0;
+        for (let fragment of fragments) {
+            const { font, size: fontSize } = fragment.style;
+            const fontAscent = font.heightAtSize(fontSize, { descender: false });
+            ascent = Math.max(ascent, fontAscent + Math.max(fragment.style.rise || 0, 0));
+            descent = Math.max(descent, font.heightAtSize(fontSize) - fontAscent);
+            size = Math.max(size, fontSize);
+        }
+        if (!fragments.length) {
+            ascent = baseSize * 0.75;
+            descent = baseSize * 0.25;
+            size = baseSize;
+        }
+        const height = Math.max(size * lineHeight, ascent + descent);
+        return {
+            fragments,
+            width: fragments.reduce((sum, fragment) => sum + fragment.width, 0),
+            height,
+            ascent: (height - ascent - descent) / 2 + ascent,
+            indent,
+            last,
+        };
+    }
+
+    private drawLine(page: PDFPage, line: Line, left: number, top: number, width: number, align?: string) {
+        const free = width - line.indent - line.width;
+        let x = left + line.indent;
+        let extraSpace = 0;
+        if (align === 'center') {
+            x += free / 2;
+        } else if (align === 'right') {
+            x += free;
+        } else if (align === 'justify' && !line.last) {
+            const spaces = line.fragments.filter(fragment => fragment.space).length;
+            extraSpace = spaces ? free / spaces : 0;
+        }
+
+        // Fragments of the same style are drawn together, unless the spaces between them are stretched
+        const runs: Fragment[] = [];
+        for (let fragment of line.fragments) {
+            const previous = runs[runs.length - 1];
+            if (previous && previous.style === fragment.style && !(extraSpace && (previous.space || fragment.space))) {
+                previous.text += fragment.text;
+                previous.width += fragment.width;
+                previous.space = previous.space && fragment.space;
+            } else {
+                runs.push({ ...fragment, width: fragment.width + (fragment.space ? extraSpace : 0) });
+            }
+        }
+
+        const baseline = this.pageHeight - top - line.ascent;
+        for (let run of runs) {
+            const { font, size, color, rise = 0 } = run.style;
+            const y = baseline + rise;
+            if (run.style.background) {
+                page.drawRectangle({ x, y: y - size * 0.25, width: run.width, height: size * 1.2, color: run.style.background });
+            }
+            if (!run.space) {
+                page.drawText(run.text, { x, y, size, font, color });
+            }
+            if (run.style.underline) {
+                page.drawLine({ start: { x, y: y - size * 0.12 }, end: { x: x + run.width, y: y - size * 0.12 }, thickness: size / 16, color });
+            }
+            if (run.style.strike) {
+                page.drawLine({ start: { x, y: y + size * 0.3 }, end: { x: x + run.width, y: y + size * 0.3 }, thickness: size / 16, color });
+            }
+            if (run.style.link) {
+                this.addLink(page, x, y - size * 0.25, run.width, size * 1.2, run.style.link);
+            }
+            x += run.width;
+        }
+    }
+
+    /**
+     * Draw the bullet, the number or the checkbox of a list item before its first line
+     */
+    private drawMarker(page: PDFPage, marker: Marker, line: Line, left: number, top: number) {
+        const size = this.baseSize;
+        const baseline = this.pageHeight - top - line.ascent;
+        const center = baseline + size * 0.3;
+        if (marker.number) {
+            const width = this.fonts.regular.widthOfTextAtSize(marker.number, size);
+            page.drawText(marker.number, { x: left - width - 5, y: baseline, size, font: this.fonts.regular, color: TEXT_COLOR });
+        } else if (marker.checked !== undefined) {
+            const box = size * 0.75;
+            const x = left - box - 6;
+            page.drawRectangle({ x, y: center - box / 2, width: box, height: box, borderColor: MUTED_COLOR, borderWidth: 0.75 });
+            if (marker.checked) {
+                page.drawLine({ start: { x: x + box * 0.2, y: center }, end: { x: x + box * 0.42, y: center - box * 0.25 }, thickness: 1.2, color: TEXT_COLOR });
+                page.drawLine({ start: { x: x + box * 0.42, y: center - box * 0.25 }, end: { x: x + box * 0.8, y: center + box * 0.3 }, thickness: 1.2, color: TEXT_COLOR });
+            }
+        } else if (marker.bullet !== undefined) {
+            // Filled disc, circle and square like the nested lists of the editor
+            const radius = size * 0.16;
+            const x = left - 9;
+            const kind = marker.bullet % 3;
+            if (kind === 2) {
+                page.drawRectangle({ x: x - radius, y: center - radius, width: radius * 2, height: radius * 2, color: TEXT_COLOR });
+            } else {
+                page.drawCircle({
+                    x, y: center, size: radius,
+                    color: kind === 0 ? TEXT_COLOR : undefined,
+                    borderColor: kind === 1 ? TEXT_COLOR : undefined,
+                    borderWidth: kind === 1 ? 0.75 : undefined,
+                });
+            }
+        }
+    }
+
+    private async table(node: JSONContent, context: FlowContext, spacing: number): Promise<Box[]> {
+        // Place the cells on a grid, cells spanning several rows take the slots below them
+        const cells: TableCellLayout[] = [];
+        const occupied = new Set<string>();
+        const rows = node.content || [];
+        let columns = 0;
+        rows.forEach((row, rowIndex) => {
+            let column = 0;
+            for (let cell of row.content || []) {
+                while (occupied.has(`${rowIndex},${column}`)) column++;
+                const colSpan = Math.max(Number(cell.attrs?.colspan) || 1, 1);
+                const rowSpan = Math.min(Math.max(Number(cell.attrs?.rowspan) || 1, 1), rows.length - rowIndex);
+                for (let r = 0; r < rowSpan; r++) {
+                    for (let c = 0; c < colSpan; c++) occupied.add(`${rowIndex + r},${column + c}`);
+                }
+                cells.push({ node: cell, row: rowIndex, column, rowSpan, colSpan, boxes: [], height: 0 });
+                column += colSpan;
+            }
+            columns = Math.max(columns, column);
+        });
+        if (columns === 0) return [];
+
+        // Columns keep the proportions of the widths set in the editor
+        const setWidths: number[] = new Array(columns).fill(0);
+        for (let cell of cells) {
+            const colwidth: number[] | undefined = cell.node.attrs?.colwidth;
+            colwidth?.forEach((width, index) => {
+                if (width > 0 && cell.column + index < columns) setWidths[cell.column + index] = width;
+            });
+        }
+        const known = setWidths.filter(width => width > 0);
+        const fallback = known.length ? known.reduce((sum, width) => sum + width, 0) / known.length : 1;
+        const total = setWidths.reduce((sum, width) => sum + (width || fallback), 0);
+        const widths = setWidths.map(width => (width || fallback) / total * context.width);
+        const offsets = widths.map((_, index) => widths.slice(0, index).reduce((sum, width) => sum + width, 0));
+
+        for (let cell of cells) {
+            const width = widths.slice(cell.column, cell.column + cell.colSpan).reduce((sum, value) => sum + value, 0);
+            const base: BaseStyle = { size: this.baseSize, color: TEXT_COLOR, bold: cell.node.type === 'tableHeader' };
+            const content = cell.node.content?.length ? cell.node.content : [{ type: 'paragraph' }];
+            const boxes: Box[] = [];
+            for (let child of content) {
+                boxes.push(...(child.type === 'paragraph'
+                    ? await this.paragraph(child, { left: 0, width: width - CELL_PADDING * 2, level: -1, decorations: [] }, base, this.baseSize * 0.4)
+                    : await this.block(child, { left: 0, width: width - CELL_PADDING * 2, level: -1, decorations: [] })));
+            }
+            const { placements, height } = this.stack(boxes);
+            cell.boxes = placements;
+            cell.height = height + CELL_PADDING * 2;
+        }
+
+        const heights: number[] = new Array(rows.length).fill(0);
+        cells.filter(cell => cell.rowSpan === 1).forEach(cell => heights[cell.row] = Math.max(heights[cell.row], cell.height));
+        cells.filter(cell => cell.rowSpan > 1).forEach(cell => {
+            const last = cell.row + cell.rowSpan - 1;
+            const spanned = heights.slice(cell.row, last + 1).reduce((sum, height) => sum + height, 0);
+            if (spanned < cell.height) heights[last] += cell.height - spanned;
+        });
+
+        // Rows joined by a cell spanning them are kept on one page
+        const groups: [number, number][] = [];
+        for (let start = 0; start < rows.length;) {
+            let end = start;
+            for (let row = start; row <= end; row++) {
+                cells.filter(cell => cell.row === row).forEach(cell => end = Math.max(end, cell.row + cell.rowSpan - 1));
+            }
+            groups.push([start, end]);
+            start = end + 1;
+        }
+
+        const rowBox = ([start, end]: [number, number]): Box => ({
+            height: heights.slice(start, end + 1).reduce((sum, height) => sum + height, 0),
+            spaceBefore: 0,
+            decorations: context.decorations,
+            draw: (page, left, top) => {
+                for (let cell of cells.filter(cell => cell.row >= start && cell.row <= end)) {
+                    const x = left + context.left + offsets[cell.column];
+                    const y = top + heights.slice(start, cell.row).reduce((sum, height) => sum + height, 0);
+                    const width = widths.slice(cell.column, cell.column + cell.colSpan).reduce((sum, value) => sum + value, 0);
+                    const height = heights.slice(cell.row, cell.row + cell.rowSpan).reduce((sum, value) => sum + value, 0);
+                    page.drawRectangle({
+                        x, y: this.pageHeight - y - height, width, height,
+                        color: cell.node.type === 'tableHeader' ? HEADER_FILL : undefined,
+                        borderColor: BORDER_COLOR,
+                        borderWidth: 0.75,
+                    });
+                    this.drawFlow(page, cell.boxes, x + CELL_PADDING, y + CELL_PADDING);
+                }
+            },
+        });
+
+        // Leading rows of header cells are repeated on every page the table continues on
+        let headerEnd = -1;
+        while (headerEnd + 1 < rows.length && (rows[headerEnd + 1].content || []).every(cell => cell.type === 'tableHeader')) headerEnd++;
+        const headerGroups = groups.filter(([, end]) => end <= headerEnd);
+        const header = headerGroups.length ? rowBox([0, headerGroups[headerGroups.length - 1][1]]) : undefined;
+
+        const boxes: Box[] = [];
+        if (header) {
+            boxes.push({ ...header, keepWithNext: true });
+        }
+        for (let group of groups.filter(([start]) => start > (header ? headerEnd : -1))) {
+            boxes.push({ ...rowBox(group), header });
+        }
+        if (boxes.length) boxes[0].spaceBefore = spacing;
+        return boxes;
+    }
+
+    /**
+     * Embed an image with the size it has in the editor, images which can not be loaded are exported as a link
+     */
+    private async image(node: JSONContent, context: FlowContext, spacing: number): Promise<Box[]> {
+        const attrs = node.attrs || {};
+        const src: string = attrs.src || '';
+        if (!this.images.has(src)) {
+            this.images.set(src, src ? loadImage(src, ['png', 'jpg'])
+                .then(image => image && (image.type === 'png' ? this.pdf.embedPng(image.data) : this.pdf.embedJpg(image.data)))
+                .catch(() => null) : Promise.resolve(null));
+        }
+        const image = await this.images.get(src)!;
+        if (!image) {
+            const text = attrs.alt || attrs.title || src;
+            if (!text) return [];
+            const marks = /^https?:/.test(src) ? [{ type: 'link', attrs: { href: src } }] : [];
+            return this.paragraph({ type: 'paragraph', content: [{ type: 'text', text, marks }] }, context, { size: this.baseSize, color: TEXT_COLOR }, spacing);
+        }
+
+        // Sizes in the editor are CSS pixels
+        let width = image.width * 0.75;
+        const attrWidth = String(attrs.width ?? '').trim();
+        if (attrWidth.endsWith('%')) {
+            width = context.width * parseFloat(attrWidth) / 100;
+        } else if (parseFloat(attrWidth) > 0) {
+            width = parseFloat(attrWidth) * 0.75;
+        }
+        const attrHeight = parseFloat(String(attrs.height ?? ''));
+        let height = attrHeight > 0 && !String(attrs.height).endsWith('%') && !(parseFloat(attrWidth) > 0) ? attrHeight * 0.75 : width * image.height / image.width;
+
+        const scale = Math.min(1, context.width / width, this.contentHeight / height);
+        width *= scale;
+        height *= scale;
+
+        const free = context.width - width;
+        const offset = context.align === 'center' ? free / 2 : context.align === 'right' ? free : 0;
+        return [{
+            height,
+            spaceBefore: spacing,
+            decorations: context.decorations,
+            draw: (page, left, top) => {
+                page.drawImage(image, { x: left + context.left + offset, y: this.pageHeight - top - height, width, height });
+                if (context.marker) {
+                    const line = this.createLine([], 0, DEFAULT_LINE_HEIGHT, this.baseSize, true);
+                    this.drawMarker(page, context.marker, line, left + context.left, top);
+                }
+            },
+        }];
+    }
+
+    private fillRect(page: PDFPage, x: number, top: number, width: number, height: number, color: RGB) {
+        page.drawRectangle({ x, y: this.pageHeight - top - height, width, height, color });
+    }
+
+    /**
+     * Add a clickable area linking to a URL or to a position in the document
+     */
+    private addLink(page: PDFPage, x: number, y: number, width: number, height: number, target: string | { page: number, top: number }) {
+        const context = this.pdf.context;
+        const action = typeof target === 'string'
+            ? { A: { Type: 'Action', S: 'URI', URI: PDFString.of(target) } }
+            : { Dest: [this.pdf.getPage(target.page).ref, 'XYZ', null, this.pageHeight - target.top, null] };
+        const annotation = context.register(context.obj({
+            Type: 'Annot',
+            Subtype: 'Link',
+            Rect: [x, y, x + width, y + height],
+            Border: [0, 0, 0],
+            ...action,
+        }));
+        page.node.addAnnot(annotation);
+    }
+}
+
+/**
+ * Export the editor document to a .pdf file. The layout only depends on the document and the options,
+ * so it runs without a browser, e.g. in tests.
+ * @param doc The document JSON, e.g. the result of aiEditor.getJson()
+ * @param options
+ */
+export const exportToPdf = (doc: JSONContent, options: PdfExportOptions = {}): Promise<Blob> => {
+    return new PdfConverter(options).convert(doc);
+};
@@ -0,0 +1,234 @@
+/**
+ * Spreadsheet Utility
+ * Converts between spreadsheets (XLSX, XLS and CSV) and editor tables
+ */
+import { JSONContent } from '@tiptap/core';
+import * as XLSX from 'xlsx';
+
+export interface SpreadsheetMerge {
+    row: number;
+    column: number;
+    rowSpan: number;
+    colSpan: number;
+}
+
+export interface SpreadsheetSheet {
+    name: string;
+    rows: string[][];           // Formatted cell text, cells covered by a merge are empty
+    merges: SpreadsheetMerge[];
+}
+
+export interface SpreadsheetImportOptions {
+    csv?: boolean;              // Parse the data as CSV text instead of a workbook
+    sheets?: string[];          // Names of the sheets to import, defaults to all sheets
+    header?: boolean;           // Whether the first row is a header row, detected from the content by default
+}
+
+// Plain numbers are written as numbers to XLSX, numbers with a leading zero (e.g. codes) stay text
+const PLAIN_NUMBER = /^-?(0|[1-9]\d*)(\.\d+)?$/;
+const NUMBER = /^[-+]?[$€£¥]?\s?(\d{1,3}(,\d{3})+|\d*)(\.\d+)?(e[-+]?\d+)?%?$/i;
+
+const isNumeric = (value: string): boolean => {
+    const text = value.trim();
+    return /\d/.test(text) && NUMBER.test(text);
+};
+
+const cellKey = (row: number, column: number) => `${row},${column}`;
+
+/**
+ * Read the sheets of a workbook or a CSV file. Trailing empty rows and columns are dropped.
+ * @param data The file content, CSV may also be given as text
+ * @param options
+ */
+export const readSpreadsheet = (data: ArrayBuffer | Uint8Array | string, options: Pick<SpreadsheetImportOptions, 'csv'> = {}): SpreadsheetSheet[] => {
+    const workbook = typeof data === 'string' || options.csv
+        // raw keeps the CSV values as they are written, e.g. "007" or "1/2"
+        ? XLSX.read(typeof data === 'string' ? data : new TextDecoder().decode(data), { type: 'string', raw: true })
+        : XLSX.read(data, { type: 'array' });
+
+    return workbook.SheetNames.map(name => {
+        const worksheet = workbook.Sheets[name];
+        if (!worksheet || !worksheet['!ref']) return { name, rows: [], merges: [] };
+
+        const range = XLSX.utils.decode_range(worksheet['!ref']);
+        let rows = XLSX.utils.sheet_to_json<string[]>(worksheet, { header: 1, raw: false, defval: '', blankrows: true })
+            .map(row => row.map(value => value === null || value === undefined ? '' : String(value)));
+        while (rows.length && rows[rows.length - 1].every(value => !value.trim())) rows.pop();
+
+        const merges = (worksheet['!merges'] || []).map(merge => ({
+            row: merge.s.r - range.s.r,
+            column: merge.s.c - range.s.c,
+            rowSpan: merge.e.r - merge.s.r + 1,
+            colSpan: merge.e.c - merge.s.c + 1,
+        })).filter(merge => merge.row < rows.length && (merge.rowSpan > 1 || merge.colSpan > 1));
+
+        let width = 0;
+        rows.forEach(row => row.forEach((value, column) => {
+            if (value.trim()) width = Math.max(width, column + 1);
+        }));
+        merges.forEach(merge => width = Math.max(width, merge.column + 1));
+        rows = rows.map(row => Array.from({ length: width }, (_, column) => row[column] || ''));
+
+        return { name, rows, merges };
+    });
+};
+
+/**
+ * Whether the first row looks like column titles: distinct text cells over the data,
+ * ideally above columns of numbers. Cells covered by a merged title are skipped.
+ */
+export const detectHeaderRow = (rows: string[][], merges: SpreadsheetMerge[] = []): boolean => {
+    if (rows.length < 2) return false;
+    const [first, ...body] = rows;
+    const covered = (column: number) => merges.some(merge => merge.row === 0
+        && column > merge.column && column < merge.column + merge.colSpan);
+    const titles = first.map((value, column) => ({ title: value.trim(), column }))
+        .filter(({ column }) => !covered(column));
+    if (titles.length === 0 || titles.some(({ title }) => !title || isNumeric(title))) return false;
+    if (new Set(titles.map(({ title }) => title.toLowerCase())).size !== titles.length) return false;
+
+    if (first.some((_, column) => body.some(row => isNumeric(row[column] || '')))) return true;
+
+    // Text only tables: titles are short and do not repeat in their column
+    const length = (values: string[]) => values.reduce((sum, value) => sum + value.trim().length, 0) / Math.max(values.length, 1);
+    return titles.every(({ title, column }) => !body.some(row => (row[column] || '').trim() === title))
+        && length(titles.map(({ title }) => title)) <= length(body.flat());
+};
+
+const cellContent = (text: string): JSONContent[] => {
+    const lines = text.split(/\r?\n/);
+    return lines.map(line => line ? { type: 'paragraph', content: [{ type: 'text', text: line }] } : { type: 'paragraph' });
+};
+
+/**
+ * Create the table node of a sheet, merged cells become cells spanning several rows or columns
+ * @param sheet
+ * @param header Whether the first row is a header row, detected from the content by default
+ */
+export const spreadsheetToTable = (sheet: SpreadsheetSheet, header?: boolean): JSONContent => {
+    const hasHeader = header ?? detectHeaderRow(sheet.rows, sheet.merges);
+    const spans = new Map<string, SpreadsheetMerge>();
+    const covered = new Set<string>();
+    for (let merge of sheet.merges) {
+        spans.set(cellKey(merge.row, merge.column), merge);
+        for (let r = 0; r < merge.rowSpan; r++) {
+            for (let c = 0; c < merge.colSpan; c++) {
+                if (r || c) covered.add(cellKey(merge.row + r, merge.column + c));
+            }
+        }
+    }
+
+    const rows = sheet.rows.length ? sheet.rows : [['']];
+    return {
+        type: 'table',
+        content: rows.map((row, rowIndex) => ({
+            type: 'tableRow',
+            content: row.map((value, column) => ({ value, column }))
+                .filter(({ column }) => !covered.has(cellKey(rowIndex, column)))
+                .map(({ value, column }) => {
+                    const merge = spans.get(cellKey(rowIndex, column));
+                    return {
+                        type: hasHeader && rowIndex === 0 ? 'tableHeader' : 'tableCell',
+                        attrs: { colspan: merge?.colSpan || 1, rowspan: merge?.rowSpan || 1, colwidth: null },
+                        content: cellContent(value),
+                    };
+                }),
+        })).filter(row => row.content.length > 0),
+    };
+};
+
+const nodeText = (node: JSONContent): string => {
+    if (node.type === 'text') return node.text || '';
+    if (node.type === 'hardBreak') return '\n';
+    const children = node.content || [];
+    const blocks = children.some(child => child.type !== 'text' && child.type !== 'hardBreak' && child.content);
+    return children.map(nodeText).join(blocks ? '\n' : '');
+};
+
+/**
+ * Read the cell text of a table node, cells spanning several rows or columns are returned as merges
+ * @param table The table JSON, e.g. a table node of aiEditor.getJson()
+ * @param name The sheet name
+ */
+export const tableToSpreadsheet = (table: JSONContent, name: string = 'Sheet1'): SpreadsheetSheet => {
+    const values = new Map<string, string>();
+    const occupied = new Set<string>();
+    const merges: SpreadsheetMerge[] = [];
+    const rows = table.content || [];
+    let width = 0;
+
+    rows.forEach((row, rowIndex) => {
+        let column = 0;
+        for (let cell of row.content || []) {
+            while (occupied.has(cellKey(rowIndex, column))) column++;
+            const colSpan = Math.max(Number(cell.attrs?.colspan) || 1, 1);
+            const rowSpan = Math.min(Math.max(Number(cell.attrs?.rowspan) || 1, 1), rows.length - rowIndex);
+            for (let r = 0; r < rowSpan; r++) {
+                for (let c = 0; c < colSpan; c++) occupied.add(cellKey(rowIndex + r, column + c));
+            }
+            if (colSpan > 1 || rowSpan > 1) merges.push({ row: rowIndex, column, rowSpan, colSpan });
+            values.set(cellKey(rowIndex, column), nodeText(cell));
+            column += colSpan;
+        }
+        width = Math.max(width, column);
+    });
+
+    return {
+        name,
+        rows: rows.map((_, rowIndex) => Array.from({ length: width }, (_, column) => values.get(cellKey(rowIndex, column)) || '')),
+        merges,
+    };
+};
+
+// Spreadsheet programs run cells starting with these characters as formulas
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+/**
+ * Write the rows as CSV (RFC 4180), values with commas, quotes or line breaks are quoted.
+ * Values which would be read as formulas are prefixed with an apostrophe to prevent CSV injection.
+ */
+export const toCsv = (rows: string[][]): string => {
+    return rows.map(row => row.map(cell => {
+        const value = FORMULA_START.test(cell) ? `'${cell}` : cell;
+        return /[",\r\n]|^\s|\s$/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+    }).join(',')).join('\r\n');
+};
+
+/**
+ * Export a table node as CSV text
+ */
+export const exportTableToCsv = (table: JSONContent): string => {
+    return toCsv(tableToSpreadsheet(table).rows);
+};
+
+/**
+ * Export a table node as an .xlsx workbook with one sheet, merged cells are kept
+ */
+export const exportTableToXlsx = (table: JSONContent, sheetName: string = 'Sheet1'): Blob => {
+    const sheet = tableToSpreadsheet(table, sheetName);
+    const worksheet = XLSX.utils.aoa_to_sheet(sheet.rows.map(row => row.map(value => PLAIN_NUMBER.test(value) ? Number(value) : value)));
+    worksheet['!merges'] = sheet.merges.map(merge => ({
+        s: { r: merge.row, c: merge.column },
+        e: { r: merge.row + merge.rowSpan - 1, c: merge.column + merge.colSpan - 1 },
+    }));
+    const workbook = XLSX.utils.book_new();
+    // Sheet names are limited to 31 characters without []:*?/\
+    XLSX.utils.book_append_sheet(workbook, worksheet, sheet.name.replace(/[[\]:*?/\\]/g, ' ').substring(0, 31) || 'Sheet1');
+    const data: ArrayBuffer = XLSX.write(workbook, { type: 'array', bookType: 'xlsx', compression: true });
+    return new Blob([data], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' });
+};
+
+/**
+ * Create the table nodes of the selected sheets, with the sheet name as heading when there are several
+ */
+export const spreadsheetToContent = (sheets: SpreadsheetSheet[], options: SpreadsheetImportOptions = {}): JSONContent[] => {
+    const selected = options.sheets ? sheets.filter(sheet => options.sheets!.includes(sheet.name)) : sheets;
+    const content: JSONContent[] = [];
+    for (let sheet of selected) {
+        if (selected.length > 1) {
+            content.push({ type: 'heading', attrs: { level: 3 }, content: [{ type: 'text', text: sheet.name }] });
+        }
+        content.push(spreadsheetToTable(sheet, options.header));
+    }
+    return content;
+};
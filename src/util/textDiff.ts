@@ -0,0 +1,92 @@
+export interface DiffPart {
+    type: "equal" | "insert" | "delete",
+    text: string,
+}
+
+/**
+ * 修改的片段，from 和 to 为原文中被替换内容的偏移量，text 为替换后的内容
+ */
+export interface DiffHunk {
+    from: number,
+    to: number,
+    text: string,
+}
+
+// 超过这个规模时不再逐词比较，直接整体替换，避免计算量过大
+const MAX_DIFF_SIZE = 4000000;
+
+const tokenize = (text: string) => text.match(/\s+|[一-龥]|[^\s一-龥]+/g) || [];
+
+/**
+ * 按词比较两段文本（中文按字），基于最长公共子序列
+ * @param original
+ * @param modified
+ */
+export const diffWords = (original: string, modified: string): DiffPart[] => {
+    const a = tokenize(original);
+    const b = tokenize(modified);
+    if (a.length * b.length > MAX_DIFF_SIZE) {
+        return [{type: "delete", text: original}, {type: "insert", text: modified}]
+            .filter(part => part.text) as DiffPart[];
+    }
+
+    // lcs[i][j] 为 a[i..] 与 b[j..] 的最长公共子序列长度
+    const lcs: Uint32Array[] = [];
+    for (let i = a.length; i >= 0; i--) {
+        lcs[i] = new Uint32Array(b.length + 1);
+        for (let j = b.length - 1; i < a.length && j >= 0; j--) {
+            lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+        }
+    }
+
+    const parts: DiffPart[] = [];
+    const push = (type: DiffPart["type"], text: string) => {
+        const last = parts[parts.length - 1];
+        if (last && last.type === type) {
+            last.text += text;
+        } else {
+            parts.push({type, text});
+        }
+    }
+
+    let i = 0, j = 0;
+    while (i < a.length || j < b.length) {
+        if (i < a.length && j < b.length && a[i] === b[j]) {
+            push("equal", a[i++]);
+            j++;
+        } else if (i < a.length && (j === b.length || lcs[i + 1][j] >= lcs[i][j + 1])) {
+            push("delete", a[i++]);
+        } else {
+            push("insert", b[j++]);
+        }
+    }
+    return parts;
+}
+
+/**
+ * 把相邻的删除和插入合并为修改片段
+ * @param parts
+ */
+export const toDiffHunks = (parts: DiffPart[]): DiffHunk[] => {
+    const hunks: DiffHunk[] = [];
+    let offset = 0;
+    let current: DiffHunk | null = null;
+    for (let part of parts) {
+        if (part.type === "equal") {
+            current = null;
+            offset += part.text.length;
+            continue;
+        }
+        if (!current) {
+            current = {from: offset, to: offset, text: ""};
+            hunks.push(current);
+        }
+        if (part.type === "delete") {
+            offset += part.text.length;
+            current.to = offset;
+        } else {
+            current.text += part.text;
+        }
+    }
+    return hunks;
+}
@@ -30,6 +30,11 @@ export default defineConfig(({ mode }) => {
                 external: [
                     // We don't need to bundle these as they'll be dependencies
                     'mammoth',
+                    // Yjs must be a single instance shared with the custom collaboration provider
+                    'yjs',
+                    /^y-protocols/,
+                    'y-websocket',
+                    'y-prosemirror',
                     // Don't bundle the PDF.js worker - we're using CDN with offline fallback
                     /pdfjs-dist\/build\/pdf\.worker.*/
                 ],